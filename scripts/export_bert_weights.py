@@ -0,0 +1,52 @@
+"""Export a fine-tuned HuggingFace BertForSequenceClassification checkpoint
+to the JSON weight format read by src/utils/transformerEncoder.ts.
+
+Usage:
+    python scripts/export_bert_weights.py <checkpoint-dir> <output-dir>
+
+Writes model.json and vocab.txt; point BERT_MODEL_PATH and BERT_VOCAB_PATH at them.
+"""
+import json
+import shutil
+import sys
+from pathlib import Path
+
+from transformers import BertForSequenceClassification
+
+
+def main(checkpoint: str, output_dir: str) -> None:
+    model = BertForSequenceClassification.from_pretrained(checkpoint)
+    config = model.config
+    out = Path(output_dir)
+    out.mkdir(parents=True, exist_ok=True)
+
+    tensors = {
+        name: {"shape": list(tensor.shape), "data": tensor.flatten().tolist()}
+        for name, tensor in model.state_dict().items()
+        if not name.endswith("position_ids")
+    }
+
+    payload = {
+        "format": "bert-sequence-classification-json",
+        "version": 1,
+        "config": {
+            "vocab_size": config.vocab_size,
+            "hidden_size": config.hidden_size,
+            "num_hidden_layers": config.num_hidden_layers,
+            "num_attention_heads": config.num_attention_heads,
+            "intermediate_size": config.intermediate_size,
+            "max_position_embeddings": config.max_position_embeddings,
+            "type_vocab_size": config.type_vocab_size,
+            "layer_norm_eps": config.layer_norm_eps,
+            "labels": [config.id2label[i] for i in range(config.num_labels)],
+        },
+        "tensors": tensors,
+    }
+
+    with open(out / "model.json", "w") as fh:
+        json.dump(payload, fh)
+    shutil.copy(Path(checkpoint) / "vocab.txt", out / "vocab.txt")
+
+
+if __name__ == "__main__":
+    main(sys.argv[1], sys.argv[2])
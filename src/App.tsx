@@ -3,22 +3,33 @@ import { Brain, FileText, BarChart3 } from 'lucide-react';
 import { SentimentInput } from './components/SentimentInput';
 import { SentimentResult } from './components/SentimentResult';
 import { BatchAnalyzer } from './components/BatchAnalyzer';
-import { analyzeSentiment, SentimentResult as Result } from './utils/sentimentAnalyzer';
+import { SentimentResult as Result } from './utils/sentimentAnalyzer';
+import { EnsembleVerdict } from './utils/ensemble';
+import { analyzeReview, AnalysisSource } from './api/analysisClient';
 
 type Tab = 'single' | 'batch';
 
 function App() {
   const [activeTab, setActiveTab] = useState<Tab>('single');
   const [result, setResult] = useState<Result | null>(null);
+  const [verdict, setVerdict] = useState<EnsembleVerdict | null>(null);
+  const [source, setSource] = useState<AnalysisSource | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
-  const handleAnalyze = (text: string) => {
+  const handleAnalyze = async (text: string) => {
     setLoading(true);
-    setTimeout(() => {
-      const analysis = analyzeSentiment(text);
-      setResult(analysis);
+    setError(null);
+    try {
+      const analysis = await analyzeReview(text);
+      setResult(analysis.result);
+      setVerdict(analysis.verdict);
+      setSource(analysis.source);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Analysis failed');
+    } finally {
       setLoading(false);
-    }, 500);
+    }
   };
 
   return (
@@ -71,7 +82,17 @@ function App() {
           {activeTab === 'single' ? (
             <>
               <SentimentInput onAnalyze={handleAnalyze} loading={loading} />
-              {result && <SentimentResult result={result} />}
+              {error && (
+                <div className="w-full max-w-4xl mx-auto bg-red-50 border-2 border-red-200 rounded-lg p-4 text-red-700">
+                  {error}
+                </div>
+              )}
+              {source === 'browser' && (
+                <p className="w-full max-w-4xl mx-auto text-sm text-gray-500">
+                  API server unreachable, analyzed in the browser
+                </p>
+              )}
+              {result && verdict && <SentimentResult result={result} verdict={verdict} />}
             </>
           ) : (
             <BatchAnalyzer />
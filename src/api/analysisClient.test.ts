@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { callApi, streamApi, ApiUnavailableError } from './client';
+import { ApiError } from './errors';
+import { analyzeReview, analyzeReviewBatch, fetchJobDataPoints } from './analysisClient';
+import { analyzeSentiment } from '../utils/sentimentAnalyzer';
+import { extractKeyphrases } from '../utils/keyphraseExtractor';
+
+// An ingested Amazon review as the server returns it
+const reviewResult = (index: number, text: string | null) => ({
+  index,
+  review: { title: null, rating: 2, productId: 'B000123', reviewerId: null, timestamp: '2019-09-13T00:00:00.000Z' },
+  basic_analysis: text === null ? null : analyzeSentiment(text),
+  keyphrases: text === null ? null : extractKeyphrases(text)
+});
+
+vi.mock('./client', async importOriginal => ({
+  ...(await importOriginal<typeof import('./client')>()),
+  callApi: vi.fn(),
+  streamApi: vi.fn()
+}));
+
+afterEach(() => {
+  vi.resetAllMocks();
+});
+
+describe('analyzeReview', () => {
+  it('analyzes in the browser when the server is unreachable', async () => {
+    vi.mocked(callApi).mockRejectedValue(new ApiUnavailableError('connection refused'));
+
+    const analysis = await analyzeReview('I love it, works great');
+
+    expect(analysis.source).toBe('browser');
+    expect(analysis.result.label).toBe('Positive');
+  });
+
+  it('does not fall back when the server rejects the request', async () => {
+    vi.mocked(callApi).mockRejectedValue(new ApiError(400, 'INVALID_REQUEST', 'Invalid request'));
+
+    await expect(analyzeReview('')).rejects.toBeInstanceOf(ApiError);
+  });
+});
+
+describe('analyzeReviewBatch', () => {
+  it('reports progress from the stream and returns the server aggregate', async () => {
+    vi.mocked(streamApi).mockImplementation(async (_operation, _body, onEvent) => {
+      onEvent({ type: 'result' } as never);
+      onEvent({
+        type: 'aggregate',
+        aggregate: { received: 1, analyzed: 1, basic_aggregate: { total: 1 }, verdict_aggregate: { agreement: 1 } }
+      } as never);
+    });
+    const onProgress = vi.fn();
+
+    const analysis = await analyzeReviewBatch(['Great'], onProgress);
+
+    expect(onProgress).toHaveBeenCalledWith({ processed: 1, total: 1 });
+    expect(analysis).toEqual({
+      source: 'server',
+      summary: { total: 1, agreement: 1 },
+      received: 1,
+      analyzed: 1,
+      dataPoints: []
+    });
+  });
+
+  it('charts streamed results at the date, rating and product of their review', async () => {
+    vi.mocked(streamApi).mockImplementation(async (_operation, _body, onEvent) => {
+      onEvent({ type: 'result', result: reviewResult(0, 'Awful, it broke') } as never);
+      onEvent({ type: 'aggregate', aggregate: { received: 1, analyzed: 1 } } as never);
+    });
+
+    const { dataPoints } = await analyzeReviewBatch(['Awful, it broke']);
+
+    expect(dataPoints).toHaveLength(1);
+    expect(dataPoints[0]).toMatchObject({
+      label: 'Negative',
+      rating: 2,
+      productId: 'B000123',
+      timestamp: '2019-09-13T00:00:00.000Z',
+      emotions: { dominant: 'disgust' },
+      subjectivity: { label: 'subjective' }
+    });
+  });
+
+  it('falls back when the stream ends without an aggregate', async () => {
+    vi.mocked(streamApi).mockResolvedValue(undefined);
+
+    const analysis = await analyzeReviewBatch(['Great product', 'Awful, it broke']);
+
+    expect(analysis).toMatchObject({ source: 'browser', received: 2, analyzed: 2 });
+    expect(analysis.summary).toMatchObject({ positive: 1, negative: 1 });
+    expect(analysis.dataPoints.map(point => point.label)).toEqual(['Positive', 'Negative']);
+    expect(analysis.dataPoints[0].keyphrases?.map(k => k.phrase)).toEqual(['product']);
+  });
+});
+
+describe('fetchJobDataPoints', () => {
+  it('pages through the job results and charts the analyzed reviews at their own dates', async () => {
+    vi.mocked(callApi)
+      .mockResolvedValueOnce({ available: 2, results: [reviewResult(0, 'The battery life is great')] } as never)
+      .mockResolvedValueOnce({ available: 2, results: [reviewResult(1, null)] } as never);
+
+    const dataPoints = await fetchJobDataPoints('job-1');
+
+    expect(callApi).toHaveBeenLastCalledWith('getJobResults', undefined, {
+      params: { id: 'job-1' },
+      query: { offset: 1, limit: 500 }
+    });
+    expect(dataPoints).toHaveLength(1);
+    expect(dataPoints[0]).toMatchObject({ label: 'Positive', timestamp: '2019-09-13T00:00:00.000Z', rating: 2 });
+    expect(dataPoints[0].keyphrases?.map(k => k.phrase)).toEqual(['battery life']);
+  });
+});
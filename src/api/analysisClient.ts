@@ -0,0 +1,140 @@
+import { callApi, streamApi, ApiUnavailableError } from './client';
+import { ApiError } from './errors';
+import { MAX_JOB_RESULTS_LIMIT, ReviewResult } from './contract';
+import { analyzeSentiment, batchAnalyze, aggregateResults, SentimentResult } from '../utils/sentimentAnalyzer';
+import { createBertModel, analyzeWithBert, SimpleBertModel } from '../utils/bertModel';
+import { reconcilePredictions, aggregateVerdicts, EnsembleVerdict } from '../utils/ensemble';
+import { redactPii } from '../utils/piiRedactor';
+import { toSentimentDataPoint, SentimentDataPoint } from '../utils/dashboardLogic';
+import { reviewFromText } from '../utils/reviewRecord';
+import { extractKeyphrases } from '../utils/keyphraseExtractor';
+
+export type AnalysisSource = 'server' | 'browser';
+
+export interface ReviewAnalysis {
+  source: AnalysisSource;
+  result: SentimentResult;
+  verdict: EnsembleVerdict;
+}
+
+export type BatchSummary = ReturnType<typeof aggregateResults> & ReturnType<typeof aggregateVerdicts>;
+
+export interface BatchProgress {
+  processed: number;
+  total: number;
+}
+
+export interface BatchAnalysis {
+  source: AnalysisSource;
+  summary: BatchSummary;
+  received: number;
+  analyzed: number;
+  dataPoints: SentimentDataPoint[];
+}
+
+let browserModel: SimpleBertModel | null = null;
+
+const getBrowserModel = () => {
+  if (!browserModel) browserModel = createBertModel();
+  return browserModel;
+};
+
+// Only an unreachable server falls back; requests the server rejects still fail
+const withFallback = async <T>(remote: () => Promise<T>, local: () => T): Promise<T> => {
+  try {
+    return await remote();
+  } catch (error) {
+    if (!(error instanceof ApiUnavailableError)) throw error;
+    return local();
+  }
+};
+
+export const analyzeReview = (text: string): Promise<ReviewAnalysis> => withFallback<ReviewAnalysis>(
+  async () => {
+    const response = await callApi('analyze', { text });
+    return { source: 'server', result: response.basic_analysis, verdict: response.verdict };
+  },
+  () => {
+    // The server redacts PII by default, so the browser does too
+    const redacted = redactPii(text).text;
+    const result = analyzeSentiment(redacted);
+    const verdict = reconcilePredictions({ lexicon: result, bert: analyzeWithBert(redacted, getBrowserModel()) });
+    return { source: 'browser', result, verdict };
+  }
+);
+
+// Reviews no analyzer supports have no scores to chart
+export const toDataPoints = (results: ReviewResult[], analyzedAt: string): SentimentDataPoint[] =>
+  results.flatMap(({ basic_analysis, review, keyphrases }) => (
+    basic_analysis ? [toSentimentDataPoint(basic_analysis, review, analyzedAt, keyphrases)] : []
+  ));
+
+// Results stream in from the server so progress can be shown while the batch runs
+export const analyzeReviewBatch = (
+  reviews: string[],
+  onProgress?: (progress: BatchProgress) => void
+): Promise<BatchAnalysis> => withFallback<BatchAnalysis>(
+  async () => {
+    const analyzedAt = new Date().toISOString();
+    const results: ReviewResult[] = [];
+    let processed = 0;
+    let analysis: BatchAnalysis | null = null;
+
+    await streamApi('batchAnalyzeStream', reviews.map(text => ({ text })), event => {
+      if (event.type === 'result') {
+        if (event.result) results.push(event.result);
+        processed++;
+        onProgress?.({ processed, total: reviews.length });
+      } else if (event.type === 'error' && event.error?.line === null) {
+        throw new ApiError(500, event.error.code, event.error.message);
+      } else if (event.type === 'aggregate' && event.aggregate) {
+        analysis = {
+          source: 'server',
+          summary: { ...event.aggregate.basic_aggregate, ...event.aggregate.verdict_aggregate },
+          received: event.aggregate.received,
+          analyzed: event.aggregate.analyzed,
+          dataPoints: toDataPoints(results, analyzedAt)
+        };
+      }
+    });
+
+    if (!analysis) throw new ApiUnavailableError('batch stream ended before its aggregate');
+    return analysis;
+  },
+  () => {
+    const analyzedAt = new Date().toISOString();
+    const redacted = reviews.map(review => redactPii(review).text);
+    const analyzed = batchAnalyze(redacted);
+    const verdicts = redacted.map((review, idx) => reconcilePredictions({
+      lexicon: analyzed[idx],
+      bert: analyzeWithBert(review, getBrowserModel())
+    }));
+    onProgress?.({ processed: reviews.length, total: reviews.length });
+    return {
+      source: 'browser',
+      summary: { ...aggregateResults(analyzed), ...aggregateVerdicts(verdicts) },
+      received: reviews.length,
+      analyzed: reviews.length,
+      dataPoints: analyzed.map((result, idx) => toSentimentDataPoint(
+        result,
+        reviewFromText(redacted[idx]),
+        analyzedAt,
+        extractKeyphrases(redacted[idx])
+      ))
+    };
+  }
+);
+
+// Pages through the results a job has written so far
+export const fetchJobDataPoints = async (id: string): Promise<SentimentDataPoint[]> => {
+  const analyzedAt = new Date().toISOString();
+  const results: ReviewResult[] = [];
+  for (;;) {
+    const page = await callApi('getJobResults', undefined, {
+      params: { id },
+      query: { offset: results.length, limit: MAX_JOB_RESULTS_LIMIT }
+    });
+    results.push(...page.results);
+    if (page.results.length === 0 || results.length >= page.available) return toDataPoints(results, analyzedAt);
+  }
+};
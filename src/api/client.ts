@@ -0,0 +1,121 @@
+import { API_ROUTES, ApiOperation, ApiParams, ApiQuery, ApiRequestBody, ApiResponseBody } from './contract';
+import { ApiError, ApiErrorBody } from './errors';
+
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || '/api';
+
+// No API server answered, as opposed to the server rejecting the request with an ApiError
+export class ApiUnavailableError extends Error {
+  constructor(reason: string) {
+    super(`API server unavailable: ${reason}`);
+    this.name = 'ApiUnavailableError';
+  }
+}
+
+const isErrorBody = (payload: unknown): payload is ApiErrorBody =>
+  typeof payload === 'object' && payload !== null && 'code' in payload && 'message' in payload;
+
+export interface CallOptions<O extends ApiOperation> {
+  params?: ApiParams<O>;
+  query?: ApiQuery<O>;
+  signal?: AbortSignal;
+}
+
+const toUrl = (template: string, params: unknown, query: unknown) => {
+  const values = (params ?? {}) as Record<string, unknown>;
+  const path = template.replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(String(values[name])));
+  const search = new URLSearchParams(
+    Object.entries((query ?? {}) as Record<string, unknown>)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => [name, String(value)])
+  ).toString();
+
+  return `${API_BASE_URL}${path}${search ? `?${search}` : ''}`;
+};
+
+const request = async (url: string, init: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    if (init.signal?.aborted) throw error;
+    throw new ApiUnavailableError(error instanceof Error ? error.message : 'network error');
+  }
+};
+
+const failure = (response: Response, payload: unknown, method: string, url: string) => {
+  if (isErrorBody(payload)) {
+    return new ApiError(response.status, payload.code, payload.message, payload.details ?? null);
+  }
+
+  // A static host, a dev server without the proxy or a gateway in front of a stopped server
+  return new ApiUnavailableError(`${method} ${url} answered ${response.status} without an API response`);
+};
+
+export const callApi = async <O extends ApiOperation>(
+  operation: O,
+  body?: ApiRequestBody<O>,
+  { params, query, signal }: CallOptions<O> = {}
+): Promise<ApiResponseBody<O>> => {
+  const route = API_ROUTES[operation];
+  const method = route.method.toUpperCase();
+  const url = toUrl(route.path, params, query);
+
+  const response = await request(url, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal
+  });
+
+  const payload: unknown = await response.json().catch(() => undefined);
+  if (response.ok && payload !== undefined) {
+    return payload as ApiResponseBody<O>;
+  }
+  throw failure(response, payload, method, url);
+};
+
+// Sends one NDJSON line per input to a streaming operation and hands each server-sent event to onEvent
+export const streamApi = async <O extends ApiOperation>(
+  operation: O,
+  lines: ApiRequestBody<O>[],
+  onEvent: (event: ApiResponseBody<O>) => void,
+  { params, query, signal }: CallOptions<O> = {}
+): Promise<void> => {
+  const route = API_ROUTES[operation];
+  const method = route.method.toUpperCase();
+  const url = toUrl(route.path, params, query);
+
+  const response = await request(url, {
+    method,
+    headers: { 'Content-Type': 'application/x-ndjson', Accept: 'text/event-stream' },
+    body: lines.map(line => JSON.stringify(line)).join('\n'),
+    signal
+  });
+
+  if (!response.ok || !response.body || !response.headers.get('Content-Type')?.startsWith('text/event-stream')) {
+    throw failure(response, await response.json().catch(() => undefined), method, url);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  for (;;) {
+    let chunk: ReadableStreamReadResult<string>;
+    try {
+      chunk = await reader.read();
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new ApiUnavailableError(`${method} ${url} stream broke off`);
+    }
+    if (chunk.done) return;
+
+    const events = `${buffer}${chunk.value}`.split('\n\n');
+    buffer = events.pop() ?? '';
+    for (const event of events) {
+      const data = event
+        .split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice('data:'.length).trimStart())
+        .join('\n');
+      if (data) onEvent(JSON.parse(data));
+    }
+  }
+};
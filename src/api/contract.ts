@@ -0,0 +1,1004 @@
+import { Schema, FromSchema, typed, nullable } from './schema';
+import { API_ERROR_CODES } from './errors';
+import { SentimentResult, SUPPORTED_LANGUAGES, aggregateResults } from '../utils/sentimentAnalyzer';
+import {
+  PreprocessedData,
+  PreprocessingOptions,
+  PREPROCESSING_OPTION_NAMES,
+  STEMMERS
+} from '../utils/advancedPreprocessing';
+import { SentimentPrediction, BertModelInfo } from '../utils/bertModel';
+import { ClassifierPrediction, ReviewClassifier } from '../utils/reviewClassifier';
+import { EnsembleVerdict, ENSEMBLE_STRATEGIES, aggregateVerdicts } from '../utils/ensemble';
+import { AspectAggregate, AspectName } from '../utils/aspectExtractor';
+import { EmotionAggregate, EMOTIONS } from '../utils/emotionClassifier';
+import { KeyphraseStat, ReviewKeyphrase } from '../utils/keyphraseExtractor';
+import { RedactionOptions, RedactionReport, PII_TYPES } from '../utils/piiRedactor';
+import { Review, MIN_RATING, MAX_RATING } from '../utils/reviewRecord';
+
+export interface RouteDefinition {
+  method: 'get' | 'post' | 'delete';
+  // OpenAPI path template, e.g. /jobs/{id}
+  path: string;
+  summary: string;
+  // Success status, 200 unless stated
+  status?: number;
+  // Media types for routes that do not exchange single JSON documents; request and
+  // response schemas then describe one line or event each
+  media?: { request: string; response: readonly string[] };
+  params?: Schema;
+  query?: Schema;
+  request?: Schema;
+  response: Schema;
+  errors: readonly number[];
+}
+
+export const API_VERSION = '1.0.0';
+
+export const DEFAULT_KEYPHRASE_LIMIT = 20;
+export const MAX_KEYPHRASE_LIMIT = 100;
+
+export const DEFAULT_JOB_RESULTS_LIMIT = 100;
+export const MAX_JOB_RESULTS_LIMIT = 500;
+
+export const STREAM_FORMATS = ['ndjson', 'sse'] as const;
+// Longest NDJSON input line the streaming endpoint buffers before giving up
+export const MAX_STREAM_LINE_LENGTH = 1024 * 1024;
+
+export const JOB_STATUSES = ['queued', 'running', 'completed', 'failed', 'cancelled'] as const;
+
+const sentimentLabel = { type: 'string', enum: ['Positive', 'Negative', 'Neutral'] } as const;
+const classLabel = { type: 'string', enum: ['positive', 'negative', 'neutral'] } as const;
+const probability = { type: 'number', minimum: 0, maximum: 1 } as const;
+const percentage = { type: 'number', minimum: 0, maximum: 100 } as const;
+const timestamp = { type: 'string', format: 'date-time' } as const;
+const strings = { type: 'array', items: { type: 'string' } } as const;
+const classDistribution = {
+  type: 'object',
+  required: ['positive', 'negative', 'neutral'],
+  properties: { positive: probability, negative: probability, neutral: probability }
+} as const;
+
+const errorEnvelope = {
+  type: 'object',
+  description: 'Every failed request is answered with this envelope',
+  required: ['code', 'message', 'details'],
+  additionalProperties: false,
+  properties: {
+    code: { type: 'string', enum: API_ERROR_CODES },
+    message: { type: 'string' },
+    details: { type: 'object', nullable: true, description: 'Validation issues, detected language or the underlying failure' }
+  }
+} as const;
+
+const reviewText = { type: 'string', minLength: 1 } as const;
+const reviews = { type: 'array', minItems: 1, items: { type: 'string' } } as const;
+
+const language = {
+  type: 'string',
+  enum: SUPPORTED_LANGUAGES,
+  description: 'Skips language detection and routes every review to this analyzer'
+} as const;
+
+const ensembleOptions = {
+  type: 'object',
+  nullable: true,
+  additionalProperties: false,
+  properties: {
+    strategy: { type: 'string', enum: ENSEMBLE_STRATEGIES },
+    weights: {
+      type: 'object',
+      description: 'Per-analyzer vote weights, merged over the configured defaults',
+      additionalProperties: { type: 'number', minimum: 0 }
+    }
+  }
+} as const;
+
+const preprocessingOptions = typed<Partial<PreprocessingOptions>>()({
+  type: 'object',
+  nullable: true,
+  additionalProperties: false,
+  properties: Object.fromEntries(PREPROCESSING_OPTION_NAMES.map(name => [
+    name,
+    name === 'stemmer' ? { type: 'string', enum: STEMMERS } : { type: 'boolean' }
+  ]))
+});
+
+const redactionOptions = typed<Partial<RedactionOptions>>()({
+  type: 'object',
+  nullable: true,
+  description: 'PII is redacted before analysis unless disabled; report adds per-type counts to the response',
+  additionalProperties: false,
+  properties: {
+    enabled: { type: 'boolean', default: true },
+    report: { type: 'boolean', default: false }
+  }
+});
+
+const redactionReport = typed<RedactionReport & { applied: boolean }>()({
+  type: 'object',
+  required: ['applied', 'total', 'counts'],
+  properties: {
+    applied: { type: 'boolean' },
+    total: { type: 'integer', minimum: 0 },
+    counts: {
+      type: 'object',
+      description: `Redactions per type: ${PII_TYPES.join(', ')}`,
+      additionalProperties: { type: 'integer', minimum: 0 }
+    }
+  }
+});
+
+const languageDetection = {
+  type: 'object',
+  required: ['language', 'confidence', 'script', 'analyzer'],
+  properties: {
+    language: { type: 'string', description: 'Detected ISO 639-1 code, "und" when undetermined' },
+    confidence: probability,
+    script: { type: 'string' },
+    analyzer: { type: 'string', description: 'Language of the analyzer the review was routed to' }
+  }
+} as const;
+
+const sentimentResult = typed<SentimentResult>()({
+  type: 'object',
+  description: 'Lexicon analysis with aspects, emotions, subjectivity and sarcasm',
+  required: [
+    'score', 'comparative', 'label', 'confidence', 'probabilities', 'calibrated', 'language', 'tokens',
+    'aspects', 'shifts', 'substitutions', 'emotions', 'subjectivity', 'sarcasm', 'sentences'
+  ],
+  properties: {
+    score: { type: 'number' },
+    comparative: { type: 'number' },
+    label: sentimentLabel,
+    confidence: percentage,
+    probabilities: classDistribution,
+    calibrated: { type: 'boolean' },
+    language: { type: 'string' },
+    tokens: strings,
+    positive: strings,
+    negative: strings,
+    features: { type: 'object', nullable: true },
+    aspects: { type: 'object', additionalProperties: { type: 'object', required: ['label', 'score'] } },
+    shifts: { type: 'array', items: { type: 'object', required: ['type', 'trigger', 'factor'] } },
+    substitutions: { type: 'array', items: { type: 'object', required: ['type', 'original', 'replacement'] } },
+    emotions: {
+      type: 'object',
+      required: ['scores', 'distribution', 'dominant', 'intensity', 'triggers'],
+      properties: { dominant: { type: 'string', enum: EMOTIONS, nullable: true } }
+    },
+    subjectivity: {
+      type: 'object',
+      required: ['score', 'label', 'sentences', 'evidence'],
+      properties: { score: probability, label: { type: 'string', enum: ['subjective', 'objective'] } }
+    },
+    sarcasm: { type: 'object', required: ['sarcasmProbability', 'cues', 'adjustment'] },
+    sentences: { type: 'array', items: { type: 'object', required: ['text', 'label', 'score'] } }
+  }
+});
+
+const ensembleVerdict = typed<EnsembleVerdict>()({
+  type: 'object',
+  required: ['label', 'predicted_class', 'positive', 'negative', 'neutral', 'confidence', 'strategy', 'disagreement', 'votes'],
+  properties: {
+    label: sentimentLabel,
+    predicted_class: classLabel,
+    positive: probability,
+    negative: probability,
+    neutral: probability,
+    confidence: percentage,
+    strategy: { type: 'string', enum: ENSEMBLE_STRATEGIES },
+    disagreement: { type: 'boolean' },
+    votes: {
+      type: 'array',
+      items: { type: 'object', required: ['analyzer', 'predicted_class', 'confidence', 'weight'] }
+    }
+  }
+});
+
+const sentimentPrediction = typed<SentimentPrediction>()({
+  type: 'object',
+  description: 'BERT (or heuristic fallback) prediction; English only',
+  required: ['positive', 'negative', 'neutral', 'predicted_class', 'confidence', 'calibrated', 'raw_logits'],
+  properties: {
+    positive: probability,
+    negative: probability,
+    neutral: probability,
+    predicted_class: classLabel,
+    confidence: percentage,
+    calibrated: { type: 'boolean' },
+    raw_logits: { type: 'array', items: { type: 'number' } }
+  }
+});
+
+const classifierPrediction = typed<ClassifierPrediction>()({
+  type: 'object',
+  description: 'Trained review classifier prediction; present when a classifier is loaded',
+  required: ['positive', 'negative', 'neutral', 'predicted_class', 'confidence', 'calibrated'],
+  properties: {
+    positive: probability,
+    negative: probability,
+    neutral: probability,
+    predicted_class: classLabel,
+    confidence: percentage,
+    calibrated: { type: 'boolean' }
+  }
+});
+
+const preprocessedData = typed<PreprocessedData>()({
+  type: 'object',
+  required: ['original', 'cleaned', 'tokens', 'lemmatized', 'stems', 'features', 'metadata', 'substitutions', 'stages'],
+  properties: {
+    original: { type: 'string' },
+    cleaned: { type: 'string' },
+    tokens: strings,
+    lemmatized: strings,
+    stems: { ...strings, nullable: true },
+    stages: strings
+  }
+});
+
+const aggregateCounts = {
+  total: { type: 'integer', minimum: 0 },
+  positive: { type: 'integer', minimum: 0 },
+  negative: { type: 'integer', minimum: 0 },
+  neutral: { type: 'integer', minimum: 0 },
+  positivePercentage: { type: 'number' },
+  negativePercentage: { type: 'number' },
+  neutralPercentage: { type: 'number' }
+} as const;
+
+const sentimentAggregate = typed<ReturnType<typeof aggregateResults>>()({
+  type: 'object',
+  required: [...Object.keys(aggregateCounts), 'avgScore', 'avgConfidence'],
+  properties: { ...aggregateCounts, avgScore: { type: 'number' }, avgConfidence: { type: 'number' } }
+});
+
+const verdictAggregate = typed<ReturnType<typeof aggregateVerdicts>>()({
+  type: 'object',
+  required: [...Object.keys(aggregateCounts), 'disagreements'],
+  properties: { ...aggregateCounts, disagreements: { type: 'integer', minimum: 0 } }
+});
+
+const emotionAggregate = typed<EmotionAggregate>()({
+  type: 'object',
+  required: ['reviews', 'withEmotion', 'dominantCounts', 'averageDistribution'],
+  properties: {
+    reviews: { type: 'integer', minimum: 0 },
+    withEmotion: { type: 'integer', minimum: 0 },
+    dominantCounts: { type: 'object', additionalProperties: { type: 'integer', minimum: 0 } },
+    averageDistribution: { type: 'object', additionalProperties: probability }
+  }
+});
+
+const reviewKeyphrase = typed<ReviewKeyphrase>()({
+  type: 'object',
+  required: ['phrase', 'count', 'sentiment'],
+  properties: {
+    phrase: { type: 'string' },
+    count: { type: 'integer', minimum: 1 },
+    sentiment: { type: 'number' }
+  }
+});
+
+const keyphraseStat = typed<KeyphraseStat>()({
+  type: 'object',
+  required: ['phrase', 'frequency', 'documentFrequency', 'averageSentiment', 'sentiment', 'score'],
+  properties: {
+    phrase: { type: 'string' },
+    frequency: { type: 'integer', minimum: 1 },
+    documentFrequency: { type: 'integer', minimum: 1 },
+    averageSentiment: { type: 'number' },
+    sentiment: classLabel,
+    score: { type: 'number' }
+  }
+});
+
+const analyzeRequest = {
+  type: 'object',
+  required: ['text'],
+  additionalProperties: false,
+  properties: {
+    text: reviewText,
+    useAdvanced: { type: 'boolean', default: false },
+    ensemble: ensembleOptions,
+    preprocessing: preprocessingOptions,
+    language,
+    redaction: redactionOptions
+  }
+} as const;
+
+const analyzeResponse = {
+  type: 'object',
+  required: [
+    'language', 'verdict', 'basic_analysis', 'bert_prediction', 'classifier_prediction', 'aspects', 'sentences',
+    'advanced_preprocessing', 'redaction', 'timestamp', 'text_length'
+  ],
+  properties: {
+    language: languageDetection,
+    verdict: ensembleVerdict,
+    basic_analysis: sentimentResult,
+    bert_prediction: nullable(sentimentPrediction),
+    classifier_prediction: nullable(classifierPrediction),
+    aspects: typed<SentimentResult['aspects']>()({ type: 'object' }),
+    sentences: typed<SentimentResult['sentences']>()({ type: 'array', items: { type: 'object' } }),
+    advanced_preprocessing: nullable(preprocessedData),
+    redaction: nullable(redactionReport),
+    timestamp,
+    text_length: { type: 'integer', minimum: 0 }
+  }
+} as const;
+
+const batchAnalyzeRequest = {
+  type: 'object',
+  required: ['reviews'],
+  additionalProperties: false,
+  properties: {
+    reviews,
+    useAdvanced: { type: 'boolean', default: false },
+    ensemble: ensembleOptions,
+    preprocessing: preprocessingOptions,
+    language,
+    redaction: redactionOptions,
+    excludeFactual: {
+      type: 'boolean',
+      default: false,
+      description: 'Leaves purely factual reviews out of every aggregate'
+    }
+  }
+} as const;
+
+const unsupportedReview = {
+  type: 'object',
+  required: ['index', 'detected_language', 'confidence'],
+  properties: {
+    index: { type: 'integer', minimum: 0 },
+    detected_language: { type: 'string' },
+    confidence: probability
+  }
+} as const;
+
+const batchAnalyzeResponse = {
+  type: 'object',
+  required: [
+    'count', 'received', 'analyzed_indices', 'factual_indices', 'aggregated_count', 'languages', 'unsupported',
+    'language_aggregate', 'verdict_aggregate', 'verdicts', 'basic_aggregate', 'basic_individual', 'bert_predictions',
+    'classifier_predictions', 'aspect_aggregate', 'emotion_aggregate', 'advanced_preprocessing', 'redaction', 'timestamp'
+  ],
+  properties: {
+    count: { type: 'integer', minimum: 0, description: 'Reviews routed to an analyzer' },
+    received: { type: 'integer', minimum: 1 },
+    analyzed_indices: { type: 'array', items: { type: 'integer', minimum: 0 } },
+    factual_indices: { type: 'array', items: { type: 'integer', minimum: 0 } },
+    aggregated_count: { type: 'integer', minimum: 0 },
+    languages: { type: 'array', items: languageDetection },
+    unsupported: { type: 'array', items: unsupportedReview },
+    language_aggregate: {
+      type: 'object',
+      description: 'Aggregates per analyzer language',
+      additionalProperties: {
+        type: 'object',
+        required: ['name', 'basic', 'emotions', 'verdict'],
+        properties: { name: { type: 'string' }, basic: sentimentAggregate, emotions: emotionAggregate, verdict: verdictAggregate }
+      }
+    },
+    verdict_aggregate: verdictAggregate,
+    verdicts: { type: 'array', items: ensembleVerdict },
+    basic_aggregate: sentimentAggregate,
+    basic_individual: { type: 'array', items: sentimentResult },
+    bert_predictions: { type: 'array', items: nullable(sentimentPrediction) },
+    classifier_predictions: { type: 'array', nullable: true, items: nullable(classifierPrediction) },
+    aspect_aggregate: typed<Partial<Record<AspectName, AspectAggregate>>>()({
+      type: 'object',
+      additionalProperties: { type: 'object', required: ['mentions', 'positive', 'negative', 'neutral', 'avgScore'] }
+    }),
+    emotion_aggregate: emotionAggregate,
+    advanced_preprocessing: { type: 'array', nullable: true, items: preprocessedData },
+    redaction: { type: 'array', nullable: true, items: redactionReport },
+    timestamp
+  }
+} as const;
+
+const compareRequest = {
+  type: 'object',
+  required: ['text1', 'text2'],
+  additionalProperties: false,
+  properties: { text1: reviewText, text2: reviewText, language, redaction: redactionOptions }
+} as const;
+
+const comparedText = {
+  type: 'object',
+  required: ['basic', 'bert'],
+  properties: { basic: sentimentResult, bert: nullable(sentimentPrediction) }
+} as const;
+
+const compareResponse = {
+  type: 'object',
+  required: ['text1', 'text2', 'sentiment_difference', 'similarity_score', 'redaction', 'timestamp'],
+  properties: {
+    text1: comparedText,
+    text2: comparedText,
+    sentiment_difference: { type: 'number' },
+    similarity_score: probability,
+    redaction: {
+      type: 'object',
+      nullable: true,
+      required: ['text1', 'text2'],
+      properties: { text1: redactionReport, text2: redactionReport }
+    },
+    timestamp
+  }
+} as const;
+
+const extractFeaturesRequest = {
+  type: 'object',
+  required: ['text'],
+  additionalProperties: false,
+  properties: { text: reviewText, preprocessing: preprocessingOptions, language, redaction: redactionOptions }
+} as const;
+
+const extractFeaturesResponse = {
+  type: 'object',
+  required: [
+    'stages', 'text_analysis', 'metadata', 'tokens_count', 'lemmatized_count', 'unique_tokens', 'unique_base_forms',
+    'tokens', 'lemmas', 'stems', 'substitutions', 'base_form_frequencies', 'redaction', 'timestamp'
+  ],
+  properties: {
+    stages: typed<PreprocessedData['stages']>()(strings),
+    text_analysis: typed<PreprocessedData['features']>()({ type: 'object', nullable: true }),
+    metadata: typed<PreprocessedData['metadata']>()({ type: 'object', nullable: true }),
+    tokens_count: { type: 'integer', minimum: 0 },
+    lemmatized_count: { type: 'integer', minimum: 0 },
+    unique_tokens: { type: 'integer', minimum: 0 },
+    unique_base_forms: { type: 'integer', minimum: 0 },
+    tokens: { ...strings, maxItems: 50 },
+    lemmas: { ...strings, maxItems: 50 },
+    stems: { ...strings, maxItems: 50, nullable: true },
+    substitutions: typed<PreprocessedData['substitutions']>()({ type: 'array', items: { type: 'object' } }),
+    base_form_frequencies: {
+      type: 'array',
+      maxItems: 25,
+      items: {
+        type: 'object',
+        required: ['word', 'frequency'],
+        properties: { word: { type: 'string' }, frequency: { type: 'integer', minimum: 1 } }
+      }
+    },
+    redaction: nullable(redactionReport),
+    timestamp
+  }
+} as const;
+
+const keyphrasesRequest = {
+  type: 'object',
+  required: ['reviews'],
+  additionalProperties: false,
+  properties: {
+    reviews,
+    limit: { type: 'integer', minimum: 1, maximum: MAX_KEYPHRASE_LIMIT, default: DEFAULT_KEYPHRASE_LIMIT },
+    redaction: redactionOptions
+  }
+} as const;
+
+const keyphrasesResponse = {
+  type: 'object',
+  required: ['count', 'keyphrases', 'reviews', 'supported_languages', 'redaction', 'timestamp'],
+  properties: {
+    count: { type: 'integer', minimum: 1 },
+    keyphrases: { type: 'array', items: keyphraseStat },
+    reviews: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['index', 'language', 'keyphrases'],
+        properties: {
+          index: { type: 'integer', minimum: 0 },
+          language: { type: 'string', nullable: true, description: 'null when no keyphrase extractor supports the review' },
+          keyphrases: { type: 'array', items: reviewKeyphrase }
+        }
+      }
+    },
+    supported_languages: strings,
+    redaction: { type: 'array', nullable: true, items: redactionReport },
+    timestamp
+  }
+} as const;
+
+const distributionRequest = {
+  type: 'object',
+  required: ['reviews'],
+  additionalProperties: false,
+  properties: { reviews, language }
+} as const;
+
+const distributionResponse = {
+  type: 'object',
+  required: ['distribution', 'total_reviews', 'unsupported', 'timestamp'],
+  properties: {
+    distribution: {
+      type: 'object',
+      required: ['positive', 'negative', 'neutral', 'positivePercentage', 'negativePercentage', 'neutralPercentage'],
+      properties: {
+        positive: { type: 'integer', minimum: 0 },
+        negative: { type: 'integer', minimum: 0 },
+        neutral: { type: 'integer', minimum: 0 },
+        positivePercentage: { type: 'number' },
+        negativePercentage: { type: 'number' },
+        neutralPercentage: { type: 'number' }
+      }
+    },
+    total_reviews: { type: 'integer', minimum: 1 },
+    unsupported: { type: 'array', items: unsupportedReview, description: 'Reviews left out of the distribution' },
+    timestamp
+  }
+} as const;
+
+const modelInfoResponse = {
+  type: 'object',
+  required: [
+    'model_type', 'components', 'supported_languages', 'max_text_length', 'bert', 'classifier', 'ensemble',
+    'calibration', 'classes', 'features'
+  ],
+  properties: {
+    model_type: { type: 'string' },
+    components: strings,
+    supported_languages: strings,
+    max_text_length: { type: 'integer', minimum: 1 },
+    bert: typed<BertModelInfo>()({ type: 'object', required: ['backend', 'vocab_size', 'max_length', 'labels'] }),
+    classifier: typed<ReturnType<ReviewClassifier['getModelInfo']>>()({ type: 'object', nullable: true }),
+    ensemble: {
+      type: 'object',
+      required: ['strategy', 'strategies', 'weights', 'stacker_loaded'],
+      properties: {
+        strategy: { type: 'string', enum: ENSEMBLE_STRATEGIES },
+        strategies: { type: 'array', items: { type: 'string', enum: ENSEMBLE_STRATEGIES } },
+        weights: { type: 'object', additionalProperties: { type: 'number' } },
+        stacker_loaded: { type: 'boolean' }
+      }
+    },
+    calibration: {
+      type: 'object',
+      nullable: true,
+      required: ['fitted_at', 'examples', 'analyzers'],
+      properties: {
+        fitted_at: { type: 'string' },
+        examples: { type: 'integer', minimum: 0 },
+        analyzers: { type: 'object', additionalProperties: { type: 'string', nullable: true } }
+      }
+    },
+    classes: { type: 'array', items: classLabel },
+    features: { type: 'object', additionalProperties: { type: 'boolean' } }
+  }
+} as const;
+
+const healthResponse = {
+  type: 'object',
+  required: ['status', 'timestamp', 'version'],
+  properties: {
+    status: { type: 'string', enum: ['healthy'] },
+    timestamp,
+    version: { type: 'string' }
+  }
+} as const;
+
+const openApiResponse = {
+  type: 'object',
+  required: ['openapi', 'info', 'paths', 'components'],
+  properties: {
+    openapi: { type: 'string' },
+    info: { type: 'object', required: ['title', 'version'] },
+    servers: { type: 'array', items: { type: 'object', required: ['url'] } },
+    paths: { type: 'object' },
+    components: { type: 'object' }
+  }
+} as const;
+
+const jobStatus = { type: 'string', enum: JOB_STATUSES } as const;
+
+const jobOptions = {
+  type: 'object',
+  required: ['useAdvanced', 'ensemble', 'preprocessing', 'language', 'excludeFactual'],
+  properties: {
+    useAdvanced: { type: 'boolean' },
+    ensemble: ensembleOptions,
+    preprocessing: preprocessingOptions,
+    language: { ...language, nullable: true },
+    excludeFactual: { type: 'boolean' }
+  }
+} as const;
+
+const count = { type: 'integer', minimum: 0 } as const;
+
+const job = {
+  type: 'object',
+  required: [
+    'id', 'status', 'created_at', 'started_at', 'finished_at', 'source', 'options', 'progress', 'aggregates',
+    'redaction', 'error'
+  ],
+  properties: {
+    id: { type: 'string' },
+    status: jobStatus,
+    created_at: timestamp,
+    started_at: { ...timestamp, nullable: true },
+    finished_at: { ...timestamp, nullable: true },
+    source: {
+      type: 'object',
+      required: ['type', 'path', 'rows', 'malformed_count', 'malformed'],
+      properties: {
+        type: { type: 'string', enum: ['reviews', 'file'] },
+        path: { type: 'string', nullable: true },
+        rows: { ...count, description: 'Records read from the file' },
+        malformed_count: { ...count, description: 'File rows left out' },
+        malformed: {
+          type: 'array',
+          description: 'The first malformed rows and why they were left out',
+          items: {
+            type: 'object',
+            required: ['row', 'reason'],
+            properties: { row: { type: 'integer', minimum: 1 }, reason: { type: 'string' } }
+          }
+        }
+      }
+    },
+    options: jobOptions,
+    progress: {
+      type: 'object',
+      required: ['total', 'processed', 'analyzed', 'skipped', 'percentage'],
+      properties: {
+        total: count,
+        processed: count,
+        analyzed: count,
+        skipped: { ...count, description: 'Reviews in a language no analyzer supports' },
+        percentage
+      }
+    },
+    aggregates: {
+      type: 'object',
+      description: 'Aggregates over the reviews processed so far',
+      required: ['basic', 'verdict'],
+      properties: { basic: sentimentAggregate, verdict: verdictAggregate }
+    },
+    redaction: nullable(redactionReport),
+    error: { type: 'string', nullable: true }
+  }
+} as const;
+
+const reviewMetadata = typed<Omit<Review, 'text'>>()({
+  type: 'object',
+  description: 'Metadata of the source record, e.g. an Amazon export row',
+  required: ['title', 'rating', 'productId', 'reviewerId', 'timestamp'],
+  properties: {
+    title: { type: 'string', nullable: true },
+    rating: { type: 'number', minimum: MIN_RATING, maximum: MAX_RATING, nullable: true },
+    productId: { type: 'string', nullable: true },
+    reviewerId: { type: 'string', nullable: true },
+    timestamp: { ...timestamp, nullable: true }
+  }
+});
+
+const reviewResult = {
+  type: 'object',
+  required: [
+    'index', 'review', 'language', 'verdict', 'basic_analysis', 'bert_prediction', 'classifier_prediction',
+    'advanced_preprocessing', 'factual', 'keyphrases'
+  ],
+  properties: {
+    index: count,
+    review: reviewMetadata,
+    language: {
+      ...languageDetection,
+      properties: {
+        ...languageDetection.properties,
+        analyzer: { type: 'string', nullable: true, description: 'null when no analyzer supports the review' }
+      }
+    },
+    verdict: nullable(ensembleVerdict),
+    basic_analysis: nullable(sentimentResult),
+    bert_prediction: nullable(sentimentPrediction),
+    classifier_prediction: nullable(classifierPrediction),
+    advanced_preprocessing: nullable(preprocessedData),
+    factual: { type: 'boolean', nullable: true },
+    keyphrases: {
+      type: 'array',
+      nullable: true,
+      items: reviewKeyphrase,
+      description: 'null when no keyphrase extractor supports the review'
+    }
+  }
+} as const;
+
+const jobParams = {
+  type: 'object',
+  required: ['id'],
+  properties: { id: { type: 'string', minLength: 1 } }
+} as const;
+
+const createJobRequest = {
+  type: 'object',
+  description: 'Either reviews or a file reference',
+  additionalProperties: false,
+  properties: {
+    reviews,
+    file: {
+      type: 'object',
+      required: ['path'],
+      additionalProperties: false,
+      properties: {
+        path: {
+          type: 'string',
+          minLength: 1,
+          description: 'CSV, TSV or JSON lines file relative to JOBS_INPUT_DIR, optionally gzipped; '
+            + 'Amazon review export columns are mapped automatically'
+        },
+        textField: { type: 'string', minLength: 1, description: 'Column holding the review text, e.g. reviewText' }
+      }
+    },
+    useAdvanced: { type: 'boolean', default: false },
+    ensemble: ensembleOptions,
+    preprocessing: preprocessingOptions,
+    language,
+    redaction: redactionOptions,
+    excludeFactual: { type: 'boolean', default: false }
+  }
+} as const;
+
+const jobResultsQuery = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    offset: { type: 'integer', minimum: 0, default: 0 },
+    limit: { type: 'integer', minimum: 1, maximum: MAX_JOB_RESULTS_LIMIT, default: DEFAULT_JOB_RESULTS_LIMIT }
+  }
+} as const;
+
+const jobResultsResponse = {
+  type: 'object',
+  required: ['id', 'status', 'offset', 'limit', 'available', 'results'],
+  properties: {
+    id: { type: 'string' },
+    status: jobStatus,
+    offset: count,
+    limit: { type: 'integer', minimum: 1 },
+    available: { ...count, description: 'Results written so far' },
+    results: { type: 'array', items: reviewResult }
+  }
+} as const;
+
+const streamLine = {
+  type: 'object',
+  description: 'One NDJSON input line; a bare JSON string is accepted as the text, and Amazon export fields '
+    + '(reviewText, summary, overall, asin, reviewerID, unixReviewTime) are mapped onto these',
+  properties: {
+    ...reviewMetadata.properties,
+    text: reviewText
+  }
+} as const;
+
+const streamQuery = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    format: {
+      type: 'string',
+      enum: STREAM_FORMATS,
+      description: 'Defaults to sse when the Accept header asks for text/event-stream'
+    },
+    useAdvanced: { type: 'boolean', default: false },
+    language,
+    redact: { type: 'boolean', default: true },
+    excludeFactual: { type: 'boolean', default: false }
+  }
+} as const;
+
+const streamEvent = {
+  type: 'object',
+  description: 'One NDJSON output line or SSE event, named after its type; the aggregate comes last',
+  required: ['type'],
+  additionalProperties: false,
+  properties: {
+    type: { type: 'string', enum: ['result', 'error', 'aggregate'] },
+    result: reviewResult,
+    error: {
+      type: 'object',
+      required: ['line', 'code', 'message'],
+      properties: {
+        line: { type: 'integer', minimum: 1, nullable: true, description: 'Input line, null when the whole stream failed' },
+        code: errorEnvelope.properties.code,
+        message: { type: 'string' }
+      }
+    },
+    aggregate: {
+      type: 'object',
+      required: [
+        'received', 'analyzed', 'skipped', 'errors', 'aggregated_count', 'basic_aggregate', 'verdict_aggregate',
+        'redaction', 'timestamp'
+      ],
+      properties: {
+        received: count,
+        analyzed: count,
+        skipped: { ...count, description: 'Reviews in a language no analyzer supports' },
+        errors: { ...count, description: 'Input lines that could not be read' },
+        aggregated_count: count,
+        basic_aggregate: sentimentAggregate,
+        verdict_aggregate: verdictAggregate,
+        redaction: nullable(redactionReport),
+        timestamp
+      }
+    }
+  }
+} as const;
+
+// Named schemas become reusable components (and $refs) in the OpenAPI document
+export const API_SCHEMAS: Record<string, Schema> = {
+  ErrorEnvelope: errorEnvelope,
+  LanguageDetection: languageDetection,
+  EnsembleOptions: ensembleOptions,
+  PreprocessingOptions: preprocessingOptions,
+  RedactionOptions: redactionOptions,
+  RedactionReport: redactionReport,
+  SentimentResult: sentimentResult,
+  EnsembleVerdict: ensembleVerdict,
+  SentimentPrediction: sentimentPrediction,
+  ClassifierPrediction: classifierPrediction,
+  PreprocessedData: preprocessedData,
+  SentimentAggregate: sentimentAggregate,
+  VerdictAggregate: verdictAggregate,
+  EmotionAggregate: emotionAggregate,
+  ReviewKeyphrase: reviewKeyphrase,
+  KeyphraseStat: keyphraseStat,
+  UnsupportedReview: unsupportedReview,
+  Job: job,
+  ReviewMetadata: reviewMetadata,
+  ReviewResult: reviewResult
+};
+
+export const API_ROUTES = {
+  analyze: {
+    method: 'post',
+    path: '/analyze',
+    summary: 'Analyze one review with every analyzer and reconcile them into a verdict',
+    request: analyzeRequest,
+    response: analyzeResponse,
+    errors: [400, 413, 422, 500]
+  },
+  batchAnalyze: {
+    method: 'post',
+    path: '/batch-analyze',
+    summary: 'Analyze a batch of reviews and aggregate the results per language',
+    request: batchAnalyzeRequest,
+    response: batchAnalyzeResponse,
+    errors: [400, 413, 422, 500]
+  },
+  batchAnalyzeStream: {
+    method: 'post',
+    path: '/batch-analyze/stream',
+    summary: 'Analyze NDJSON reviews, streaming one result per review and a final aggregate',
+    media: { request: 'application/x-ndjson', response: ['application/x-ndjson', 'text/event-stream'] },
+    query: streamQuery,
+    request: streamLine,
+    response: streamEvent,
+    errors: [400, 415, 500]
+  },
+  compare: {
+    method: 'post',
+    path: '/compare',
+    summary: 'Compare the sentiment of two reviews',
+    request: compareRequest,
+    response: compareResponse,
+    errors: [400, 413, 422, 500]
+  },
+  extractFeatures: {
+    method: 'post',
+    path: '/extract-features',
+    summary: 'Run the preprocessing pipeline and return its features',
+    request: extractFeaturesRequest,
+    response: extractFeaturesResponse,
+    errors: [400, 413, 422, 500]
+  },
+  keyphrases: {
+    method: 'post',
+    path: '/keyphrases',
+    summary: 'Extract keyphrases per review and rank them across the batch',
+    request: keyphrasesRequest,
+    response: keyphrasesResponse,
+    errors: [400, 413, 500]
+  },
+  sentimentDistribution: {
+    method: 'post',
+    path: '/sentiment-distribution',
+    summary: 'Count lexicon labels across a batch of reviews',
+    request: distributionRequest,
+    response: distributionResponse,
+    errors: [400, 413, 422, 500]
+  },
+  createJob: {
+    method: 'post',
+    path: '/jobs',
+    summary: 'Queue a batch analysis job over reviews or a dataset file',
+    status: 202,
+    request: createJobRequest,
+    response: job,
+    errors: [400, 413, 500]
+  },
+  getJob: {
+    method: 'get',
+    path: '/jobs/{id}',
+    summary: 'Report job status, progress and partial aggregates',
+    params: jobParams,
+    response: job,
+    errors: [404, 500]
+  },
+  getJobResults: {
+    method: 'get',
+    path: '/jobs/{id}/results',
+    summary: 'Page through the per-review results written so far',
+    params: jobParams,
+    query: jobResultsQuery,
+    response: jobResultsResponse,
+    errors: [400, 404, 500]
+  },
+  cancelJob: {
+    method: 'delete',
+    path: '/jobs/{id}',
+    summary: 'Cancel a queued or running job, keeping the results written so far',
+    params: jobParams,
+    response: job,
+    errors: [404, 409, 500]
+  },
+  modelInfo: {
+    method: 'get',
+    path: '/model-info',
+    summary: 'Describe the loaded models, ensemble and calibration',
+    response: modelInfoResponse,
+    errors: [500]
+  },
+  health: {
+    method: 'get',
+    path: '/health',
+    summary: 'Liveness check',
+    response: healthResponse,
+    errors: [500]
+  },
+  openApi: {
+    method: 'get',
+    path: '/openapi.json',
+    summary: 'This OpenAPI document',
+    response: openApiResponse,
+    errors: [500]
+  }
+} as const satisfies Record<string, RouteDefinition>;
+
+export type ApiOperation = keyof typeof API_ROUTES;
+
+type RoutePart<O extends ApiOperation, K extends string> =
+  (typeof API_ROUTES)[O] extends { [key in K]: infer S } ? FromSchema<S> : never;
+
+export type ApiRequestBody<O extends ApiOperation> = RoutePart<O, 'request'>;
+
+export type ApiParams<O extends ApiOperation> = RoutePart<O, 'params'>;
+
+export type ApiQuery<O extends ApiOperation> = RoutePart<O, 'query'>;
+
+export type ApiResponseBody<O extends ApiOperation> = FromSchema<(typeof API_ROUTES)[O]['response']>;
+
+export type ApiErrorResponse = FromSchema<typeof errorEnvelope>;
+
+export type JobRecord = FromSchema<typeof job>;
+
+export type JobStatus = JobRecord['status'];
+
+export type JobOptions = JobRecord['options'];
+
+export type ReviewResult = FromSchema<typeof reviewResult>;
+
+// Typed endpoint map for API clients: method, path, inputs and response per operation
+export type ApiEndpoints = {
+  [O in ApiOperation]: {
+    method: (typeof API_ROUTES)[O]['method'];
+    path: (typeof API_ROUTES)[O]['path'];
+    params: ApiParams<O>;
+    query: ApiQuery<O>;
+    request: ApiRequestBody<O>;
+    response: ApiResponseBody<O>;
+  };
+};
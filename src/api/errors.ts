@@ -0,0 +1,58 @@
+import { SchemaIssue } from './schema';
+
+export type ApiErrorCode =
+  | 'INVALID_REQUEST'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'UNSUPPORTED_MEDIA_TYPE'
+  | 'UNSUPPORTED_LANGUAGE'
+  | 'INTERNAL_ERROR'
+  | 'INVALID_RESPONSE';
+
+export const API_ERROR_CODES: ApiErrorCode[] = [
+  'INVALID_REQUEST',
+  'NOT_FOUND',
+  'CONFLICT',
+  'PAYLOAD_TOO_LARGE',
+  'UNSUPPORTED_MEDIA_TYPE',
+  'UNSUPPORTED_LANGUAGE',
+  'INTERNAL_ERROR',
+  'INVALID_RESPONSE'
+];
+
+export interface ApiErrorBody {
+  code: ApiErrorCode;
+  message: string;
+  details: Record<string, unknown> | null;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly details: Record<string, unknown> | null;
+
+  constructor(status: number, code: ApiErrorCode, message: string, details: Record<string, unknown> | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+
+  toJSON(): ApiErrorBody {
+    return { code: this.code, message: this.message, details: this.details };
+  }
+}
+
+export const invalidRequest = (issues: SchemaIssue[]) =>
+  new ApiError(400, 'INVALID_REQUEST', `Invalid input: ${issues[0].path} ${issues[0].message}`, { issues });
+
+export const invalidResponse = (issues: SchemaIssue[]) =>
+  new ApiError(500, 'INVALID_RESPONSE', 'Response does not match the API contract', { issues });
+
+// Anything that is not an ApiError is an unexpected failure of the handler
+export const toApiError = (error: unknown, failure: string): ApiError =>
+  error instanceof ApiError
+    ? error
+    : new ApiError(500, 'INTERNAL_ERROR', failure, { reason: error instanceof Error ? error.message : 'Unknown error' });
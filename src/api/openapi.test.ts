@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { API_ROUTES } from './contract';
+import { buildOpenApiDocument } from './openapi';
+
+const references = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.flatMap(references);
+  if (typeof value !== 'object' || value === null) return [];
+  return Object.entries(value).flatMap(([key, item]) => (key === '$ref' ? [item as string] : references(item)));
+};
+
+describe('buildOpenApiDocument', () => {
+  const document = buildOpenApiDocument();
+
+  it('describes every route under the base path', () => {
+    expect(document.servers).toEqual([{ url: '/api' }]);
+    expect(Object.keys(document.paths)).toEqual([...new Set(Object.values(API_ROUTES).map(route => route.path))]);
+    expect(document.paths['/batch-analyze'].post).toMatchObject({ operationId: 'batchAnalyze' });
+  });
+
+  it('answers every declared error status with the error envelope', () => {
+    const responses = (document.paths['/analyze'].post as { responses: Record<string, unknown> }).responses;
+
+    expect(Object.keys(responses)).toEqual(['200', '400', '413', '422', '500']);
+    expect(responses[422]).toMatchObject({
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorEnvelope' } } }
+    });
+  });
+
+  it('only references schemas it defines', () => {
+    const defined = Object.keys(document.components.schemas).map(name => `#/components/schemas/${name}`);
+    expect(defined).toEqual(expect.arrayContaining(references(document)));
+  });
+});
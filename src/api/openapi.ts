@@ -0,0 +1,109 @@
+import { Schema, nullableBase } from './schema';
+import { API_ROUTES, API_SCHEMAS, API_VERSION, RouteDefinition } from './contract';
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  servers: { url: string }[];
+  paths: Record<string, Record<string, unknown>>;
+  components: { schemas: Record<string, unknown> };
+}
+
+const STATUS_DESCRIPTIONS: Record<number, string> = {
+  400: 'The request body or query does not match the schema',
+  404: 'No job with this id',
+  409: 'The job has already finished',
+  413: 'The request body exceeds the configured size limit',
+  415: 'The request body is not sent as application/x-ndjson',
+  422: 'No supported analyzer for the detected language, or the language could not be detected reliably',
+  500: 'The request failed or its response broke the contract'
+};
+
+const COMPONENT_NAMES = new Map(Object.entries(API_SCHEMAS).map(([name, schema]) => [schema, name]));
+
+const reference = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const toOpenApiSchema = (schema: Schema, component?: Schema): unknown => {
+  const name = COMPONENT_NAMES.get(schema);
+  if (name && schema !== component) return reference(name);
+
+  const base = nullableBase(schema);
+  const baseName = base && COMPONENT_NAMES.get(base);
+  if (baseName) return { nullable: true, allOf: [reference(baseName)] };
+
+  const converted: Record<string, unknown> = { ...schema };
+  if (schema.type === 'array') {
+    converted.items = toOpenApiSchema(schema.items);
+  }
+  if (schema.type === 'object') {
+    if (schema.properties) {
+      converted.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([property, value]) => [property, toOpenApiSchema(value)])
+      );
+    }
+    if (typeof schema.additionalProperties === 'object') {
+      converted.additionalProperties = toOpenApiSchema(schema.additionalProperties);
+    }
+  }
+
+  return converted;
+};
+
+const content = (schema: unknown, mediaTypes: readonly string[] = ['application/json']) =>
+  Object.fromEntries(mediaTypes.map(mediaType => [mediaType, { schema }]));
+
+const toParameters = (location: 'path' | 'query', schema: Schema | undefined) => {
+  if (!schema || schema.type !== 'object' || !schema.properties) return [];
+
+  return Object.entries(schema.properties).map(([name, property]) => ({
+    name,
+    in: location,
+    required: location === 'path' || Boolean(schema.required?.includes(name)),
+    schema: toOpenApiSchema(property)
+  }));
+};
+
+const toOperation = (operationId: string, route: RouteDefinition) => ({
+  operationId,
+  summary: route.summary,
+  ...(route.params || route.query
+    ? { parameters: [...toParameters('path', route.params), ...toParameters('query', route.query)] }
+    : {}),
+  ...(route.request
+    ? {
+      requestBody: {
+        required: true,
+        content: content(toOpenApiSchema(route.request), route.media && [route.media.request])
+      }
+    }
+    : {}),
+  responses: {
+    [route.status ?? 200]: {
+      description: route.status === 202 ? 'Accepted' : 'OK',
+      content: content(toOpenApiSchema(route.response), route.media?.response)
+    },
+    ...Object.fromEntries(route.errors.map(status => [
+      status,
+      { description: STATUS_DESCRIPTIONS[status], content: content(reference('ErrorEnvelope')) }
+    ]))
+  }
+});
+
+export const buildOpenApiDocument = (basePath = '/api'): OpenApiDocument => ({
+  openapi: '3.0.3',
+  info: {
+    title: 'Hybrid Sentiment Analysis API',
+    version: API_VERSION,
+    description: 'Lexicon, BERT and trained-classifier sentiment analysis of product reviews'
+  },
+  servers: [{ url: basePath }],
+  paths: Object.entries(API_ROUTES).reduce<OpenApiDocument['paths']>((paths, [operationId, route]) => {
+    paths[route.path] = { ...paths[route.path], [route.method]: toOperation(operationId, route) };
+    return paths;
+  }, {}),
+  components: {
+    schemas: Object.fromEntries(
+      Object.entries(API_SCHEMAS).map(([name, schema]) => [name, toOpenApiSchema(schema, schema)])
+    )
+  }
+});
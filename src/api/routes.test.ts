@@ -0,0 +1,102 @@
+import express from 'express';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MAX_STREAM_LINE_LENGTH } from './contract';
+import { createRouter } from './routes';
+
+const SPANISH = 'No es bueno, se rompió después de una semana.';
+const GERMAN = 'Leider nach zwei Tagen defekt';
+const ITALIAN = 'Prodotto pessimo, si è rotto dopo due giorni.';
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.use(createRouter({ validateResponses: true }));
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+const post = async (path: string, body: unknown) => {
+  const res = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  return { status: res.status, body: await res.json() };
+};
+
+describe('language routing', () => {
+  it('scores each compared review with its detected language', async () => {
+    const { status, body } = await post('/compare', { text1: SPANISH, text2: 'Great product, works well.' });
+
+    expect(status).toBe(200);
+    expect(body.text1.basic.language).toBe('es');
+    expect(body.text1.basic.label).toBe('Negative');
+    expect(body.text2.basic.language).toBe('en');
+  });
+
+  it('leaves the BERT side empty for a compared review that is not in English', async () => {
+    const { status, body } = await post('/compare', { text1: SPANISH, text2: 'Great product, works well.' });
+
+    expect(status).toBe(200);
+    expect(body.text1.bert).toBeNull();
+    expect(body.text2.bert.predicted_class).toBe('positive');
+  });
+
+  it('rejects a comparison with a review no analyzer supports', async () => {
+    const { status, body } = await post('/compare', { text1: ITALIAN, text2: SPANISH });
+
+    expect(status).toBe(422);
+    expect(body.code).toBe('UNSUPPORTED_LANGUAGE');
+  });
+
+  it('lets a requested language override detection', async () => {
+    const { status, body } = await post('/compare', { text1: ITALIAN, text2: SPANISH, language: 'es' });
+
+    expect(status).toBe(200);
+    expect(body.text1.basic.language).toBe('es');
+  });
+
+  it('runs feature extraction with the detected language', async () => {
+    expect((await post('/extract-features', { text: GERMAN })).status).toBe(200);
+    expect((await post('/extract-features', { text: ITALIAN })).status).toBe(422);
+  });
+
+  it('leaves unroutable reviews out of the distribution', async () => {
+    const { status, body } = await post('/sentiment-distribution', { reviews: [SPANISH, GERMAN, ITALIAN] });
+
+    expect(status).toBe(200);
+    expect(body.total_reviews).toBe(3);
+    expect(body.unsupported.map((review: { index: number }) => review.index)).toEqual([2]);
+    expect(body.distribution.negative).toBe(2);
+  });
+
+  it('rejects a distribution where no review can be routed', async () => {
+    expect((await post('/sentiment-distribution', { reviews: [ITALIAN] })).status).toBe(422);
+  });
+});
+
+describe('batch analyze stream', () => {
+  it('reports a complete line over the length limit and keeps reading', async () => {
+    const tooLong = JSON.stringify('a'.repeat(MAX_STREAM_LINE_LENGTH));
+    const res = await fetch(`${baseUrl}/batch-analyze/stream?format=ndjson`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-ndjson' },
+      body: `${tooLong}\n${JSON.stringify('Great product, works well.')}\n`
+    });
+    const events = (await res.text()).trim().split('\n').map(line => JSON.parse(line));
+
+    expect(events[0]).toMatchObject({ type: 'error', error: { line: 1, code: 'PAYLOAD_TOO_LARGE' } });
+    expect(events[1].type).toBe('result');
+    expect(events[2].aggregate).toMatchObject({ received: 1, errors: 1 });
+  });
+});
@@ -1,223 +1,840 @@
 import express, { Request, Response } from 'express';
-import { analyzeSentiment, batchAnalyze, aggregateResults } from '../utils/sentimentAnalyzer';
-import { advancedPreprocess } from '../utils/advancedPreprocessing';
-import { createBertModel, analyzeWithBert } from '../utils/bertModel';
-
-export const createRouter = () => {
-  const router = express.Router();
-  const model = createBertModel();
+import { existsSync } from 'node:fs';
+import { isAbsolute, relative, resolve } from 'node:path';
+import { setImmediate } from 'node:timers/promises';
+import {
+  analyzeSentiment,
+  analyzePreprocessed,
+  aggregateResults,
+  mergeAggregates,
+  SentimentResult,
+  SUPPORTED_LANGUAGES
+} from '../utils/sentimentAnalyzer';
+import { advancedPreprocess, PreprocessingOptions } from '../utils/advancedPreprocessing';
+import { analyzeWithBert } from '../utils/bertModel';
+import {
+  loadBertModel,
+  loadReviewClassifier,
+  loadCalibration,
+  readModelConfigFromEnv,
+  readEnsembleConfigFromEnv
+} from '../utils/modelLoader';
+import { aggregateAspects } from '../utils/aspectExtractor';
+import {
+  reconcilePredictions,
+  aggregateVerdicts,
+  EnsembleOptions,
+  EnsembleVerdict,
+  ENSEMBLE_STRATEGIES
+} from '../utils/ensemble';
+import { describeCalibration } from '../utils/calibration';
+import {
+  detectLanguage,
+  languageName,
+  routeLanguage,
+  LanguageDetection,
+  UNDETERMINED_LANGUAGE
+} from '../utils/languageDetector';
+import { DEFAULT_LANGUAGE } from '../utils/languageResources';
+import { aggregateEmotions } from '../utils/emotionClassifier';
+import { isFactual } from '../utils/subjectivityAnalyzer';
+import { extractKeyphrases, rankKeyphrases, KEYPHRASE_LANGUAGES } from '../utils/keyphraseExtractor';
+import { redactPii, RedactionOptions, RedactionReport, DEFAULT_REDACTION_OPTIONS } from '../utils/piiRedactor';
+import { ingestReviews, IngestionSummary } from '../utils/reviewIngestion';
+import { Review, mapReviewRecord, reviewFromText } from '../utils/reviewRecord';
+import { JobQueue, isFinished } from '../server/jobQueue';
+import { Schema, coerceQuery, validateSchema } from './schema';
+import { ApiError, invalidRequest, invalidResponse, toApiError } from './errors';
+import {
+  API_ROUTES,
+  API_VERSION,
+  ApiOperation,
+  ApiParams,
+  ApiQuery,
+  ApiRequestBody,
+  ApiResponseBody,
+  JobRecord,
+  ReviewResult,
+  RouteDefinition,
+  DEFAULT_KEYPHRASE_LIMIT,
+  DEFAULT_JOB_RESULTS_LIMIT,
+  MAX_STREAM_LINE_LENGTH
+} from './contract';
+import { buildOpenApiDocument } from './openapi';
+
+export interface RouterOptions {
+  // Checks every response against the contract; on by default outside production
+  validateResponses?: boolean;
+  // Enables the /jobs routes
+  jobs?: JobQueue;
+  // Directory that file-based jobs may read from
+  jobsInputDir?: string | null;
+}
 
-  router.post('/analyze', (req: Request, res: Response) => {
-    try {
-      const { text, useAdvanced = false } = req.body;
+interface AnalysisSettings {
+  useAdvanced: boolean;
+  ensemble: EnsembleOptions;
+  preprocessing: Partial<PreprocessingOptions>;
+}
 
-      if (!text || typeof text !== 'string') {
-        return res.status(400).json({
-          error: 'Invalid input: text field is required and must be a string'
-        });
-      }
+interface RouteInput<O extends ApiOperation> {
+  params: ApiParams<O>;
+  query: ApiQuery<O>;
+}
 
-      const basicAnalysis = analyzeSentiment(text);
+// Streamed reviews analyzed between yields to the event loop
+const STREAM_YIELD_INTERVAL = 25;
 
-      let preprocessed = null;
-      if (useAdvanced) {
-        preprocessed = advancedPreprocess(text);
+export const createRouter = (options: RouterOptions = {}) => {
+  const router = express.Router();
+  const validateResponses = options.validateResponses ?? process.env.NODE_ENV !== 'production';
+  const calibration = loadCalibration();
+  const model = loadBertModel({ ...readModelConfigFromEnv(), calibration: calibration?.analyzers.bert });
+  const classifier = loadReviewClassifier(undefined, calibration?.analyzers.classifier);
+  const ensembleConfig = { ...readEnsembleConfigFromEnv(), calibration: calibration?.analyzers.ensemble };
+  const lexiconOptions = { calibration: calibration?.analyzers.lexicon };
+  const openApiDocument = buildOpenApiDocument();
+
+  const handle = <O extends ApiOperation>(
+    operation: O,
+    failure: string,
+    handler: (body: ApiRequestBody<O>, input: RouteInput<O>) => ApiResponseBody<O> | Promise<ApiResponseBody<O>>
+  ) => {
+    const route: RouteDefinition = API_ROUTES[operation];
+
+    router[route.method](route.path.replace(/\{(\w+)\}/g, ':$1'), async (req: Request, res: Response) => {
+      try {
+        const query = readQuery(route, req);
+        for (const [location, schema, value] of [
+          ['params', route.params, req.params],
+          ['body', route.request, req.body]
+        ] as const) {
+          if (!schema) continue;
+          const issues = validateSchema(schema, value, location);
+          if (issues.length > 0) throw invalidRequest(issues);
+        }
+
+        const body = await handler(req.body, { params: req.params, query } as RouteInput<O>);
+
+        if (validateResponses) {
+          const issues = validateSchema(route.response, body, 'response');
+          if (issues.length > 0) throw invalidResponse(issues);
+        }
+
+        res.status(route.status ?? 200).json(body);
+      } catch (error) {
+        const apiError = toApiError(error, failure);
+        res.status(apiError.status).json(apiError);
       }
+    });
+  };
 
-      const bertPrediction = analyzeWithBert(text, model);
+  // One review through every analyzer available for its language
+  // A star rating, when the review has one, helps tell sarcasm from sincere praise
+  const analyzeText = (text: string, language: string, settings: AnalysisSettings, rating?: number) => {
+    const pipeline = advancedPreprocess(text, settings.preprocessing, language);
+    const basicAnalysis = analyzePreprocessed(text, pipeline, {
+      ...lexiconOptions,
+      preprocessing: settings.preprocessing,
+      language,
+      rating
+    });
+    const preprocessed = settings.useAdvanced ? pipeline : null;
+    const bertPrediction = language === DEFAULT_LANGUAGE ? analyzeWithBert(text, model) : null;
+    const classifierPrediction = classifier && language === DEFAULT_LANGUAGE ? classifier.predict(text) : null;
+    const verdict = reconcilePredictions(
+      { lexicon: basicAnalysis, bert: bertPrediction, classifier: classifierPrediction },
+      settings.ensemble
+    );
+
+    return { basicAnalysis, preprocessed, bertPrediction, classifierPrediction, verdict };
+  };
 
-      const result = {
-        basic_analysis: basicAnalysis,
-        bert_prediction: bertPrediction,
-        advanced_preprocessing: preprocessed,
-        timestamp: new Date().toISOString(),
-        text_length: text.length
+  // Reviews in a language no analyzer supports get a result without analyses instead of failing the batch
+  const analyzeRoutedReview = (
+    { text, ...metadata }: Review,
+    index: number,
+    requestedLanguage: string | null,
+    settings: AnalysisSettings
+  ): ReviewResult => {
+    const { detection, language } = routeReview(text, requestedLanguage);
+    if (!language) {
+      return {
+        index,
+        review: metadata,
+        language: { ...detection, analyzer: null },
+        verdict: null,
+        basic_analysis: null,
+        bert_prediction: null,
+        classifier_prediction: null,
+        advanced_preprocessing: null,
+        factual: null,
+        keyphrases: null
       };
-
-      res.json(result);
-    } catch (error) {
-      res.status(500).json({
-        error: 'Analysis failed',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      });
     }
-  });
 
-  router.post('/batch-analyze', (req: Request, res: Response) => {
-    try {
-      const { reviews, useAdvanced = false } = req.body;
+    const analysis = analyzeText(text, language, settings, metadata.rating ?? undefined);
+    return {
+      index,
+      review: metadata,
+      language: { ...detection, analyzer: language },
+      verdict: analysis.verdict,
+      basic_analysis: analysis.basicAnalysis,
+      bert_prediction: analysis.bertPrediction,
+      classifier_prediction: analysis.classifierPrediction,
+      advanced_preprocessing: analysis.preprocessed,
+      factual: isFactual(analysis.basicAnalysis.subjectivity),
+      keyphrases: KEYPHRASE_LANGUAGES.includes(language) ? extractKeyphrases(text, language) : null
+    };
+  };
 
-      if (!Array.isArray(reviews) || reviews.length === 0) {
-        return res.status(400).json({
-          error: 'Invalid input: reviews must be a non-empty array'
-        });
-      }
+  handle('analyze', 'Analysis failed', body => {
+    const { text: input, useAdvanced = false, ensemble, preprocessing, language: requestedLanguage, redaction } = body;
 
-      if (!reviews.every(r => typeof r === 'string')) {
-        return res.status(400).json({
-          error: 'Invalid input: all reviews must be strings'
-        });
-      }
+    const ensembleOptions = resolveEnsembleOptions(ensemble, ensembleConfig);
+    const redactionOptions = resolveRedactionOptions(redaction);
 
-      const basicAnalyses = batchAnalyze(reviews);
-      const aggregated = aggregateResults(basicAnalyses);
+    const { text, report } = applyRedaction(input, redactionOptions);
 
-      let advancedAnalyses = null;
-      if (useAdvanced) {
-        advancedAnalyses = reviews.map(review => advancedPreprocess(review));
-      }
+    const { detection, language } = requireLanguage(text, requestedLanguage);
 
-      const bertAnalyses = reviews.map(review => analyzeWithBert(review, model));
+    const analysis = analyzeText(text, language, { useAdvanced, ensemble: ensembleOptions, preprocessing: preprocessing ?? {} });
 
-      const result = {
-        count: reviews.length,
-        basic_aggregate: aggregated,
-        basic_individual: basicAnalyses,
-        bert_predictions: bertAnalyses,
-        advanced_preprocessing: advancedAnalyses,
-        timestamp: new Date().toISOString()
-      };
+    return {
+      language: { ...detection, analyzer: language },
+      verdict: analysis.verdict,
+      basic_analysis: analysis.basicAnalysis,
+      bert_prediction: analysis.bertPrediction,
+      classifier_prediction: analysis.classifierPrediction,
+      aspects: analysis.basicAnalysis.aspects,
+      sentences: analysis.basicAnalysis.sentences,
+      advanced_preprocessing: analysis.preprocessed,
+      redaction: redactionOptions.report ? report : null,
+      timestamp: new Date().toISOString(),
+      text_length: text.length
+    };
+  });
 
-      res.json(result);
-    } catch (error) {
-      res.status(500).json({
-        error: 'Batch analysis failed',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      });
+  handle('batchAnalyze', 'Batch analysis failed', body => {
+    const {
+      reviews: inputs,
+      useAdvanced = false,
+      ensemble,
+      preprocessing,
+      language: requestedLanguage,
+      redaction,
+      excludeFactual = false
+    } = body;
+
+    const ensembleOptions = resolveEnsembleOptions(ensemble, ensembleConfig);
+    const preprocessingOptions = preprocessing ?? {};
+    const redactionOptions = resolveRedactionOptions(redaction);
+
+    const redactions = inputs.map(input => applyRedaction(input, redactionOptions));
+    const reviews = redactions.map(r => r.text);
+
+    const routings = reviews.map(review => routeReview(review, requestedLanguage));
+    const detections: LanguageDetection[] = routings.map(routing => routing.detection);
+    const routed: (string | null)[] = routings.map(routing => routing.language);
+    const unsupported = unsupportedReviews(routings);
+
+    if (unsupported.length === reviews.length) {
+      throw unsupportedBatchError(unsupported);
     }
+
+    const indices = reviews.map((_, idx) => idx).filter(idx => routed[idx]);
+    const supportedReviews: string[] = indices.map(idx => reviews[idx]);
+    const languages = indices.map(idx => routed[idx] as string);
+
+    const analyses = supportedReviews.map((review, idx) => analyzeText(
+      review,
+      languages[idx],
+      { useAdvanced, ensemble: ensembleOptions, preprocessing: preprocessingOptions }
+    ));
+    const basicAnalyses = analyses.map(analysis => analysis.basicAnalysis);
+    const advancedAnalyses = useAdvanced
+      ? analyses.flatMap(analysis => (analysis.preprocessed ? [analysis.preprocessed] : []))
+      : null;
+    const bertAnalyses = analyses.map(analysis => analysis.bertPrediction);
+    const classifierAnalyses = classifier ? analyses.map(analysis => analysis.classifierPrediction) : null;
+    const verdicts = analyses.map(analysis => analysis.verdict);
+
+    // Purely factual reviews (specs, delivery notes) can be left out of every aggregate
+    const factual = basicAnalyses.map(analysis => isFactual(analysis.subjectivity));
+    const included = basicAnalyses.map((_, idx) => idx).filter(idx => !excludeFactual || !factual[idx]);
+    const pick = <T>(items: T[]): T[] => included.map(idx => items[idx]);
+    const aggregatedAnalyses = pick(basicAnalyses);
+
+    return {
+      count: supportedReviews.length,
+      received: reviews.length,
+      analyzed_indices: indices,
+      factual_indices: indices.filter((_, idx) => factual[idx]),
+      aggregated_count: included.length,
+      languages: indices.map((idx, position) => ({ ...detections[idx], analyzer: languages[position] })),
+      unsupported,
+      language_aggregate: aggregateByLanguage(pick(languages), aggregatedAnalyses, pick(verdicts)),
+      verdict_aggregate: aggregateVerdicts(pick(verdicts)),
+      verdicts,
+      basic_aggregate: aggregateResults(aggregatedAnalyses),
+      basic_individual: basicAnalyses,
+      bert_predictions: bertAnalyses,
+      classifier_predictions: classifierAnalyses,
+      aspect_aggregate: aggregateAspects(aggregatedAnalyses.map(a => a.aspects)),
+      emotion_aggregate: aggregateEmotions(aggregatedAnalyses.map(a => a.emotions)),
+      advanced_preprocessing: advancedAnalyses,
+      redaction: redactionOptions.report ? redactions.map(r => r.report) : null,
+      timestamp: new Date().toISOString()
+    };
   });
 
-  router.post('/compare', (req: Request, res: Response) => {
-    try {
-      const { text1, text2 } = req.body;
+  // Streams instead of answering with one document, so it is registered without handle()
+  router.post(API_ROUTES.batchAnalyzeStream.path, async (req: Request, res: Response) => {
+    const route: RouteDefinition = API_ROUTES.batchAnalyzeStream;
+    const failure = 'Streaming analysis failed';
 
-      if (!text1 || !text2) {
-        return res.status(400).json({
-          error: 'Both text1 and text2 are required'
-        });
+    let query: ApiQuery<'batchAnalyzeStream'>;
+    try {
+      if (!req.is('application/x-ndjson')) {
+        throw new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Unsupported media type: send reviews as application/x-ndjson');
       }
+      query = readQuery(route, req) as ApiQuery<'batchAnalyzeStream'>;
+    } catch (error) {
+      const apiError = toApiError(error, failure);
+      res.status(apiError.status).json(apiError);
+      return;
+    }
 
-      const analysis1 = analyzeSentiment(text1);
-      const analysis2 = analyzeSentiment(text2);
+    const { useAdvanced = false, language = null, redact = true, excludeFactual = false } = query;
+    const format = query.format ?? (req.accepts(['application/x-ndjson', 'text/event-stream']) === 'text/event-stream' ? 'sse' : 'ndjson');
+    const settings: AnalysisSettings = { useAdvanced, ensemble: ensembleConfig, preprocessing: {} };
+    const redactionOptions = resolveRedactionOptions({ enabled: redact });
 
-      const bert1 = analyzeWithBert(text1, model);
-      const bert2 = analyzeWithBert(text2, model);
+    res.status(200);
+    res.setHeader('Content-Type', format === 'sse' ? 'text/event-stream' : 'application/x-ndjson');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.flushHeaders();
 
-      const comparison = {
-        text1: {
-          basic: analysis1,
-          bert: bert1
-        },
-        text2: {
-          basic: analysis2,
-          bert: bert2
-        },
-        sentiment_difference: analysis1.score - analysis2.score,
-        similarity_score: calculateSimilarity(text1, text2),
-        timestamp: new Date().toISOString()
-      };
+    let disconnected = false;
+    res.on('close', () => {
+      disconnected = !res.writableFinished;
+    });
 
-      res.json(comparison);
-    } catch (error) {
-      res.status(500).json({
-        error: 'Comparison failed',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      });
-    }
-  });
+    const send = async (event: ApiResponseBody<'batchAnalyzeStream'>) => {
+      if (validateResponses) {
+        const issues = validateSchema(route.response, event, 'response');
+        if (issues.length > 0) throw invalidResponse(issues);
+      }
 
-  router.post('/extract-features', (req: Request, res: Response) => {
-    try {
-      const { text } = req.body;
+      const data = JSON.stringify(event);
+      // No further reviews are analyzed until a slow client has caught up
+      if (!res.write(format === 'sse' ? `event: ${event.type}\ndata: ${data}\n\n` : `${data}\n`)) {
+        await drained(res);
+      }
+    };
+
+    let lineNumber = 0;
+    let received = 0;
+    let analyzed = 0;
+    let errors = 0;
+    let aggregatedCount = 0;
+    let basicAggregate = aggregateResults([]);
+    let verdictAggregate = aggregateVerdicts([]);
+    let redactionReport = mergeRedactionReports([]);
+
+    const processLine = async (line: string) => {
+      lineNumber++;
+      if (!line.trim()) return;
+
+      // A complete line can still be too long when a single chunk carries all of it
+      if (line.length > MAX_STREAM_LINE_LENGTH) {
+        errors++;
+        const message = `Input line ${lineNumber} exceeds ${MAX_STREAM_LINE_LENGTH} characters`;
+        await send({ type: 'error', error: { line: lineNumber, code: 'PAYLOAD_TOO_LARGE', message } });
+        return;
+      }
 
-      if (!text) {
-        return res.status(400).json({
-          error: 'Text field is required'
-        });
+      let value: unknown;
+      try {
+        value = JSON.parse(line);
+      } catch {
+        value = undefined;
+      }
+      const record = typeof value === 'string' ? { text: value } : value;
+      const issues = value === undefined
+        ? [{ path: `line[${lineNumber}]`, message: 'is not valid JSON' }]
+        : validateSchema(route.request as Schema, record, `line[${lineNumber}]`);
+      const mapped = issues.length === 0 ? mapReviewRecord(record as Record<string, unknown>) : null;
+      if (!mapped || 'reason' in mapped) {
+        errors++;
+        const message = mapped ? `Invalid input: line[${lineNumber}] ${mapped.reason}` : invalidRequest(issues).message;
+        await send({ type: 'error', error: { line: lineNumber, code: 'INVALID_REQUEST', message } });
+        return;
       }
 
-      const preprocessed = advancedPreprocess(text);
+      const { review, report } = redactReview(mapped.review, redactionOptions);
+      redactionReport = mergeRedactionReports([redactionReport, report]);
+
+      const result = analyzeRoutedReview(review, received++, language, settings);
+      if (result.basic_analysis && result.verdict) {
+        analyzed++;
+        // Purely factual reviews can be left out of the aggregate
+        if (!excludeFactual || !result.factual) {
+          aggregatedCount++;
+          basicAggregate = mergeAggregates(basicAggregate, aggregateResults([result.basic_analysis]));
+          verdictAggregate = mergeAggregates(verdictAggregate, aggregateVerdicts([result.verdict]));
+        }
+      }
+      await send({ type: 'result', result });
 
-      const features = {
-        text_analysis: preprocessed.features,
-        metadata: preprocessed.metadata,
-        tokens_count: preprocessed.tokens.length,
-        lemmatized_count: preprocessed.lemmatized.length,
-        unique_tokens: new Set(preprocessed.tokens).size,
-        tokens: preprocessed.tokens.slice(0, 50),
-        timestamp: new Date().toISOString()
-      };
+      // Lets a disconnect surface between reviews of one large chunk
+      if (received % STREAM_YIELD_INTERVAL === 0) await setImmediate();
+    };
+
+    try {
+      req.setEncoding('utf8');
+      let buffer = '';
+      for await (const chunk of req) {
+        const lines = `${buffer}${chunk}`.split('\n');
+        buffer = lines.pop() ?? '';
+        if (buffer.length > MAX_STREAM_LINE_LENGTH) {
+          throw new ApiError(413, 'PAYLOAD_TOO_LARGE', `Input line ${lineNumber + lines.length + 1} exceeds ${MAX_STREAM_LINE_LENGTH} characters`);
+        }
+
+        for (const line of lines) {
+          if (disconnected) break;
+          await processLine(line);
+        }
+        if (disconnected) break;
+      }
 
-      res.json(features);
+      if (!disconnected) {
+        await processLine(buffer);
+        await send({
+          type: 'aggregate',
+          aggregate: {
+            received,
+            analyzed,
+            skipped: received - analyzed,
+            errors,
+            aggregated_count: aggregatedCount,
+            basic_aggregate: basicAggregate,
+            verdict_aggregate: verdictAggregate,
+            redaction: redact ? redactionReport : null,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
     } catch (error) {
-      res.status(500).json({
-        error: 'Feature extraction failed',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      });
+      // Headers are already sent, so failures become the last event of the stream
+      if (!disconnected) {
+        const apiError = toApiError(error, failure);
+        const data = JSON.stringify({ type: 'error', error: { line: null, code: apiError.code, message: apiError.message } });
+        res.write(format === 'sse' ? `event: error\ndata: ${data}\n\n` : `${data}\n`);
+      }
     }
+    res.end();
   });
 
-  router.post('/sentiment-distribution', (req: Request, res: Response) => {
-    try {
-      const { reviews } = req.body;
+  handle('compare', 'Comparison failed', ({ text1: input1, text2: input2, language: requestedLanguage, redaction }) => {
+    const redactionOptions = resolveRedactionOptions(redaction);
+
+    const { text: text1, report: report1 } = applyRedaction(input1, redactionOptions);
+    const { text: text2, report: report2 } = applyRedaction(input2, redactionOptions);
+
+    const { language: language1 } = requireLanguage(text1, requestedLanguage);
+    const { language: language2 } = requireLanguage(text2, requestedLanguage);
+    const analysis1 = analyzeSentiment(text1, { ...lexiconOptions, language: language1 });
+    const analysis2 = analyzeSentiment(text2, { ...lexiconOptions, language: language2 });
+
+    const bert1 = language1 === DEFAULT_LANGUAGE ? analyzeWithBert(text1, model) : null;
+    const bert2 = language2 === DEFAULT_LANGUAGE ? analyzeWithBert(text2, model) : null;
+
+    return {
+      text1: {
+        basic: analysis1,
+        bert: bert1
+      },
+      text2: {
+        basic: analysis2,
+        bert: bert2
+      },
+      sentiment_difference: analysis1.score - analysis2.score,
+      similarity_score: calculateSimilarity(text1, text2),
+      redaction: redactionOptions.report ? { text1: report1, text2: report2 } : null,
+      timestamp: new Date().toISOString()
+    };
+  });
 
-      if (!Array.isArray(reviews) || reviews.length === 0) {
-        return res.status(400).json({
-          error: 'Reviews array is required and must not be empty'
-        });
-      }
+  handle('extractFeatures', 'Feature extraction failed', ({ text: input, preprocessing, language: requestedLanguage, redaction }) => {
+    const redactionOptions = resolveRedactionOptions(redaction);
+
+    const { text, report } = applyRedaction(input, redactionOptions);
+
+    const { language } = requireLanguage(text, requestedLanguage);
+    const preprocessed = advancedPreprocess(text, preprocessing ?? {}, language);
+
+    return {
+      stages: preprocessed.stages,
+      text_analysis: preprocessed.features,
+      metadata: preprocessed.metadata,
+      tokens_count: preprocessed.tokens.length,
+      lemmatized_count: preprocessed.lemmatized.length,
+      unique_tokens: new Set(preprocessed.tokens).size,
+      unique_base_forms: new Set(preprocessed.stems ?? preprocessed.lemmatized).size,
+      tokens: preprocessed.tokens.slice(0, 50),
+      lemmas: preprocessed.lemmatized.slice(0, 50),
+      stems: preprocessed.stems ? preprocessed.stems.slice(0, 50) : null,
+      substitutions: preprocessed.substitutions,
+      base_form_frequencies: countFrequencies(preprocessed.stems ?? preprocessed.lemmatized).slice(0, 25),
+      redaction: redactionOptions.report ? report : null,
+      timestamp: new Date().toISOString()
+    };
+  });
 
-      const analyses = batchAnalyze(reviews);
-      const distribution = calculateDistribution(analyses);
+  handle('keyphrases', 'Keyphrase extraction failed', ({ reviews: inputs, limit = DEFAULT_KEYPHRASE_LIMIT, redaction }) => {
+    const redactionOptions = resolveRedactionOptions(redaction);
+
+    const redactions = inputs.map(input => applyRedaction(input, redactionOptions));
+    const languages = redactions.map(({ text }) => routeLanguage(detectLanguage(text), KEYPHRASE_LANGUAGES));
+    const perReview = redactions.map(({ text }, idx) => (languages[idx] ? extractKeyphrases(text, languages[idx] as string) : []));
+
+    return {
+      count: inputs.length,
+      keyphrases: rankKeyphrases(perReview, limit),
+      reviews: perReview.map((keyphrases, index) => ({ index, language: languages[index], keyphrases })),
+      supported_languages: KEYPHRASE_LANGUAGES,
+      redaction: redactionOptions.report ? redactions.map(r => r.report) : null,
+      timestamp: new Date().toISOString()
+    };
+  });
 
-      const result = {
-        distribution,
-        total_reviews: reviews.length,
-        timestamp: new Date().toISOString()
-      };
+  handle('sentimentDistribution', 'Distribution calculation failed', ({ reviews, language: requestedLanguage }) => {
+    const routings = reviews.map(review => routeReview(review, requestedLanguage));
+    const unsupported = unsupportedReviews(routings);
 
-      res.json(result);
-    } catch (error) {
-      res.status(500).json({
-        error: 'Distribution calculation failed',
-        message: error instanceof Error ? error.message : 'Unknown error'
-      });
+    if (unsupported.length === reviews.length) {
+      throw unsupportedBatchError(unsupported);
     }
+
+    const analyses = routings.flatMap(({ language }, idx) => (
+      language ? [analyzeSentiment(reviews[idx], { ...lexiconOptions, language })] : []
+    ));
+
+    return {
+      distribution: calculateDistribution(analyses),
+      total_reviews: reviews.length,
+      unsupported,
+      timestamp: new Date().toISOString()
+    };
   });
 
-  router.get('/model-info', (req: Request, res: Response) => {
-    res.json({
+  handle('modelInfo', 'Model info failed', () => {
+    const bertInfo = model.getModelInfo();
+
+    return {
       model_type: 'Hybrid Sentiment Analysis',
       components: [
         'Basic Sentiment Analyzer (Lexicon-based)',
         'Advanced Preprocessing Pipeline',
-        'BERT-inspired Neural Model',
-        'Feature Extraction Engine'
+        bertInfo.backend === 'transformer' ? 'BERT Sequence Classifier (local weights)' : 'BERT-inspired Neural Model',
+        'Feature Extraction Engine',
+        ...(classifier ? ['Trained Review Classifier (Logistic Regression)'] : []),
+        `Ensemble Verdict (${ensembleConfig.strategy})`
       ],
-      supported_languages: ['English'],
-      max_text_length: 512,
+      supported_languages: SUPPORTED_LANGUAGES.map(languageName),
+      max_text_length: bertInfo.max_length,
+      bert: bertInfo,
+      classifier: classifier ? classifier.getModelInfo() : null,
+      ensemble: {
+        strategy: ensembleConfig.strategy,
+        strategies: ENSEMBLE_STRATEGIES,
+        weights: ensembleConfig.weights,
+        stacker_loaded: Boolean(ensembleConfig.stacker)
+      },
+      calibration: calibration
+        ? {
+          fitted_at: calibration.fittedAt,
+          examples: calibration.examples,
+          analyzers: Object.fromEntries(
+            Object.entries(calibration.analyzers).map(([name, fitted]) => [name, describeCalibration(fitted)])
+          )
+        }
+        : null,
       classes: ['positive', 'negative', 'neutral'],
       features: {
         text_preprocessing: true,
         feature_extraction: true,
         bert_classification: true,
         batch_processing: true,
-        text_comparison: true
+        text_comparison: true,
+        keyphrase_extraction: true,
+        emotion_classification: true,
+        subjectivity_scoring: true,
+        openapi_contract: true,
+        batch_jobs: Boolean(options.jobs)
       }
-    });
+    };
   });
 
-  router.get('/health', (req: Request, res: Response) => {
-    res.json({
-      status: 'healthy',
-      timestamp: new Date().toISOString(),
-      version: '1.0.0'
+  handle('health', 'Health check failed', () => ({
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    version: API_VERSION
+  }));
+
+  handle('openApi', 'OpenAPI document unavailable', () => openApiDocument);
+
+  const { jobs } = options;
+  if (jobs) {
+    const findJob = (id: string): JobRecord => {
+      const job = jobs.get(id);
+      if (!job) throw new ApiError(404, 'NOT_FOUND', `No job with id ${id}`);
+      return job;
+    };
+
+    handle('createJob', 'Job submission failed', async body => {
+      const {
+        reviews: inputs,
+        file,
+        useAdvanced = false,
+        ensemble = null,
+        preprocessing = null,
+        language = null,
+        redaction,
+        excludeFactual = false
+      } = body;
+
+      if (Boolean(inputs) === Boolean(file)) {
+        throw new ApiError(400, 'INVALID_REQUEST', 'Invalid input: body must contain either reviews or file');
+      }
+      // Reject an unavailable stacker now rather than failing the job later
+      resolveEnsembleOptions(ensemble, ensembleConfig);
+      const redactionOptions = resolveRedactionOptions(redaction);
+
+      const loaded = file
+        ? await ingestJobFile(options.jobsInputDir, file.path, file.textField)
+        : { reviews: (inputs ?? []).map(reviewFromText), summary: null };
+      const redactions = loaded.reviews.map(review => redactReview(review, redactionOptions));
+
+      return jobs.submit({
+        reviews: redactions.map(r => r.review),
+        source: {
+          type: file ? 'file' : 'reviews',
+          path: file ? file.path : null,
+          rows: loaded.summary ? loaded.summary.rows : loaded.reviews.length,
+          malformed_count: loaded.summary ? loaded.summary.malformedCount : 0,
+          malformed: loaded.summary ? loaded.summary.malformed : []
+        },
+        options: { useAdvanced, ensemble, preprocessing, language, excludeFactual },
+        redaction: redactionOptions.report ? mergeRedactionReports(redactions.map(r => r.report)) : null
+      });
     });
-  });
+
+    handle('getJob', 'Job lookup failed', (_, { params }) => findJob(params.id));
+
+    handle('getJobResults', 'Job results failed', (_, { params, query }) => {
+      const job = findJob(params.id);
+      const { offset = 0, limit = DEFAULT_JOB_RESULTS_LIMIT } = query;
+
+      return {
+        id: job.id,
+        status: job.status,
+        offset,
+        limit,
+        available: job.progress.processed,
+        results: jobs.results(job, offset, limit)
+      };
+    });
+
+    handle('cancelJob', 'Job cancellation failed', (_, { params }) => {
+      const job = findJob(params.id);
+      if (isFinished(job)) {
+        throw new ApiError(409, 'CONFLICT', `Job ${job.id} has already ${job.status === 'cancelled' ? 'been cancelled' : job.status}`);
+      }
+      return jobs.cancel(job);
+    });
+
+    jobs.start((review, index, jobOptions) => analyzeRoutedReview(review, index, jobOptions.language, {
+      useAdvanced: jobOptions.useAdvanced,
+      ensemble: resolveEnsembleOptions(jobOptions.ensemble, ensembleConfig),
+      preprocessing: jobOptions.preprocessing ?? {}
+    }));
+  }
 
   return router;
 };
 
+const resolveEnsembleOptions = (
+  requested: ApiRequestBody<'analyze'>['ensemble'],
+  defaults: EnsembleOptions
+): EnsembleOptions => {
+  const strategy = requested?.strategy ?? defaults.strategy;
+  if (strategy === 'stacking' && !defaults.stacker) {
+    throw new ApiError(400, 'INVALID_REQUEST', 'Stacking ensemble is unavailable: no stacker is loaded (set ENSEMBLE_STACKER_PATH)');
+  }
+
+  return {
+    ...defaults,
+    strategy,
+    weights: { ...defaults.weights, ...requested?.weights }
+  };
+};
+
+const resolveRedactionOptions = (requested: Partial<RedactionOptions> | null | undefined): RedactionOptions => ({
+  ...DEFAULT_REDACTION_OPTIONS,
+  ...requested
+});
+
+const applyRedaction = (text: string, options: RedactionOptions): { text: string; report: RedactionReport & { applied: boolean } } => {
+  if (!options.enabled) {
+    return { text, report: { applied: false, total: 0, counts: {} } };
+  }
+
+  const redacted = redactPii(text);
+  return { text: redacted.text, report: { applied: true, ...redacted.report } };
+};
+
+const readQuery = (route: RouteDefinition, req: Request): Record<string, unknown> => {
+  if (!route.query) return {};
+
+  const query = coerceQuery(route.query, req.query);
+  const issues = validateSchema(route.query, query, 'query');
+  if (issues.length > 0) throw invalidRequest(issues);
+  return query;
+};
+
+// Resolves once a full socket buffer has been flushed, or the client has gone
+const drained = (res: Response) => new Promise<void>(resolve => {
+  const done = () => {
+    res.off('drain', done);
+    res.off('close', done);
+    resolve();
+  };
+  res.on('drain', done);
+  res.on('close', done);
+});
+
+const mergeRedactionReports = (reports: (RedactionReport & { applied: boolean })[]) => {
+  const counts: RedactionReport['counts'] = {};
+  for (const report of reports) {
+    for (const [type, count] of Object.entries(report.counts) as [keyof RedactionReport['counts'], number][]) {
+      counts[type] = (counts[type] ?? 0) + count;
+    }
+  }
+
+  return {
+    applied: reports.some(report => report.applied),
+    total: reports.reduce((sum, report) => sum + report.total, 0),
+    counts
+  };
+};
+
+const redactReview = (review: Review, options: RedactionOptions) => {
+  const text = applyRedaction(review.text, options);
+  const title = review.title === null ? null : applyRedaction(review.title, options);
+
+  return {
+    review: { ...review, text: text.text, title: title ? title.text : null },
+    report: title ? mergeRedactionReports([text.report, title.report]) : text.report
+  };
+};
+
+// Files are read from the configured input directory only, never from arbitrary server paths
+const ingestJobFile = async (directory: string | null | undefined, path: string, textField?: string) => {
+  if (!directory) {
+    throw new ApiError(400, 'INVALID_REQUEST', 'File jobs are disabled: set JOBS_INPUT_DIR on the server');
+  }
+
+  const root = resolve(directory);
+  const target = resolve(root, path);
+  const inside = relative(root, target);
+  if (!inside || inside.startsWith('..') || isAbsolute(inside)) {
+    throw new ApiError(400, 'INVALID_REQUEST', 'Invalid input: body.file.path must point inside the jobs input directory');
+  }
+  if (!existsSync(target)) {
+    throw new ApiError(400, 'INVALID_REQUEST', `Invalid input: body.file.path ${path} does not exist`);
+  }
+
+  const reviews: Review[] = [];
+  let summary: IngestionSummary;
+  try {
+    summary = await ingestReviews(target, review => {
+      reviews.push(review);
+    }, { mapping: textField ? { text: [textField] } : undefined });
+  } catch (error) {
+    throw new ApiError(400, 'INVALID_REQUEST', `Invalid input: body.file.path ${path} could not be parsed`, {
+      reason: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+  if (reviews.length === 0) {
+    throw new ApiError(400, 'INVALID_REQUEST', `Invalid input: body.file.path ${path} contains no reviews`, {
+      malformed: summary.malformed
+    });
+  }
+  return { reviews, summary };
+};
+
+// Every route picks its analyzer the same way: the requested language, else the detected one when it can be routed
+const routeReview = (text: string, requestedLanguage?: string | null) => {
+  const detection = detectLanguage(text);
+  return { detection, language: requestedLanguage ?? routeLanguage(detection, SUPPORTED_LANGUAGES) };
+};
+
+// Single-review routes have nothing left to answer with, so an unroutable review is rejected
+const requireLanguage = (text: string, requestedLanguage?: string | null) => {
+  const { detection, language } = routeReview(text, requestedLanguage);
+  if (!language) throw unsupportedLanguageError(detection);
+  return { detection, language };
+};
+
+const unsupportedReviews = (routings: { detection: LanguageDetection; language: string | null }[]) => routings
+  .map(({ detection }, index) => ({ index, detected_language: detection.language, confidence: detection.confidence }))
+  .filter(({ index }) => !routings[index].language);
+
+const unsupportedBatchError = (unsupported: ReturnType<typeof unsupportedReviews>) => new ApiError(
+  422,
+  'UNSUPPORTED_LANGUAGE',
+  'Unsupported language: no review matches a supported analyzer',
+  { supported_languages: SUPPORTED_LANGUAGES, unsupported }
+);
+
+// A supported best guess is only rejected when it is too uncertain to route on
+const unsupportedLanguageError = (detection: LanguageDetection) => new ApiError(
+  422,
+  'UNSUPPORTED_LANGUAGE',
+  SUPPORTED_LANGUAGES.includes(detection.language) || detection.language === UNDETERMINED_LANGUAGE
+    ? 'Unsupported language: the review language could not be detected reliably; set language to analyze it'
+    : `Unsupported language: ${languageName(detection.language)} reviews cannot be analyzed yet`,
+  {
+    detected_language: detection.language,
+    confidence: detection.confidence,
+    supported_languages: SUPPORTED_LANGUAGES
+  }
+);
+
+const aggregateByLanguage = (languages: string[], analyses: SentimentResult[], verdicts: EnsembleVerdict[]) =>
+  Object.fromEntries(Array.from(new Set(languages)).map(language => {
+    const members = languages.map((l, idx) => (l === language ? idx : -1)).filter(idx => idx >= 0);
+    return [language, {
+      name: languageName(language),
+      basic: aggregateResults(members.map(idx => analyses[idx])),
+      emotions: aggregateEmotions(members.map(idx => analyses[idx].emotions)),
+      verdict: aggregateVerdicts(members.map(idx => verdicts[idx]))
+    }];
+  }));
+
+const countFrequencies = (words: string[]) => {
+  const counts = new Map<string, number>();
+  for (const word of words) {
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+
+  return Array.from(counts.entries())
+    .map(([word, frequency]) => ({ word, frequency }))
+    .sort((a, b) => b.frequency - a.frequency);
+};
+
 const calculateSimilarity = (text1: string, text2: string): number => {
   const words1 = new Set(text1.toLowerCase().split(/\s+/));
   const words2 = new Set(text2.toLowerCase().split(/\s+/));
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { coerceQuery, Schema, validateSchema } from './schema';
+
+const REVIEW: Schema = {
+  type: 'object',
+  required: ['text'],
+  additionalProperties: false,
+  properties: {
+    text: { type: 'string', minLength: 1 },
+    rating: { type: 'number', minimum: 1, maximum: 5, nullable: true },
+    tags: { type: 'array', items: { type: 'string', enum: ['gift', 'repeat'] }, maxItems: 2 }
+  }
+};
+
+describe('validateSchema', () => {
+  it('accepts a matching value', () => {
+    expect(validateSchema(REVIEW, { text: 'Great', rating: null, tags: ['gift'] })).toEqual([]);
+  });
+
+  it('reports every issue with its path', () => {
+    expect(validateSchema(REVIEW, { text: '', rating: 9, tags: ['gift', 'sale'], extra: true }, 'body')).toEqual([
+      { path: 'body.text', message: 'must not be empty' },
+      { path: 'body.rating', message: 'must be at most 5' },
+      { path: 'body.tags[1]', message: 'must be one of gift, repeat' },
+      { path: 'body.extra', message: 'is not allowed, expected one of text, rating, tags' }
+    ]);
+  });
+
+  it('names the expected and received types on a mismatch', () => {
+    expect(validateSchema(REVIEW, { rating: '5' })).toEqual([
+      { path: '$.text', message: 'is required' },
+      { path: '$.rating', message: 'must be a finite number, got string' }
+    ]);
+    expect(validateSchema(REVIEW, [])).toEqual([{ path: '$', message: 'must be an object, got array' }]);
+  });
+});
+
+describe('coerceQuery', () => {
+  it('converts numeric and boolean query values and leaves the rest as text', () => {
+    const schema: Schema = {
+      type: 'object',
+      properties: { limit: { type: 'integer' }, redact: { type: 'boolean' }, format: { type: 'string' } }
+    };
+
+    expect(coerceQuery(schema, { limit: '10', redact: 'false', format: 'sse', other: '1' }))
+      .toEqual({ limit: 10, redact: false, format: 'sse', other: '1' });
+    expect(coerceQuery(schema, { limit: 'ten', redact: 'yes' })).toEqual({ limit: 'ten', redact: 'yes' });
+  });
+});
@@ -0,0 +1,164 @@
+// A small JSON Schema subset (the part OpenAPI 3.0 shares with it) that is
+// enough to describe the API: one definition drives request validation,
+// response validation, the served OpenAPI document and the client types.
+
+interface SchemaBase {
+  description?: string;
+  nullable?: boolean;
+  default?: unknown;
+}
+
+export type Schema = SchemaBase & (
+  | { type: 'string'; enum?: readonly string[]; minLength?: number; maxLength?: number; format?: 'date-time' }
+  | { type: 'number' | 'integer'; minimum?: number; maximum?: number }
+  | { type: 'boolean' }
+  | { type: 'array'; items: Schema; minItems?: number; maxItems?: number }
+  | {
+    type: 'object';
+    properties?: { readonly [name: string]: Schema };
+    required?: readonly string[];
+    additionalProperties?: boolean | Schema;
+  }
+);
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+declare const SCHEMA_TYPE: unique symbol;
+
+// Attaches the TypeScript type a loosely described schema stands for, so
+// large analysis objects can be checked shallowly but still typed precisely
+export const typed = <T>() => <const S extends Schema>(schema: S) =>
+  schema as S & { readonly [SCHEMA_TYPE]?: T };
+
+const NULLABLE_BASES = new WeakMap<Schema, Schema>();
+
+// Remembers the shared schema behind a nullable copy so the OpenAPI document
+// can keep referencing the named component instead of inlining it
+export const nullable = <S extends Schema>(schema: S) => {
+  const wrapped = { ...schema, nullable: true as const };
+  NULLABLE_BASES.set(wrapped, schema);
+  return wrapped;
+};
+
+export const nullableBase = (schema: Schema): Schema | undefined => NULLABLE_BASES.get(schema);
+
+type Nullable<S, T> = S extends { nullable: true } ? T | null : T;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & unknown;
+
+type ObjectFromSchema<P, R> = Simplify<
+  { -readonly [K in keyof P as K extends R ? K : never]: FromSchema<P[K]> } &
+  { -readonly [K in keyof P as K extends R ? never : K]?: FromSchema<P[K]> }
+>;
+
+type InferSchema<S> =
+  S extends { enum: readonly (infer E)[] } ? Nullable<S, E> :
+  S extends { type: 'string' } ? Nullable<S, string> :
+  S extends { type: 'number' | 'integer' } ? Nullable<S, number> :
+  S extends { type: 'boolean' } ? Nullable<S, boolean> :
+  S extends { type: 'array'; items: infer I } ? Nullable<S, FromSchema<I>[]> :
+  S extends { type: 'object'; properties: infer P } ?
+    Nullable<S, ObjectFromSchema<P, S extends { required: readonly (infer R)[] } ? R : never>> :
+  S extends { type: 'object'; additionalProperties: infer A extends Schema } ? Nullable<S, Record<string, FromSchema<A>>> :
+  S extends { type: 'object' } ? Nullable<S, Record<string, unknown>> :
+  unknown;
+
+export type FromSchema<S> =
+  S extends { readonly [SCHEMA_TYPE]?: infer T }
+    ? unknown extends T ? InferSchema<S> : Nullable<S, T>
+    : InferSchema<S>;
+
+const describeType = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+export const validateSchema = (schema: Schema, value: unknown, path = '$'): SchemaIssue[] => {
+  if (value === null && schema.nullable) return [];
+
+  const mismatch = (expected: string) => [{ path, message: `must be ${expected}, got ${describeType(value)}` }];
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') return mismatch('a string');
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [{ path, message: `must be one of ${schema.enum.join(', ')}` }];
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return [{ path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters long` }];
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return [{ path, message: `must be at most ${schema.maxLength} characters long` }];
+      }
+      return [];
+    }
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return mismatch('a finite number');
+      if (schema.type === 'integer' && !Number.isInteger(value)) return mismatch('an integer');
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [{ path, message: `must be at least ${schema.minimum}` }];
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return [{ path, message: `must be at most ${schema.maximum}` }];
+      }
+      return [];
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : mismatch('a boolean');
+    case 'array': {
+      if (!Array.isArray(value)) return mismatch('an array');
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return [{ path, message: schema.minItems === 1 ? 'must not be empty' : `must contain at least ${schema.minItems} items` }];
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return [{ path, message: `must contain at most ${schema.maxItems} items` }];
+      }
+      return value.flatMap((item, idx) => validateSchema(schema.items, item, `${path}[${idx}]`));
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return mismatch('an object');
+
+      const record = value as Record<string, unknown>;
+      const properties = schema.properties ?? {};
+      const issues: SchemaIssue[] = [];
+
+      for (const name of schema.required ?? []) {
+        if (record[name] === undefined) issues.push({ path: `${path}.${name}`, message: 'is required' });
+      }
+      for (const [name, item] of Object.entries(record)) {
+        if (item === undefined) continue;
+        if (Object.prototype.hasOwnProperty.call(properties, name)) {
+          issues.push(...validateSchema(properties[name], item, `${path}.${name}`));
+        } else if (schema.additionalProperties === false) {
+          issues.push({ path: `${path}.${name}`, message: `is not allowed, expected one of ${Object.keys(properties).join(', ')}` });
+        } else if (typeof schema.additionalProperties === 'object') {
+          issues.push(...validateSchema(schema.additionalProperties, item, `${path}.${name}`));
+        }
+      }
+
+      return issues;
+    }
+  }
+};
+
+// Query strings arrive as text; numeric and boolean properties are converted before validation
+export const coerceQuery = (schema: Schema, query: Record<string, unknown>): Record<string, unknown> => {
+  if (schema.type !== 'object' || !schema.properties) return query;
+  const properties = schema.properties;
+
+  return Object.fromEntries(Object.entries(query).map(([name, value]) => {
+    const property = Object.prototype.hasOwnProperty.call(properties, name) ? properties[name] : undefined;
+    if (typeof value !== 'string' || !property) return [name, value];
+
+    if ((property.type === 'number' || property.type === 'integer') && value.trim() !== '') {
+      const number = Number(value);
+      return [name, Number.isNaN(number) ? value : number];
+    }
+    if (property.type === 'boolean' && (value === 'true' || value === 'false')) {
+      return [name, value === 'true'];
+    }
+    return [name, value];
+  }));
+};
@@ -0,0 +1,161 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { loadLabelledDataset } from '../utils/datasetLoader';
+import { analyzeSentiment } from '../utils/sentimentAnalyzer';
+import { loadBertModel, loadReviewClassifier, readEnsembleConfigFromEnv } from '../utils/modelLoader';
+import { reconcilePredictions } from '../utils/ensemble';
+import {
+  calibrateDistribution,
+  describeCalibration,
+  fitCalibration,
+  isCalibrationMethod,
+  topClass,
+  AnalyzerCalibration,
+  CalibrationSample,
+  ClassDistribution,
+  SerializedCalibration,
+  CALIBRATION_METHODS
+} from '../utils/calibration';
+import { computeReliability, renderCalibrationReport, CalibrationReport } from '../utils/evaluation';
+
+const { values } = parseArgs({
+  options: {
+    data: { type: 'string' },
+    method: { type: 'string', default: 'temperature' },
+    out: { type: 'string', default: 'models/calibration.json' },
+    'report-dir': { type: 'string', default: 'reports' },
+    name: { type: 'string' },
+    classifier: { type: 'string' },
+    'text-field': { type: 'string', default: 'text' },
+    'label-field': { type: 'string', default: 'label' },
+    'validation-split': { type: 'string', default: '0.2' }
+  }
+});
+
+if (!values.data || !isCalibrationMethod(values.method)) {
+  console.error(
+    `Usage: npm run calibrate -- --data <reviews.csv|.tsv|.jsonl> [--method ${CALIBRATION_METHODS.join('|')}] ` +
+    '[--out models/calibration.json] [--classifier model.json]'
+  );
+  process.exit(1);
+}
+const method = values.method;
+
+const { examples, skipped } = loadLabelledDataset(values.data, {
+  textField: values['text-field'],
+  labelField: values['label-field']
+});
+console.log(`Loaded ${examples.length} labelled reviews (${skipped.length} skipped)`);
+
+const split = Number(values['validation-split']);
+const step = split > 0 ? Math.max(2, Math.round(1 / split)) : Infinity;
+const isHeldOut = (idx: number) => idx % step === 0;
+const fitCount = examples.filter((_, idx) => !isHeldOut(idx)).length;
+const heldOutCount = examples.length - fitCount;
+
+if (fitCount === 0) {
+  console.error('Not enough reviews left to fit calibration after the validation split');
+  process.exit(1);
+}
+
+const bert = loadBertModel();
+const classifier = loadReviewClassifier(values.classifier);
+
+const toDistribution = (prediction: ClassDistribution): ClassDistribution => ({
+  positive: prediction.positive,
+  negative: prediction.negative,
+  neutral: prediction.neutral
+});
+
+const raw = examples.map(example => ({
+  lexicon: analyzeSentiment(example.text),
+  bert: bert.predict(example.text),
+  classifier: classifier ? classifier.predict(example.text) : null
+}));
+
+const distributions: Record<string, ClassDistribution[]> = {
+  lexicon: raw.map(r => r.lexicon.probabilities),
+  bert: raw.map(r => toDistribution(r.bert))
+};
+if (classifier) {
+  distributions.classifier = raw.map(r => toDistribution(r.classifier!));
+}
+
+const calibrations: Record<string, AnalyzerCalibration> = {};
+const report: CalibrationReport = {
+  dataset: values.name || basename(values.data),
+  generatedAt: new Date().toISOString(),
+  method,
+  fitExamples: fitCount,
+  heldOutExamples: heldOutCount,
+  analyzers: {}
+};
+
+const evaluationSet = (idx: number) => (heldOutCount > 0 ? isHeldOut(idx) : true);
+
+const calibrateAnalyzer = (name: string, dists: ClassDistribution[]) => {
+  const samples: CalibrationSample[] = dists.map((probabilities, idx) => ({ probabilities, label: examples[idx].label }));
+  const calibration = fitCalibration(samples.filter((_, idx) => !isHeldOut(idx)), method);
+  calibrations[name] = calibration;
+
+  const reliability = (transform: (d: ClassDistribution) => ClassDistribution) => computeReliability(
+    samples
+      .filter((_, idx) => evaluationSet(idx))
+      .map(sample => {
+        const calibrated = transform(sample.probabilities);
+        const predicted = topClass(sample.probabilities);
+        return { confidence: calibrated[predicted], correct: predicted === sample.label };
+      })
+  );
+
+  report.analyzers[name] = {
+    calibration: describeCalibration(calibration),
+    before: reliability(d => d),
+    after: reliability(d => calibrateDistribution(d, calibration))
+  };
+  console.log(
+    `${name}: ${describeCalibration(calibration)}, ECE ` +
+    `${(report.analyzers[name].before.expectedCalibrationError * 100).toFixed(2)}% -> ` +
+    `${(report.analyzers[name].after.expectedCalibrationError * 100).toFixed(2)}%`
+  );
+};
+
+for (const [name, dists] of Object.entries(distributions)) {
+  calibrateAnalyzer(name, dists);
+}
+
+const ensembleConfig = readEnsembleConfigFromEnv();
+const withDistribution = <T extends object>(prediction: T, dist: ClassDistribution): T => ({ ...prediction, ...dist });
+calibrateAnalyzer('ensemble', raw.map((r, idx) => {
+  const verdict = reconcilePredictions(
+    {
+      lexicon: { ...r.lexicon, probabilities: calibrateDistribution(r.lexicon.probabilities, calibrations.lexicon) },
+      bert: withDistribution(r.bert, calibrateDistribution(distributions.bert[idx], calibrations.bert)),
+      classifier: r.classifier
+        ? withDistribution(r.classifier, calibrateDistribution(distributions.classifier[idx], calibrations.classifier))
+        : null
+    },
+    ensembleConfig
+  );
+  return toDistribution(verdict);
+}));
+
+const serialized: SerializedCalibration = {
+  format: 'confidence-calibration-json',
+  version: 1,
+  analyzers: calibrations,
+  fittedAt: report.generatedAt,
+  examples: fitCount
+};
+
+mkdirSync(dirname(values.out), { recursive: true });
+writeFileSync(values.out, `${JSON.stringify(serialized, null, 2)}\n`);
+console.log(`Calibration written to ${values.out}`);
+
+const reportDir = values['report-dir'];
+const stem = basename(values.data).replace(/\.[^.]+$/, '');
+mkdirSync(reportDir, { recursive: true });
+writeFileSync(join(reportDir, `${stem}.calibration.json`), `${JSON.stringify(report, null, 2)}\n`);
+writeFileSync(join(reportDir, `${stem}.calibration.md`), renderCalibrationReport(report));
+console.log(`Reliability report written to ${join(reportDir, `${stem}.calibration.{json,md}`)}`);
@@ -0,0 +1,90 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { loadLabelledDataset } from '../utils/datasetLoader';
+import { analyzeSentiment } from '../utils/sentimentAnalyzer';
+import { extractAspects } from '../utils/aspectExtractor';
+import { loadBertModel, loadReviewClassifier, readEnsembleConfigFromEnv } from '../utils/modelLoader';
+import { reconcilePredictions } from '../utils/ensemble';
+import { ClassLabel } from '../utils/reviewClassifier';
+import { computeMetrics, renderMarkdownReport, EvaluationExample, EvaluationReport } from '../utils/evaluation';
+
+const { values } = parseArgs({
+  options: {
+    data: { type: 'string' },
+    'out-dir': { type: 'string', default: 'reports' },
+    name: { type: 'string' },
+    classifier: { type: 'string' },
+    'text-field': { type: 'string', default: 'text' },
+    'label-field': { type: 'string', default: 'label' },
+    'aspects-field': { type: 'string', default: 'aspects' },
+    timestamp: { type: 'boolean', default: false }
+  }
+});
+
+if (!values.data) {
+  console.error('Usage: npm run evaluate -- --data <reviews.csv|.tsv|.jsonl> [--out-dir reports] [--classifier model.json] [--timestamp]');
+  process.exit(1);
+}
+
+const { examples, skipped } = loadLabelledDataset(values.data, {
+  textField: values['text-field'],
+  labelField: values['label-field'],
+  aspectsField: values['aspects-field']
+});
+console.log(`Evaluating on ${examples.length} labelled reviews (${skipped.length} skipped)`);
+
+const toAspectLabels = (text: string): Record<string, ClassLabel> => Object.fromEntries(
+  Object.entries(extractAspects(text)).map(([name, aspect]) => [name, aspect.label.toLowerCase() as ClassLabel])
+);
+
+const bert = loadBertModel();
+const classifier = loadReviewClassifier(values.classifier);
+
+const analyzers: Record<string, (text: string) => ClassLabel> = {
+  lexicon: text => analyzeSentiment(text).label.toLowerCase() as ClassLabel,
+  [`bert-${bert.backend}`]: text => bert.predict(text).predicted_class
+};
+if (classifier) {
+  analyzers.classifier = text => classifier.predict(text).predicted_class;
+}
+
+const ensembleConfig = readEnsembleConfigFromEnv();
+analyzers[`ensemble-${ensembleConfig.strategy}`] = text => reconcilePredictions(
+  {
+    lexicon: analyzeSentiment(text),
+    bert: bert.predict(text),
+    classifier: classifier ? classifier.predict(text) : null
+  },
+  ensembleConfig
+).predicted_class;
+
+const predictedAspects = examples.map(e => (e.aspects ? toAspectLabels(e.text) : undefined));
+
+const report: EvaluationReport = {
+  dataset: values.name || basename(values.data),
+  ...(values.timestamp && { generatedAt: new Date().toISOString() }),
+  analyzers: {}
+};
+
+for (const [name, predict] of Object.entries(analyzers)) {
+  const started = Date.now();
+  const results: EvaluationExample[] = examples.map((example, idx) => ({
+    gold: example.label,
+    predicted: predict(example.text),
+    goldAspects: example.aspects,
+    predictedAspects: predictedAspects[idx]
+  }));
+  report.analyzers[name] = computeMetrics(results);
+  console.log(
+    `${name}: accuracy ${(report.analyzers[name].accuracy * 100).toFixed(2)}%, ` +
+    `macro-F1 ${(report.analyzers[name].macroF1 * 100).toFixed(2)}% (${Date.now() - started}ms)`
+  );
+}
+
+const outDir = values['out-dir'];
+const stem = basename(values.data).replace(/\.[^.]+$/, '');
+mkdirSync(outDir, { recursive: true });
+writeFileSync(join(outDir, `${stem}.evaluation.json`), `${JSON.stringify(report, null, 2)}\n`);
+writeFileSync(join(outDir, `${stem}.evaluation.md`), renderMarkdownReport(report));
+console.log(`Reports written to ${join(outDir, `${stem}.evaluation.{json,md}`)}`);
@@ -0,0 +1,42 @@
+import { createWriteStream } from 'node:fs';
+import { once } from 'node:events';
+import { parseArgs } from 'node:util';
+import { ingestReviews } from '../utils/reviewIngestion';
+
+const { values } = parseArgs({
+  options: {
+    data: { type: 'string' },
+    out: { type: 'string' },
+    'text-field': { type: 'string' },
+    'max-malformed': { type: 'string', default: '20' }
+  }
+});
+
+if (!values.data) {
+  console.error('Usage: npm run ingest -- --data <reviews.csv|.tsv|.jsonl>[.gz] [--out reviews.jsonl] [--text-field reviewText]');
+  process.exit(1);
+}
+
+// Normalized reviews are written as they are read, so the export never has to fit in memory
+const out = values.out ? createWriteStream(values.out) : null;
+
+const summary = await ingestReviews(values.data, async review => {
+  if (out && !out.write(`${JSON.stringify(review)}\n`)) await once(out, 'drain');
+}, {
+  mapping: values['text-field'] ? { text: [values['text-field']] } : undefined,
+  maxMalformed: parseInt(values['max-malformed'], 10)
+});
+
+if (out) {
+  out.end();
+  await once(out, 'finish');
+}
+
+console.log(`Read ${summary.rows} rows: ${summary.reviews} reviews, ${summary.malformedCount} malformed`);
+for (const { row, reason } of summary.malformed) {
+  console.log(`  row ${row}: ${reason}`);
+}
+if (summary.malformedCount > summary.malformed.length) {
+  console.log(`  ... and ${summary.malformedCount - summary.malformed.length} more`);
+}
+if (out) console.log(`Normalized reviews written to ${values.out}`);
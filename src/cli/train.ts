@@ -0,0 +1,88 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { loadLabelledDataset } from '../utils/datasetLoader';
+import { ReviewClassifier, LabelledReview } from '../utils/reviewClassifier';
+import { analyzeSentiment } from '../utils/sentimentAnalyzer';
+import { analyzeWithBert } from '../utils/bertModel';
+import { loadBertModel } from '../utils/modelLoader';
+import { collectVotes, trainStacker } from '../utils/ensemble';
+
+const { values } = parseArgs({
+  options: {
+    data: { type: 'string' },
+    out: { type: 'string', default: 'models/review-classifier.json' },
+    'text-field': { type: 'string', default: 'text' },
+    'label-field': { type: 'string', default: 'label' },
+    epochs: { type: 'string', default: '10' },
+    'learning-rate': { type: 'string', default: '0.1' },
+    'min-count': { type: 'string', default: '2' },
+    'validation-split': { type: 'string', default: '0.1' },
+    'no-bigrams': { type: 'boolean', default: false },
+    'stacker-out': { type: 'string' }
+  }
+});
+
+if (!values.data) {
+  console.error(
+    'Usage: npm run train -- --data <reviews.csv|.tsv|.jsonl> [--out models/review-classifier.json] [--stacker-out models/ensemble-stacker.json]'
+  );
+  process.exit(1);
+}
+
+const { examples, skipped } = loadLabelledDataset(values.data, {
+  textField: values['text-field'],
+  labelField: values['label-field']
+});
+
+console.log(`Loaded ${examples.length} labelled reviews (${skipped.length} skipped)`);
+for (const row of skipped.slice(0, 10)) {
+  console.log(`  row ${row.row}: ${row.reason}`);
+}
+
+const split = Number(values['validation-split']);
+const step = split > 0 ? Math.max(2, Math.round(1 / split)) : Infinity;
+const validation: LabelledReview[] = examples.filter((_, idx) => idx % step === 0);
+const training = examples.filter((_, idx) => idx % step !== 0);
+
+const started = Date.now();
+const classifier = ReviewClassifier.train(training, {
+  epochs: Number(values.epochs),
+  learningRate: Number(values['learning-rate']),
+  minCount: Number(values['min-count']),
+  useBigrams: !values['no-bigrams']
+});
+console.log(`Trained on ${training.length} reviews in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+
+if (validation.length > 0) {
+  const correct = validation.filter(e => classifier.predict(e.text).predicted_class === e.label).length;
+  console.log(`Validation accuracy: ${((correct / validation.length) * 100).toFixed(2)}% on ${validation.length} reviews`);
+}
+
+mkdirSync(dirname(values.out), { recursive: true });
+writeFileSync(values.out, JSON.stringify(classifier.toJSON()));
+console.log(`Model written to ${values.out}`);
+
+if (values['stacker-out']) {
+  if (validation.length === 0) {
+    console.error('Cannot train an ensemble stacker without a validation split');
+    process.exit(1);
+  }
+
+  const model = loadBertModel();
+  const stacker = trainStacker(
+    validation.map(e => ({
+      votes: collectVotes({
+        lexicon: analyzeSentiment(e.text),
+        bert: analyzeWithBert(e.text, model),
+        classifier: classifier.predict(e.text)
+      }),
+      label: e.label
+    })),
+    ['lexicon', 'bert', 'classifier']
+  );
+
+  mkdirSync(dirname(values['stacker-out']), { recursive: true });
+  writeFileSync(values['stacker-out'], JSON.stringify(stacker, null, 2));
+  console.log(`Ensemble stacker written to ${values['stacker-out']} (fit on ${validation.length} held-out reviews)`);
+}
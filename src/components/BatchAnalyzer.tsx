@@ -1,26 +1,35 @@
 import { useState } from 'react';
 import { Upload, BarChart3 } from 'lucide-react';
-import { batchAnalyze, aggregateResults } from '../utils/sentimentAnalyzer';
+import { analyzeReviewBatch, BatchAnalysis, BatchProgress } from '../api/analysisClient';
 
 export const BatchAnalyzer = () => {
   const [reviews, setReviews] = useState<string>('');
-  const [results, setResults] = useState<any>(null);
+  const [analysis, setAnalysis] = useState<BatchAnalysis | null>(null);
+  const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<BatchProgress | null>(null);
 
-  const handleAnalyze = () => {
-    setLoading(true);
+  const handleAnalyze = async () => {
     const reviewList = reviews
       .split('\n')
       .filter(r => r.trim().length > 0);
+    if (reviewList.length === 0) return;
 
-    if (reviewList.length > 0) {
-      const analyzed = batchAnalyze(reviewList);
-      const aggregated = aggregateResults(analyzed);
-      setResults(aggregated);
+    setLoading(true);
+    setError(null);
+    setProgress({ processed: 0, total: reviewList.length });
+    try {
+      setAnalysis(await analyzeReviewBatch(reviewList, setProgress));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Batch analysis failed');
+    } finally {
+      setLoading(false);
+      setProgress(null);
     }
-    setLoading(false);
   };
 
+  const results = analysis?.summary;
+
   const sampleBatch = `This product exceeded my expectations! Amazing quality and fast shipping.
 Worst purchase ever. Product broke after 2 days. Do not buy!
 Good product for the price. Works as described.
@@ -60,11 +69,35 @@ Poor quality materials. Not worth the money at all.`;
             Load Sample
           </button>
         </div>
+
+        {loading && progress && (
+          <div className="mt-4">
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>Analyzing reviews...</span>
+              <span>{progress.processed} / {progress.total}</span>
+            </div>
+            <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div
+                className="bg-blue-600 h-full transition-all"
+                style={{ width: `${(progress.processed / progress.total) * 100}%` }}
+              />
+            </div>
+          </div>
+        )}
       </div>
 
-      {results && (
+      {error && (
+        <div className="bg-red-50 border-2 border-red-200 rounded-lg p-4 text-red-700">{error}</div>
+      )}
+
+      {analysis && results && (
         <div className="bg-white border-2 border-gray-200 rounded-xl p-6">
-          <h4 className="text-lg font-bold text-gray-800 mb-6">Analysis Results</h4>
+          <h4 className="text-lg font-bold text-gray-800 mb-2">Analysis Results</h4>
+          <p className="text-sm text-gray-500 mb-6">
+            {analysis.source === 'browser' ? 'API server unreachable, analyzed in the browser' : 'Analyzed by the API server'}
+            {analysis.analyzed < analysis.received &&
+              ` · ${analysis.received - analysis.analyzed} of ${analysis.received} reviews skipped (unsupported language)`}
+          </p>
 
           <div className="grid grid-cols-3 gap-4 mb-6">
             <div className="bg-green-50 border-2 border-green-200 rounded-lg p-4 text-center">
@@ -103,7 +136,7 @@ Poor quality materials. Not worth the money at all.`;
               </div>
             </div>
 
-            <div className="grid grid-cols-2 gap-4 pt-4 border-t">
+            <div className="grid grid-cols-3 gap-4 pt-4 border-t">
               <div>
                 <p className="text-sm text-gray-600">Average Sentiment Score</p>
                 <p className="text-2xl font-bold text-blue-600">{results.avgScore.toFixed(2)}</p>
@@ -112,6 +145,12 @@ Poor quality materials. Not worth the money at all.`;
                 <p className="text-sm text-gray-600">Average Confidence</p>
                 <p className="text-2xl font-bold text-blue-600">{results.avgConfidence.toFixed(2)}%</p>
               </div>
+              <div>
+                <p className="text-sm text-gray-600">Analyzer Disagreements</p>
+                <p className="text-2xl font-bold text-blue-600">
+                  {results.disagreements} ({results.disagreementPercentage.toFixed(1)}%)
+                </p>
+              </div>
             </div>
           </div>
         </div>
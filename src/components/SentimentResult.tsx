@@ -1,13 +1,16 @@
-import { ThumbsUp, ThumbsDown, Minus, TrendingUp } from 'lucide-react';
+import { ThumbsUp, ThumbsDown, Minus, TrendingUp, Layers, AlignLeft, Scale, SpellCheck, Heart } from 'lucide-react';
 import { SentimentResult as Result } from '../utils/sentimentAnalyzer';
+import { EnsembleVerdict } from '../utils/ensemble';
+import { emojiName } from '../utils/emojiNormalizer';
 
 interface SentimentResultProps {
   result: Result;
+  verdict: EnsembleVerdict;
 }
 
-export const SentimentResult = ({ result }: SentimentResultProps) => {
+export const SentimentResult = ({ result, verdict }: SentimentResultProps) => {
   const getSentimentColor = () => {
-    switch (result.label) {
+    switch (verdict.label) {
       case 'Positive':
         return 'text-green-600 bg-green-50 border-green-200';
       case 'Negative':
@@ -18,7 +21,7 @@ export const SentimentResult = ({ result }: SentimentResultProps) => {
   };
 
   const getSentimentIcon = () => {
-    switch (result.label) {
+    switch (verdict.label) {
       case 'Positive':
         return <ThumbsUp size={32} />;
       case 'Negative':
@@ -28,14 +31,55 @@ export const SentimentResult = ({ result }: SentimentResultProps) => {
     }
   };
 
+  const getAspectColor = (label: string) => {
+    switch (label.toLowerCase()) {
+      case 'positive':
+        return 'text-green-700 bg-green-50 border-green-200';
+      case 'negative':
+        return 'text-red-700 bg-red-50 border-red-200';
+      default:
+        return 'text-gray-700 bg-gray-50 border-gray-200';
+    }
+  };
+
+  const getSentenceHighlight = (label: string) => {
+    switch (label) {
+      case 'Positive':
+        return 'bg-green-100 text-green-900';
+      case 'Negative':
+        return 'bg-red-100 text-red-900';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const aspects = Object.entries(result.aspects);
+  const emotions = Object.entries(result.emotions.distribution)
+    .filter(([, share]) => share > 0)
+    .sort((a, b) => b[1] - a[1]);
+
   return (
     <div className="w-full max-w-4xl mx-auto space-y-6">
       <div className={`border-2 rounded-xl p-6 ${getSentimentColor()}`}>
         <div className="flex items-center gap-4 mb-4">
           {getSentimentIcon()}
           <div>
-            <h3 className="text-2xl font-bold">{result.label} Sentiment</h3>
-            <p className="text-sm opacity-75">Confidence: {result.confidence.toFixed(2)}%</p>
+            <h3 className="text-2xl font-bold">{verdict.label} Sentiment</h3>
+            <p className="text-sm opacity-75">Confidence: {verdict.confidence.toFixed(2)}%</p>
+            {verdict.disagreement && (
+              <p className="text-sm opacity-75">Analyzers disagree: verdict from {verdict.strategy} ensemble</p>
+            )}
+            {result.sarcasm.adjustment !== 'none' && (
+              <p className="text-sm opacity-75">
+                Sarcasm likely ({(result.sarcasm.sarcasmProbability * 100).toFixed(0)}%): label {result.sarcasm.adjustment}
+              </p>
+            )}
+            <p className="text-sm opacity-75">
+              Subjectivity: {(result.subjectivity.score * 100).toFixed(0)}% ({result.subjectivity.label})
+            </p>
+            {result.emotions.dominant && (
+              <p className="text-sm opacity-75 capitalize">Dominant emotion: {result.emotions.dominant}</p>
+            )}
           </div>
         </div>
 
@@ -51,6 +95,68 @@ export const SentimentResult = ({ result }: SentimentResultProps) => {
         </div>
       </div>
 
+      <div className="bg-white border-2 border-gray-200 rounded-xl p-6">
+        <h4 className="font-semibold text-gray-700 mb-4 flex items-center gap-2">
+          <Scale size={20} />
+          Analyzer Votes ({verdict.votes.length})
+        </h4>
+        <div className="grid sm:grid-cols-2 gap-3">
+          {verdict.votes.map(vote => (
+            <div key={vote.analyzer} className={`border rounded-lg p-4 ${getAspectColor(vote.predicted_class)}`}>
+              <div className="flex items-center justify-between mb-1">
+                <p className="font-semibold capitalize">{vote.analyzer}</p>
+                <span className="text-sm font-medium capitalize">
+                  {vote.predicted_class} ({vote.confidence.toFixed(1)}%)
+                </span>
+              </div>
+              <p className="text-xs opacity-75">Weight: {vote.weight}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {result.sentences.length > 1 && (
+        <div className="bg-white border-2 border-gray-200 rounded-xl p-6">
+          <h4 className="font-semibold text-gray-700 mb-4 flex items-center gap-2">
+            <AlignLeft size={20} />
+            Sentence Breakdown ({result.sentences.length})
+          </h4>
+          <p className="leading-8">
+            {result.sentences.map(sentence => (
+              <span
+                key={sentence.start}
+                title={`${sentence.label} (${sentence.score > 0 ? '+' : ''}${sentence.score})`}
+                className={`px-1 py-0.5 mr-1 rounded ${getSentenceHighlight(sentence.label)}`}
+              >
+                {sentence.text}
+              </span>
+            ))}
+          </p>
+        </div>
+      )}
+
+      {aspects.length > 0 && (
+        <div className="bg-white border-2 border-gray-200 rounded-xl p-6">
+          <h4 className="font-semibold text-gray-700 mb-4 flex items-center gap-2">
+            <Layers size={20} />
+            Aspect Sentiment ({aspects.length})
+          </h4>
+          <div className="grid sm:grid-cols-2 gap-3">
+            {aspects.map(([name, aspect]) => (
+              <div key={name} className={`border rounded-lg p-4 ${getAspectColor(aspect.label)}`}>
+                <div className="flex items-center justify-between mb-1">
+                  <p className="font-semibold">{name}</p>
+                  <span className="text-sm font-medium">
+                    {aspect.label} ({aspect.score > 0 ? '+' : ''}{aspect.score})
+                  </span>
+                </div>
+                <p className="text-xs opacity-75">Mentions: {aspect.mentions.join(', ')}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="grid md:grid-cols-2 gap-6">
         {result.positive.length > 0 && (
           <div className="bg-white border-2 border-green-200 rounded-xl p-6">
@@ -62,6 +168,7 @@ export const SentimentResult = ({ result }: SentimentResultProps) => {
               {result.positive.map((word, index) => (
                 <span
                   key={index}
+                  title={emojiName(word) ?? undefined}
                   className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-sm"
                 >
                   {word}
@@ -81,6 +188,7 @@ export const SentimentResult = ({ result }: SentimentResultProps) => {
               {result.negative.map((word, index) => (
                 <span
                   key={index}
+                  title={emojiName(word) ?? undefined}
                   className="px-3 py-1 bg-red-100 text-red-700 rounded-full text-sm"
                 >
                   {word}
@@ -91,30 +199,84 @@ export const SentimentResult = ({ result }: SentimentResultProps) => {
         )}
       </div>
 
-      <div className="bg-white border-2 border-gray-200 rounded-xl p-6">
-        <h4 className="font-semibold text-gray-700 mb-4 flex items-center gap-2">
-          <TrendingUp size={20} />
-          Text Features
-        </h4>
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-          <div className="text-center">
-            <p className="text-2xl font-bold text-blue-600">{result.features.wordCount}</p>
-            <p className="text-sm text-gray-600 mt-1">Word Count</p>
-          </div>
-          <div className="text-center">
-            <p className="text-2xl font-bold text-blue-600">{result.features.avgWordLength.toFixed(1)}</p>
-            <p className="text-sm text-gray-600 mt-1">Avg Word Length</p>
+      {emotions.length > 0 && (
+        <div className="bg-white border-2 border-gray-200 rounded-xl p-6">
+          <h4 className="font-semibold text-gray-700 mb-3 flex items-center gap-2">
+            <Heart size={20} />
+            Emotions
+          </h4>
+          <div className="flex flex-wrap gap-2">
+            {emotions.map(([emotion, share]) => (
+              <span key={emotion} className="px-3 py-1 bg-blue-100 text-blue-700 rounded-full text-sm capitalize">
+                {emotion} {(share * 100).toFixed(0)}%
+              </span>
+            ))}
           </div>
-          <div className="text-center">
-            <p className="text-2xl font-bold text-blue-600">{result.features.uniqueWords}</p>
-            <p className="text-sm text-gray-600 mt-1">Unique Words</p>
+        </div>
+      )}
+
+      {result.substitutions.length > 0 && (
+        <div className="bg-white border-2 border-gray-200 rounded-xl p-6">
+          <h4 className="font-semibold text-gray-700 mb-3 flex items-center gap-2">
+            <SpellCheck size={20} />
+            Normalized Text ({result.substitutions.length})
+          </h4>
+          <div className="flex flex-wrap gap-2">
+            {result.substitutions.map((substitution, index) => (
+              <span
+                key={index}
+                title={substitution.type}
+                className="px-3 py-1 bg-gray-100 text-gray-700 rounded-full text-sm"
+              >
+                {substitution.original} &rarr; {substitution.replacement}
+              </span>
+            ))}
           </div>
-          <div className="text-center">
-            <p className="text-2xl font-bold text-blue-600">{result.features.lexicalDiversity.toFixed(2)}</p>
-            <p className="text-sm text-gray-600 mt-1">Diversity Score</p>
+        </div>
+      )}
+
+      {result.features && (
+        <div className="bg-white border-2 border-gray-200 rounded-xl p-6">
+          <h4 className="font-semibold text-gray-700 mb-4 flex items-center gap-2">
+            <TrendingUp size={20} />
+            Text Features
+          </h4>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="text-center">
+              <p className="text-2xl font-bold text-blue-600">{result.features.wordCount}</p>
+              <p className="text-sm text-gray-600 mt-1">Word Count</p>
+            </div>
+            <div className="text-center">
+              <p className="text-2xl font-bold text-blue-600">{result.features.avgWordLength.toFixed(1)}</p>
+              <p className="text-sm text-gray-600 mt-1">Avg Word Length</p>
+            </div>
+            <div className="text-center">
+              <p className="text-2xl font-bold text-blue-600">{result.features.uniqueWords}</p>
+              <p className="text-sm text-gray-600 mt-1">Unique Words</p>
+            </div>
+            <div className="text-center">
+              <p className="text-2xl font-bold text-blue-600">{result.features.lexicalDiversity.toFixed(2)}</p>
+              <p className="text-sm text-gray-600 mt-1">Diversity Score</p>
+            </div>
+            {result.features.emojiCount + result.features.emoticonCount > 0 && (
+              <>
+                <div className="text-center">
+                  <p className="text-2xl font-bold text-blue-600">
+                    {result.features.emojiCount + result.features.emoticonCount}
+                  </p>
+                  <p className="text-sm text-gray-600 mt-1">Emoji &amp; Emoticons</p>
+                </div>
+                <div className="text-center">
+                  <p className="text-2xl font-bold text-blue-600">
+                    {result.features.emojiPolarity > 0 ? '+' : ''}{result.features.emojiPolarity.toFixed(1)}
+                  </p>
+                  <p className="text-sm text-gray-600 mt-1">Emoji Polarity</p>
+                </div>
+              </>
+            )}
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,170 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { MAX_STREAM_LINE_LENGTH } from '../api/contract';
+import { JobQueue } from './jobQueue';
+import { createApp } from './app';
+import { DEFAULT_SERVER_CONFIG } from './config';
+
+let server: Server;
+let jobs: JobQueue;
+let jobsDir: string;
+let baseUrl: string;
+
+beforeAll(async () => {
+  jobsDir = mkdtempSync(join(tmpdir(), 'app-jobs-'));
+  const created = createApp({ ...DEFAULT_SERVER_CONFIG, bodyLimit: '1kb', corsOrigins: ['https://shop.example'], jobsDir });
+  jobs = created.jobs;
+  server = created.app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await jobs.stop();
+  rmSync(jobsDir, { recursive: true, force: true });
+});
+
+const post = async (path: string, body: string, headers: Record<string, string> = {}) => {
+  const res = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body
+  });
+  return { status: res.status, headers: res.headers, body: await res.json() };
+};
+
+describe('createApp', () => {
+  it('analyzes a review under the API base path', async () => {
+    const { status, body } = await post('/analyze', JSON.stringify({ text: 'Great product, works well.' }));
+
+    expect(status).toBe(200);
+    expect(body.basic_analysis.label).toBe('Positive');
+  });
+
+  it('rejects a body that does not match the route schema with its issues', async () => {
+    const { status, body } = await post('/analyze', JSON.stringify({ text: '', useAdvanced: 'yes' }));
+
+    expect(status).toBe(400);
+    expect(body.code).toBe('INVALID_REQUEST');
+    expect(body.details.issues.map((issue: { path: string }) => issue.path)).toEqual(['body.text', 'body.useAdvanced']);
+  });
+
+  it('maps body parser failures onto the error envelope', async () => {
+    expect(await post('/analyze', '{"text":')).toMatchObject({ status: 400, body: { code: 'INVALID_REQUEST' } });
+    expect(await post('/analyze', JSON.stringify({ text: 'a'.repeat(2000) })))
+      .toMatchObject({ status: 413, body: { code: 'PAYLOAD_TOO_LARGE' } });
+  });
+
+  it('answers unknown routes with a 404 envelope', async () => {
+    expect(await post('/missing', '{}')).toMatchObject({ status: 404, body: { code: 'NOT_FOUND' } });
+  });
+
+  it('allows only the configured origins', async () => {
+    const allowed = await post('/analyze', JSON.stringify({ text: 'Great product, works well.' }), { Origin: 'https://shop.example' });
+    const other = await post('/analyze', JSON.stringify({ text: 'Great product, works well.' }), { Origin: 'https://elsewhere.example' });
+
+    expect(allowed.headers.get('access-control-allow-origin')).toBe('https://shop.example');
+    expect(other.headers.get('access-control-allow-origin')).toBeNull();
+  });
+
+  it('serves the OpenAPI document', async () => {
+    const document = await (await fetch(`${baseUrl}/openapi.json`)).json();
+
+    expect(document.openapi).toMatch(/^3\./);
+    expect(Object.keys(document.paths)).toEqual(expect.arrayContaining(['/analyze', '/compare']));
+  });
+
+  it('runs a submitted job and pages its results', async () => {
+    const reviews = ['Great product, works well.', 'Terrible, it broke after a week.', 'これは本当に素晴らしい製品です'];
+    const { status, body: job } = await post('/jobs', JSON.stringify({ reviews }));
+    expect(status).toBe(202);
+
+    await vi.waitFor(async () => {
+      expect((await (await fetch(`${baseUrl}/jobs/${job.id}`)).json()).status).toBe('completed');
+    });
+    const page = await (await fetch(`${baseUrl}/jobs/${job.id}/results?offset=1&limit=5`)).json();
+
+    expect(page).toMatchObject({ offset: 1, limit: 5, available: 3 });
+    expect(page.results.map((result: { verdict: { predicted_class: string } | null }) => result.verdict?.predicted_class ?? null))
+      .toEqual(['negative', null]);
+    expect(page.results.map((result: { keyphrases: unknown[] | null }) => result.keyphrases)).toEqual([[], null]);
+  });
+
+  it('answers an unknown job with a 404 envelope', async () => {
+    const res = await fetch(`${baseUrl}/jobs/unknown`);
+    expect(res.status).toBe(404);
+    expect((await res.json()).code).toBe('NOT_FOUND');
+  });
+});
+
+const stream = async (body: string, { query = '', headers = {} }: { query?: string; headers?: Record<string, string> } = {}) => {
+  const res = await fetch(`${baseUrl}/batch-analyze/stream${query}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-ndjson', ...headers },
+    body
+  });
+  return { status: res.status, type: res.headers.get('content-type'), text: await res.text() };
+};
+
+const ndjsonEvents = (text: string) => text.trim().split('\n').map(line => JSON.parse(line));
+
+describe('batch analyze stream', () => {
+  it('streams a result per review, an error per bad line and a closing aggregate', async () => {
+    const lines = [
+      JSON.stringify('Great product, works well.'),
+      '{not json',
+      '',
+      JSON.stringify({ text: 'Terrible, it broke. Mail me at jane@example.com' })
+    ];
+    const { status, type, text } = await stream(lines.join('\n'));
+    const events = ndjsonEvents(text);
+
+    expect(status).toBe(200);
+    expect(type).toMatch(/^application\/x-ndjson/);
+    expect(events.map(event => event.type)).toEqual(['result', 'error', 'result', 'aggregate']);
+    expect(events[0].result).toMatchObject({ index: 0, verdict: { predicted_class: 'positive' } });
+    expect(events[1].error).toMatchObject({ line: 2, code: 'INVALID_REQUEST' });
+    expect(events[2].result.index).toBe(1);
+    expect(events[3].aggregate).toMatchObject({ received: 2, analyzed: 2, errors: 1, redaction: { total: 1 } });
+  });
+
+  it('sends server-sent events when the client accepts them', async () => {
+    const { type, text } = await stream(JSON.stringify('Love it'), { headers: { Accept: 'text/event-stream' } });
+
+    expect(type).toMatch(/^text\/event-stream/);
+    expect(text.split('\n\n').filter(Boolean).map(event => event.split('\n')[0])).toEqual(['event: result', 'event: aggregate']);
+  });
+
+  it('leaves factual reviews out of the aggregate on request', async () => {
+    const lines = [JSON.stringify('Love it, excellent!'), JSON.stringify('The box contains a charger and a cable.')];
+    const { text } = await stream(lines.join('\n'), { query: '?excludeFactual=true' });
+    const events = ndjsonEvents(text);
+
+    expect(events[events.length - 1].aggregate).toMatchObject({ received: 2, analyzed: 2, aggregated_count: 1 });
+  });
+
+  it('ends the stream with an error when a line grows past the length limit', async () => {
+    const { status, text } = await stream(`"${'a'.repeat(MAX_STREAM_LINE_LENGTH + 1)}`);
+    const events = ndjsonEvents(text);
+
+    expect(status).toBe(200);
+    expect(events).toHaveLength(1);
+    expect(events[0].error).toMatchObject({ line: null, code: 'PAYLOAD_TOO_LARGE' });
+  });
+
+  it('rejects a body that is not NDJSON', async () => {
+    const res = await fetch(`${baseUrl}/batch-analyze/stream`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '[]'
+    });
+
+    expect(res.status).toBe(415);
+    expect((await res.json()).code).toBe('UNSUPPORTED_MEDIA_TYPE');
+  });
+});
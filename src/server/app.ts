@@ -0,0 +1,66 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { createRouter } from '../api/routes';
+import { ApiError, toApiError } from '../api/errors';
+import { ServerConfig } from './config';
+import { JobQueue } from './jobQueue';
+
+export const API_BASE_PATH = '/api';
+
+interface BodyParserError extends Error {
+  type?: string;
+}
+
+const allowCors = (origins: string[]) => (req: Request, res: Response, next: NextFunction) => {
+  const origin = req.headers.origin;
+  const anyOrigin = origins.includes('*');
+
+  if (origin && (anyOrigin || origins.includes(origin))) {
+    res.setHeader('Access-Control-Allow-Origin', anyOrigin ? '*' : origin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Max-Age', '600');
+  }
+  res.vary('Origin');
+
+  if (req.method === 'OPTIONS') {
+    res.sendStatus(204);
+    return;
+  }
+  next();
+};
+
+export const createApp = (config: ServerConfig) => {
+  const app = express();
+  const jobs = new JobQueue({ directory: config.jobsDir, concurrency: config.jobConcurrency });
+
+  app.disable('x-powered-by');
+  app.use(API_BASE_PATH, allowCors(config.corsOrigins));
+  app.use(API_BASE_PATH, express.json({ limit: config.bodyLimit }));
+  app.use(API_BASE_PATH, createRouter({
+    validateResponses: config.validateResponses,
+    jobs,
+    jobsInputDir: config.jobsInputDir
+  }));
+
+  app.use(API_BASE_PATH, (req: Request, res: Response) => {
+    const error = new ApiError(404, 'NOT_FOUND', `No route for ${req.method} ${API_BASE_PATH}${req.path}`);
+    res.status(error.status).json(error);
+  });
+
+  // Body parsing fails before any route runs, so its errors are mapped onto the envelope here
+  app.use((error: BodyParserError, _req: Request, res: Response, next: NextFunction) => {
+    if (res.headersSent) {
+      next(error);
+      return;
+    }
+
+    const apiError = error.type === 'entity.too.large'
+      ? new ApiError(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds the ${config.bodyLimit} limit`)
+      : error.type === 'entity.parse.failed'
+        ? new ApiError(400, 'INVALID_REQUEST', 'Invalid input: body is not valid JSON', { reason: error.message })
+        : toApiError(error, 'Request failed');
+    res.status(apiError.status).json(apiError);
+  });
+
+  return { app, jobs };
+};
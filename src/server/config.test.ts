@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SERVER_CONFIG, readServerConfigFromEnv } from './config';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('readServerConfigFromEnv', () => {
+  it('uses the defaults outside production for an empty environment', () => {
+    expect(readServerConfigFromEnv({})).toEqual(DEFAULT_SERVER_CONFIG);
+  });
+
+  it('reads every setting from the environment', () => {
+    const config = readServerConfigFromEnv({
+      PORT: '8080',
+      HOST: '127.0.0.1',
+      API_BODY_LIMIT: '5mb',
+      CORS_ORIGINS: 'https://a.example/, https://b.example',
+      SHUTDOWN_TIMEOUT_MS: '2000',
+      NODE_ENV: 'production',
+      JOBS_DIR: '/var/jobs',
+      JOB_CONCURRENCY: '4',
+      JOBS_INPUT_DIR: '/data'
+    });
+
+    expect(config).toEqual({
+      port: 8080,
+      host: '127.0.0.1',
+      bodyLimit: '5mb',
+      corsOrigins: ['https://a.example', 'https://b.example'],
+      shutdownTimeoutMs: 2000,
+      validateResponses: false,
+      jobsDir: '/var/jobs',
+      jobConcurrency: 4,
+      jobsInputDir: '/data'
+    });
+  });
+
+  it('falls back with a warning on invalid values', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const config = readServerConfigFromEnv({ PORT: '70000', API_BODY_LIMIT: 'lots', JOB_CONCURRENCY: '1.5' });
+
+    expect(config).toMatchObject({ port: 3000, bodyLimit: '1mb', jobConcurrency: 1 });
+    expect(warn).toHaveBeenCalledTimes(3);
+  });
+
+  it('lets API_VALIDATE_RESPONSES override the environment default', () => {
+    expect(readServerConfigFromEnv({ NODE_ENV: 'production', API_VALIDATE_RESPONSES: 'true' }).validateResponses).toBe(true);
+    expect(readServerConfigFromEnv({ API_VALIDATE_RESPONSES: 'false' }).validateResponses).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+export interface ServerConfig {
+  port: number;
+  host: string;
+  bodyLimit: string;
+  corsOrigins: string[];
+  shutdownTimeoutMs: number;
+  validateResponses: boolean;
+  jobsDir: string;
+  jobConcurrency: number;
+  // Directory that file-based jobs may read from; null disables them
+  jobsInputDir: string | null;
+}
+
+export const DEFAULT_SERVER_CONFIG: ServerConfig = {
+  port: 3000,
+  host: '0.0.0.0',
+  bodyLimit: '1mb',
+  corsOrigins: [],
+  shutdownTimeoutMs: 10000,
+  validateResponses: true,
+  jobsDir: '.jobs',
+  jobConcurrency: 1,
+  jobsInputDir: null
+};
+
+const BODY_LIMIT_PATTERN = /^\d+(?:\.\d+)?\s*(?:b|kb|mb|gb)?$/i;
+
+const readInteger = (name: string, raw: string | undefined, fallback: number, min: number, max: number): number => {
+  if (!raw) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    console.warn(`Invalid ${name} "${raw}", using ${fallback}`);
+    return fallback;
+  }
+  return value;
+};
+
+export const readServerConfigFromEnv = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+  let bodyLimit = env.API_BODY_LIMIT || DEFAULT_SERVER_CONFIG.bodyLimit;
+  if (!BODY_LIMIT_PATTERN.test(bodyLimit)) {
+    console.warn(`Invalid API_BODY_LIMIT "${bodyLimit}", using ${DEFAULT_SERVER_CONFIG.bodyLimit}`);
+    bodyLimit = DEFAULT_SERVER_CONFIG.bodyLimit;
+  }
+
+  return {
+    port: readInteger('PORT', env.PORT, DEFAULT_SERVER_CONFIG.port, 0, 65535),
+    host: env.HOST || DEFAULT_SERVER_CONFIG.host,
+    bodyLimit,
+    // Comma-separated list of allowed origins, or * for any; empty means same-origin only (e.g. behind the Vite proxy)
+    corsOrigins: (env.CORS_ORIGINS || '')
+      .split(',')
+      .map(origin => origin.trim().replace(/\/$/, ''))
+      .filter(Boolean),
+    shutdownTimeoutMs: readInteger(
+      'SHUTDOWN_TIMEOUT_MS',
+      env.SHUTDOWN_TIMEOUT_MS,
+      DEFAULT_SERVER_CONFIG.shutdownTimeoutMs,
+      0,
+      10 * 60 * 1000
+    ),
+    validateResponses: env.API_VALIDATE_RESPONSES
+      ? env.API_VALIDATE_RESPONSES === 'true'
+      : env.NODE_ENV !== 'production',
+    jobsDir: env.JOBS_DIR || DEFAULT_SERVER_CONFIG.jobsDir,
+    jobConcurrency: readInteger('JOB_CONCURRENCY', env.JOB_CONCURRENCY, DEFAULT_SERVER_CONFIG.jobConcurrency, 1, 16),
+    jobsInputDir: env.JOBS_INPUT_DIR || DEFAULT_SERVER_CONFIG.jobsInputDir
+  };
+};
@@ -0,0 +1,46 @@
+import { createApp, API_BASE_PATH } from './app';
+import { readServerConfigFromEnv } from './config';
+
+const config = readServerConfigFromEnv();
+const { app, jobs } = createApp(config);
+
+const server = app.listen(config.port, config.host, error => {
+  if (error) {
+    console.error(`Could not start the API server: ${error.message}`);
+    process.exit(1);
+  }
+  console.log(`API listening on http://${config.host}:${config.port}${API_BASE_PATH}`);
+});
+
+let shuttingDown = false;
+
+// Stop accepting connections, let in-flight requests finish, and force the
+// remaining keep-alive sockets closed once the timeout expires; running jobs
+// pause after their current slice and resume on the next start
+const shutdown = (signal: NodeJS.Signals) => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`${signal} received, shutting down`);
+
+  const timer = setTimeout(() => {
+    console.warn(`Requests still open after ${config.shutdownTimeoutMs}ms, closing them`);
+    server.closeAllConnections();
+  }, config.shutdownTimeoutMs);
+  timer.unref();
+
+  const closed = new Promise<void>((resolve, reject) => {
+    server.close(error => (error ? reject(error) : resolve()));
+  });
+  server.closeIdleConnections();
+
+  Promise.all([closed, jobs.stop()]).then(
+    () => process.exit(0),
+    (error: Error) => {
+      console.error(`Shutdown failed: ${error.message}`);
+      process.exit(1);
+    }
+  );
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,88 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { JobOptions, ReviewResult } from '../api/contract';
+import { reviewFromText } from '../utils/reviewRecord';
+import { JobProcessor, JobQueue, JobSubmission } from './jobQueue';
+
+const submission = (count: number): JobSubmission => ({
+  reviews: Array.from({ length: count }, (_, idx) => reviewFromText(`Review ${idx}`)),
+  source: { type: 'reviews', path: null, rows: count, malformed_count: 0, malformed: [] },
+  options: {} as JobOptions,
+  redaction: null
+});
+
+// Reviews are skipped rather than analyzed, which keeps the aggregates out of these tests
+const skip: JobProcessor = (_review, index) => ({ index, basic_analysis: null, verdict: null }) as ReviewResult;
+
+let root: string;
+let queue: JobQueue;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'queue-'));
+  queue = new JobQueue({ directory: root, concurrency: 1 });
+});
+
+afterEach(async () => {
+  await queue.stop();
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('JobQueue', () => {
+  it('holds jobs until started and then processes them in slices', async () => {
+    const job = queue.submit(submission(60));
+    expect(queue.get(job.id)?.status).toBe('queued');
+
+    queue.start(skip);
+    await vi.waitFor(() => expect(job.status).toBe('completed'));
+
+    expect(job.progress).toEqual({ total: 60, processed: 60, analyzed: 0, skipped: 60, percentage: 100 });
+    expect(queue.results(job, 55, 10).map(result => result.index)).toEqual([55, 56, 57, 58, 59]);
+  });
+
+  it('records a processor failure on the job', async () => {
+    const job = queue.submit(submission(3));
+    queue.start(() => {
+      throw new Error('model crashed');
+    });
+
+    await vi.waitFor(() => expect(job.status).toBe('failed'));
+    expect(job.error).toBe('model crashed');
+  });
+
+  it('cancels a queued job before it runs', async () => {
+    const job = queue.submit(submission(3));
+    queue.cancel(job);
+    queue.start(skip);
+
+    expect(job.status).toBe('cancelled');
+    expect(queue.results(job, 0, 10)).toEqual([]);
+  });
+
+  it('resumes unfinished jobs from their saved progress after a restart', async () => {
+    const job = queue.submit(submission(60));
+    let stopped: Promise<void> | null = null;
+    // Stopping during the first slice lets that slice finish and be saved
+    queue.start((review, index, options) => {
+      stopped ??= queue.stop();
+      return skip(review, index, options);
+    });
+    await vi.waitFor(() => expect(stopped).not.toBeNull());
+    await stopped;
+    expect(job.progress.processed).toBe(25);
+
+    queue = new JobQueue({ directory: root, concurrency: 1 });
+    const resumed = queue.get(job.id);
+    expect(resumed?.status).toBe('queued');
+
+    const processed: number[] = [];
+    queue.start((review, index, options) => {
+      processed.push(index);
+      return skip(review, index, options);
+    });
+    await vi.waitFor(() => expect(resumed?.status).toBe('completed'));
+    expect(queue.results(resumed!, 0, 100).map(result => result.index)).toEqual(Array.from({ length: 60 }, (_, idx) => idx));
+    expect(processed[0]).toBe(25);
+  });
+});
@@ -0,0 +1,189 @@
+import { randomUUID } from 'node:crypto';
+import { JobOptions, JobRecord, JobStatus, ReviewResult } from '../api/contract';
+import { aggregateResults, mergeAggregates } from '../utils/sentimentAnalyzer';
+import { aggregateVerdicts } from '../utils/ensemble';
+import { Review } from '../utils/reviewRecord';
+import {
+  appendJobResults,
+  createJobFiles,
+  loadJobInput,
+  loadJobs,
+  readJobResults,
+  saveJob,
+  trimJobResults
+} from './jobStore';
+
+export type JobProcessor = (review: Review, index: number, options: JobOptions) => ReviewResult;
+
+export interface JobSubmission {
+  reviews: Review[];
+  source: JobRecord['source'];
+  options: JobOptions;
+  redaction: JobRecord['redaction'];
+}
+
+export interface JobQueueOptions {
+  directory: string;
+  concurrency: number;
+}
+
+// Reviews analyzed between yields to the event loop, and between progress saves
+const SLICE_SIZE = 25;
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export const isFinished = (job: JobRecord) => FINISHED_STATUSES.includes(job.status);
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setImmediate(resolve));
+
+export class JobQueue {
+  private readonly directory: string;
+  private readonly concurrency: number;
+  private readonly jobs = new Map<string, JobRecord>();
+  private readonly pending: string[] = [];
+  private readonly running = new Map<string, Promise<void>>();
+  private processor: JobProcessor | null = null;
+  private stopping = false;
+
+  constructor(options: JobQueueOptions) {
+    this.directory = options.directory;
+    this.concurrency = options.concurrency;
+
+    // Jobs interrupted by a restart resume from their last saved progress
+    const persisted = loadJobs(this.directory).sort((a, b) => a.created_at.localeCompare(b.created_at));
+    for (const job of persisted) {
+      this.jobs.set(job.id, job);
+      if (!isFinished(job)) {
+        job.status = 'queued';
+        this.pending.push(job.id);
+      }
+    }
+  }
+
+  // Jobs wait until the analyzers are ready
+  start(processor: JobProcessor) {
+    this.processor = processor;
+    this.schedule();
+  }
+
+  submit(submission: JobSubmission): JobRecord {
+    const job: JobRecord = {
+      id: randomUUID(),
+      status: 'queued',
+      created_at: new Date().toISOString(),
+      started_at: null,
+      finished_at: null,
+      source: submission.source,
+      options: submission.options,
+      progress: { total: submission.reviews.length, processed: 0, analyzed: 0, skipped: 0, percentage: 0 },
+      aggregates: { basic: aggregateResults([]), verdict: aggregateVerdicts([]) },
+      redaction: submission.redaction,
+      error: null
+    };
+
+    createJobFiles(this.directory, job, submission.reviews);
+    this.jobs.set(job.id, job);
+    this.pending.push(job.id);
+    this.schedule();
+    return job;
+  }
+
+  get(id: string): JobRecord | null {
+    return this.jobs.get(id) ?? null;
+  }
+
+  results(job: JobRecord, offset: number, limit: number): ReviewResult[] {
+    const available = Math.min(limit, job.progress.processed - offset);
+    return available > 0 ? readJobResults(this.directory, job.id, offset, available) : [];
+  }
+
+  // A running job stops after its current slice; results written so far are kept
+  cancel(job: JobRecord): JobRecord {
+    const position = this.pending.indexOf(job.id);
+    if (position >= 0) this.pending.splice(position, 1);
+
+    this.finish(job, 'cancelled');
+    return job;
+  }
+
+  // Running jobs pause at the next slice and stay persisted as unfinished, so the next start resumes them
+  async stop() {
+    this.stopping = true;
+    await Promise.all(this.running.values());
+  }
+
+  private schedule() {
+    while (this.processor && !this.stopping && this.running.size < this.concurrency && this.pending.length > 0) {
+      const id = this.pending.shift() as string;
+      const run = this.run(this.jobs.get(id) as JobRecord, this.processor).finally(() => {
+        this.running.delete(id);
+        this.schedule();
+      });
+      this.running.set(id, run);
+    }
+  }
+
+  private async run(job: JobRecord, processor: JobProcessor) {
+    try {
+      const reviews = loadJobInput(this.directory, job.id);
+      trimJobResults(this.directory, job.id, job.progress.processed);
+
+      job.status = 'running';
+      job.started_at ??= new Date().toISOString();
+      saveJob(this.directory, job);
+
+      while (job.status === 'running' && job.progress.processed < reviews.length) {
+        await yieldToEventLoop();
+        if (this.stopping) return;
+        // Cancelled while waiting for the event loop
+        if (job.status !== 'running') return;
+
+        const start = job.progress.processed;
+        const results = reviews
+          .slice(start, start + SLICE_SIZE)
+          .map((review, idx) => processor(review, start + idx, job.options));
+
+        appendJobResults(this.directory, job.id, start, results);
+        this.record(job, results);
+        saveJob(this.directory, job);
+      }
+
+      if (job.status === 'running') this.finish(job, 'completed');
+    } catch (error) {
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+      this.finish(job, 'failed');
+    }
+  }
+
+  private record(job: JobRecord, results: ReviewResult[]) {
+    const analyzed = results.filter(result => result.basic_analysis && result.verdict);
+    // Purely factual reviews are left out of the aggregates when the job asks for it
+    const included = analyzed.filter(result => !job.options.excludeFactual || !result.factual);
+
+    job.aggregates = {
+      basic: mergeAggregates(
+        job.aggregates.basic,
+        aggregateResults(included.flatMap(result => (result.basic_analysis ? [result.basic_analysis] : [])))
+      ),
+      verdict: mergeAggregates(
+        job.aggregates.verdict,
+        aggregateVerdicts(included.flatMap(result => (result.verdict ? [result.verdict] : [])))
+      )
+    };
+
+    const processed = job.progress.processed + results.length;
+    job.progress = {
+      total: job.progress.total,
+      processed,
+      analyzed: job.progress.analyzed + analyzed.length,
+      skipped: job.progress.skipped + results.length - analyzed.length,
+      percentage: job.progress.total ? (processed / job.progress.total) * 100 : 100
+    };
+  }
+
+  private finish(job: JobRecord, status: JobStatus) {
+    job.status = status;
+    job.finished_at = new Date().toISOString();
+    saveJob(this.directory, job);
+  }
+}
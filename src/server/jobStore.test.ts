@@ -0,0 +1,53 @@
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { JobRecord, ReviewResult } from '../api/contract';
+import { reviewFromText } from '../utils/reviewRecord';
+import {
+  appendJobResults,
+  createJobFiles,
+  loadJobInput,
+  readJobResults,
+  RESULTS_PAGE_SIZE,
+  trimJobResults
+} from './jobStore';
+
+const job = { id: 'job-1' } as JobRecord;
+const results = (from: number, count: number) =>
+  Array.from({ length: count }, (_, idx) => ({ index: from + idx }) as ReviewResult);
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'jobs-'));
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('jobStore', () => {
+  it('keeps review metadata in the stored job input', () => {
+    const reviews = [{ ...reviewFromText('Works great'), rating: 5, productId: 'B000123', timestamp: '2024-05-01T00:00:00.000Z' }];
+    createJobFiles(root, job, reviews);
+
+    expect(loadJobInput(root, job.id)).toEqual(reviews);
+  });
+
+  it('reads results back across page boundaries', () => {
+    createJobFiles(root, job, []);
+    appendJobResults(root, job.id, 0, results(0, RESULTS_PAGE_SIZE + 10));
+
+    const page = readJobResults(root, job.id, RESULTS_PAGE_SIZE - 5, 10);
+    expect(page.map(result => result.index)).toEqual(results(RESULTS_PAGE_SIZE - 5, 10).map(result => result.index));
+  });
+
+  it('drops results written past the saved progress', () => {
+    createJobFiles(root, job, []);
+    appendJobResults(root, job.id, 0, results(0, RESULTS_PAGE_SIZE + 10));
+    trimJobResults(root, job.id, RESULTS_PAGE_SIZE - 1);
+
+    expect(readJobResults(root, job.id, 0, RESULTS_PAGE_SIZE * 2)).toHaveLength(RESULTS_PAGE_SIZE - 1);
+  });
+});
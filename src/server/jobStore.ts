@@ -0,0 +1,99 @@
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  rmSync,
+  writeFileSync
+} from 'node:fs';
+import { join } from 'node:path';
+import { JobRecord, ReviewResult } from '../api/contract';
+import { Review } from '../utils/reviewRecord';
+
+// Layout per job: <root>/<id>/job.json, input.json and results/<page>.ndjson
+export const RESULTS_PAGE_SIZE = 500;
+
+const jobPath = (root: string, id: string, ...parts: string[]) => join(root, id, ...parts);
+
+const pagePath = (root: string, id: string, page: number) => jobPath(root, id, 'results', `${page}.ndjson`);
+
+// A crash mid-write leaves the previous job.json in place rather than a truncated one
+const writeJsonAtomic = (path: string, value: unknown) => {
+  const temporary = `${path}.tmp`;
+  writeFileSync(temporary, JSON.stringify(value));
+  renameSync(temporary, path);
+};
+
+const readPage = (root: string, id: string, page: number): string[] => {
+  const path = pagePath(root, id, page);
+  if (!existsSync(path)) return [];
+  return readFileSync(path, 'utf8').split('\n').filter(Boolean);
+};
+
+export const saveJob = (root: string, job: JobRecord) => {
+  writeJsonAtomic(jobPath(root, job.id, 'job.json'), job);
+};
+
+// Reviews are stored after redaction, so no raw PII reaches the disk
+export const createJobFiles = (root: string, job: JobRecord, reviews: Review[]) => {
+  mkdirSync(jobPath(root, job.id, 'results'), { recursive: true });
+  writeJsonAtomic(jobPath(root, job.id, 'input.json'), reviews);
+  saveJob(root, job);
+};
+
+export const loadJobs = (root: string): JobRecord[] => {
+  if (!existsSync(root)) return [];
+
+  return readdirSync(root, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .flatMap(entry => {
+      try {
+        return [JSON.parse(readFileSync(jobPath(root, entry.name, 'job.json'), 'utf8')) as JobRecord];
+      } catch (error) {
+        console.warn(`Skipping job ${entry.name}: ${error instanceof Error ? error.message : 'unreadable'}`);
+        return [];
+      }
+    });
+};
+
+export const loadJobInput = (root: string, id: string): Review[] =>
+  JSON.parse(readFileSync(jobPath(root, id, 'input.json'), 'utf8')) as Review[];
+
+export const appendJobResults = (root: string, id: string, offset: number, results: ReviewResult[]) => {
+  const pages = new Map<number, string>();
+  results.forEach((result, idx) => {
+    const page = Math.floor((offset + idx) / RESULTS_PAGE_SIZE);
+    pages.set(page, `${pages.get(page) ?? ''}${JSON.stringify(result)}\n`);
+  });
+
+  for (const [page, lines] of pages) {
+    appendFileSync(pagePath(root, id, page), lines);
+  }
+};
+
+export const readJobResults = (root: string, id: string, offset: number, limit: number): ReviewResult[] => {
+  const results: ReviewResult[] = [];
+
+  for (let page = Math.floor(offset / RESULTS_PAGE_SIZE); results.length < limit; page++) {
+    const lines = readPage(root, id, page);
+    if (lines.length === 0) break;
+
+    const start = Math.max(0, offset - page * RESULTS_PAGE_SIZE);
+    results.push(...lines.slice(start, start + limit - results.length).map(line => JSON.parse(line)));
+  }
+
+  return results;
+};
+
+// Drops results written after the last saved progress, e.g. when the process died between the two writes
+export const trimJobResults = (root: string, id: string, count: number) => {
+  const lastPage = Math.floor(count / RESULTS_PAGE_SIZE);
+  const kept = readPage(root, id, lastPage).slice(0, count - lastPage * RESULTS_PAGE_SIZE);
+  writeFileSync(pagePath(root, id, lastPage), kept.map(line => `${line}\n`).join(''));
+
+  for (const name of readdirSync(jobPath(root, id, 'results'))) {
+    if (parseInt(name, 10) > lastPage) rmSync(jobPath(root, id, 'results', name));
+  }
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { advancedPreprocess, lemmatizeWord, stemToken } from './advancedPreprocessing';
+
+describe('advancedPreprocess', () => {
+  it('runs every enabled stage in order', () => {
+    const result = advancedPreprocess('Check https://example.com, it is SOOO gr8!!');
+
+    expect(result.stages).toEqual(['denoise', 'clean', 'normalize', 'tokenize', 'stopWords', 'lemmatize', 'features']);
+    expect(result.cleaned).not.toContain('https');
+    expect(result.tokens).toEqual(['check', 'so', 'great']);
+    expect(result.substitutions.map(s => s.type)).toEqual(expect.arrayContaining(['elongation', 'abbreviation']));
+  });
+
+  it('skips disabled stages and falls back to whitespace tokens without the tokenizer', () => {
+    const result = advancedPreprocess('The Battery died.', {
+      tokenize: false,
+      removeStopWords: false,
+      lemmatize: false,
+      extractFeatures: false
+    });
+
+    expect(result.stages).toEqual(['denoise', 'clean', 'normalize']);
+    expect(result.tokens).toEqual(['the', 'battery', 'died.']);
+    expect(result.features).toBeNull();
+    expect(result.metadata).toBeNull();
+  });
+
+  it('uses the stop words of the requested language and skips English-only stages', () => {
+    const result = advancedPreprocess('Las baterías son malas', { stem: true }, 'es');
+
+    expect(result.tokens).toEqual(['baterías', 'son', 'malas']);
+    expect(result.stages).not.toContain('lemmatize');
+    expect(result.stems).toBeNull();
+  });
+});
+
+describe('lemmatization and stemming', () => {
+  it('lemmatizes irregular forms using the sentence as context', () => {
+    const result = advancedPreprocess('The batteries were dying quickly and the mice stopped working');
+    expect(result.lemmatized).toEqual(expect.arrayContaining(['battery', 'die', 'quick', 'mouse', 'stop', 'work']));
+  });
+
+  it('lemmatizes single words outside a sentence', () => {
+    expect(['better', 'charging', 'running'].map(lemmatizeWord)).toEqual(['good', 'charge', 'run']);
+  });
+
+  it('stems the lemmas with the configured stemmer', () => {
+    const porter = advancedPreprocess('connections failing', { stem: true });
+    const lancaster = advancedPreprocess('connections failing', { stem: true, stemmer: 'lancaster' });
+
+    expect(porter.stems).toEqual(['connect', 'fail']);
+    expect(lancaster.stems).toEqual(['connect', 'fail']);
+    expect(stemToken('generously', 'porter')).toBe('gener');
+    expect(stemToken('generously', 'lancaster')).toBe('gen');
+  });
+});
@@ -1,13 +1,44 @@
+import nlp from 'compromise';
+import porterStemmer from 'natural/lib/natural/stemmers/porter_stemmer.js';
+import lancasterStemmer from 'natural/lib/natural/stemmers/lancaster_stemmer.js';
+import { segmentSentences } from './sentenceSegmenter';
+import { detectLanguage } from './languageDetector';
+import { getLanguageResources, DEFAULT_LANGUAGE } from './languageResources';
+import { normalizeEmoji, summarizeEmoji, EmojiSummary, EMOJI_CLASS } from './emojiNormalizer';
+import { normalizeNoisyText, countElongations, Substitution } from './textNormalizer';
+import { analyzeSubjectivity } from './subjectivityAnalyzer';
+
+export type PipelineStageName = 'denoise' | 'clean' | 'normalize' | 'tokenize' | 'stopWords' | 'lemmatize' | 'stem' | 'features';
+
+export type StemmerName = 'porter' | 'lancaster';
+
+export const STEMMERS: StemmerName[] = ['porter', 'lancaster'];
+
+export interface PreprocessingOptions {
+  denoise: boolean;
+  clean: boolean;
+  normalize: boolean;
+  tokenize: boolean;
+  removeStopWords: boolean;
+  lemmatize: boolean;
+  stem: boolean;
+  stemmer: StemmerName;
+  extractFeatures: boolean;
+}
+
 export interface PreprocessedData {
   original: string;
   cleaned: string;
   tokens: string[];
   lemmatized: string[];
-  features: TextFeatures;
-  metadata: TextMetadata;
+  stems: string[] | null;
+  features: TextFeatures | null;
+  metadata: TextMetadata | null;
+  substitutions: Substitution[];
+  stages: PipelineStageName[];
 }
 
-export interface TextFeatures {
+export interface TextFeatures extends EmojiSummary {
   wordCount: number;
   sentenceCount: number;
   avgWordLength: number;
@@ -18,95 +49,254 @@ export interface TextFeatures {
   uppercaseRatio: number;
   exclamationCount: number;
   questionCount: number;
+  elongatedWordCount: number;
 }
 
 export interface TextMetadata {
   language: string;
+  languageConfidence: number;
   readabilityScore: number;
   emotionalIntensity: number;
   subjectivity: number;
 }
 
-const STOP_WORDS = new Set([
-  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from',
-  'has', 'he', 'in', 'is', 'it', 'its', 'of', 'on', 'that', 'the',
-  'to', 'was', 'will', 'with', 'i', 'me', 'my', 'we', 'our', 'you',
-  'your', 'they', 'them', 'this', 'these', 'those', 'but', 'or', 'not',
-  'can', 'could', 'should', 'would', 'may', 'might', 'must', 'have'
-]);
-
-const LEMMA_MAP: Record<string, string> = {
-  'amazing': 'amaze', 'amazing': 'amaze', 'amazed': 'amaze',
-  'terrible': 'terrible', 'terribly': 'terrible',
-  'good': 'good', 'better': 'good', 'best': 'good',
-  'bad': 'bad', 'worse': 'bad', 'worst': 'bad',
-  'happy': 'happy', 'happily': 'happy',
-  'sad': 'sad', 'sadly': 'sad',
-  'running': 'run', 'runs': 'run',
-  'walked': 'walk', 'walking': 'walk', 'walks': 'walk',
-  'bought': 'buy', 'buying': 'buy', 'buys': 'buy',
-  'broken': 'break', 'breaking': 'break',
-  'works': 'work', 'working': 'work', 'worked': 'work',
-  'loved': 'love', 'loves': 'love', 'loving': 'love',
-  'hated': 'hate', 'hates': 'hate', 'hating': 'hate',
-  'recommend': 'recommend', 'recommended': 'recommend', 'recommends': 'recommend'
+interface PipelineState {
+  language: string;
+  original: string;
+  text: string;
+  tokens: string[];
+  filtered: string[];
+  lemmatized: string[];
+  stems: string[] | null;
+  features: TextFeatures | null;
+  metadata: TextMetadata | null;
+  substitutions: Substitution[];
+}
+
+interface PipelineStage {
+  name: PipelineStageName;
+  option: Exclude<keyof PreprocessingOptions, 'stemmer'>;
+  languages?: string[];
+  run: (state: PipelineState, options: PreprocessingOptions) => PipelineState;
+  fallback?: (state: PipelineState) => PipelineState;
+}
+
+interface CompromiseTerm {
+  normal: string;
+  root?: string;
+}
+
+export const DEFAULT_PREPROCESSING_OPTIONS: PreprocessingOptions = {
+  denoise: true,
+  clean: true,
+  normalize: true,
+  tokenize: true,
+  removeStopWords: true,
+  lemmatize: true,
+  stem: false,
+  stemmer: 'porter',
+  extractFeatures: true
 };
 
-export const advancedPreprocess = (text: string): PreprocessedData => {
-  const original = text;
+export const PREPROCESSING_OPTION_NAMES = Object.keys(DEFAULT_PREPROCESSING_OPTIONS) as (keyof PreprocessingOptions)[];
 
-  const cleaned = cleanText(text);
-  const tokens = tokenize(cleaned);
-  const filtered = tokens.filter(t => !STOP_WORDS.has(t.toLowerCase()));
-  const lemmatized = filtered.map(t => getLemma(t));
+const STEMMER_IMPLEMENTATIONS: Record<StemmerName, { stem: (token: string) => string }> = {
+  porter: porterStemmer,
+  lancaster: lancasterStemmer
+};
+
+const EMOJI_TOKEN = new RegExp(EMOJI_CLASS, 'gu');
+const NON_TEXT_CHARACTERS = new RegExp(`(?!${EMOJI_CLASS})[^\\p{L}\\p{M}\\p{N}_\\s.!?-]`, 'gu');
+const TOKEN_EDGES = new RegExp(`^(?:(?!${EMOJI_CLASS})[^\\p{L}\\p{M}\\p{N}_])+|(?:(?!${EMOJI_CLASS})[^\\p{L}\\p{M}\\p{N}_])+$`, 'gu');
+
+const WORD_LEMMA_CACHE = new Map<string, string>();
+
+const withTokens = (state: PipelineState, tokens: string[]): PipelineState => ({
+  ...state,
+  tokens,
+  filtered: tokens,
+  lemmatized: tokens
+});
+
+const PIPELINE: PipelineStage[] = [
+  {
+    name: 'denoise',
+    option: 'denoise',
+    run: state => {
+      const { text, substitutions } = normalizeNoisyText(state.text, state.language);
+      return { ...state, text, substitutions };
+    }
+  },
+  { name: 'clean', option: 'clean', run: state => ({ ...state, text: cleanText(state.text) }) },
+  { name: 'normalize', option: 'normalize', run: state => ({ ...state, text: normalizeText(state.text) }) },
+  {
+    name: 'tokenize',
+    option: 'tokenize',
+    run: state => withTokens(state, tokenize(state.text)),
+    fallback: state => withTokens(state, state.text.split(/\s+/).filter(t => t.length > 0))
+  },
+  {
+    name: 'stopWords',
+    option: 'removeStopWords',
+    run: state => {
+      const { stopWords } = getLanguageResources(state.language);
+      const filtered = state.filtered.filter(t => !stopWords.has(t.toLowerCase()));
+      return { ...state, filtered, lemmatized: filtered };
+    }
+  },
+  {
+    name: 'lemmatize',
+    option: 'lemmatize',
+    languages: [DEFAULT_LANGUAGE],
+    run: state => ({ ...state, lemmatized: lemmatizeTokens(state.filtered, state.tokens.join(' ')) })
+  },
+  {
+    name: 'stem',
+    option: 'stem',
+    languages: [DEFAULT_LANGUAGE],
+    run: (state, options) => ({ ...state, stems: state.lemmatized.map(t => stemToken(t, options.stemmer)) })
+  },
+  {
+    name: 'features',
+    option: 'extractFeatures',
+    run: state => ({
+      ...state,
+      features: extractAdvancedFeatures(state.original, state.tokens),
+      metadata: extractMetadata(state.original, state.text, state.language)
+    })
+  }
+];
+
+export const advancedPreprocess = (
+  text: string,
+  options: Partial<PreprocessingOptions> = {},
+  language = DEFAULT_LANGUAGE
+): PreprocessedData => {
+  const config = { ...DEFAULT_PREPROCESSING_OPTIONS, ...options };
+
+  let state: PipelineState = {
+    language,
+    original: text,
+    text,
+    tokens: [],
+    filtered: [],
+    lemmatized: [],
+    stems: null,
+    features: null,
+    metadata: null,
+    substitutions: []
+  };
+  const stages: PipelineStageName[] = [];
 
-  const features = extractAdvancedFeatures(original, tokens);
-  const metadata = extractMetadata(original, cleaned);
+  for (const stage of PIPELINE) {
+    if (stage.languages && !stage.languages.includes(language)) continue;
+
+    if (config[stage.option]) {
+      state = stage.run(state, config);
+      stages.push(stage.name);
+    } else if (stage.fallback) {
+      state = stage.fallback(state);
+    }
+  }
 
   return {
-    original,
-    cleaned,
-    tokens: filtered,
-    lemmatized,
-    features,
-    metadata
+    original: state.original,
+    cleaned: state.text,
+    tokens: state.filtered,
+    lemmatized: state.lemmatized,
+    stems: state.stems,
+    features: state.features,
+    metadata: state.metadata,
+    substitutions: state.substitutions,
+    stages
   };
 };
 
 const cleanText = (text: string): string => {
-  let cleaned = text.toLowerCase();
+  let cleaned = normalizeEmoji(text);
 
   cleaned = cleaned.replace(/https?:\/\/\S+/g, '');
   cleaned = cleaned.replace(/@\w+/g, '');
   cleaned = cleaned.replace(/#\w+/g, '');
 
-  cleaned = cleaned.replace(/\b(\w+)(\1{2,})\b/g, '$1');
+  cleaned = cleaned.replace(NON_TEXT_CHARACTERS, ' ');
+  cleaned = cleaned.replace(EMOJI_TOKEN, ' $& ');
+
+  return cleaned.replace(/\s+/g, ' ').trim();
+};
 
-  cleaned = cleaned.replace(/[^\w\s.!?-]/g, ' ');
+const normalizeText = (text: string): string => {
+  let normalized = text.toLowerCase();
 
-  cleaned = cleaned.replace(/\s+/g, ' ').trim();
+  normalized = normalized.replace(/\b(\w+)(\1{2,})\b/g, '$1');
 
-  return cleaned;
+  return normalized.replace(/\s+/g, ' ').trim();
 };
 
 const tokenize = (text: string): string[] => {
-  const sentences = text.split(/[.!?]+/).filter(s => s.trim());
   const tokens: string[] = [];
 
-  for (const sentence of sentences) {
-    const words = sentence.trim().split(/\s+/);
+  for (const sentence of segmentSentences(text)) {
+    const words = sentence.text
+      .replace(/[.!?]+/g, ' ')
+      .trim()
+      .split(/\s+/)
+      .map(w => w.replace(TOKEN_EDGES, ''));
     tokens.push(...words.filter(w => w.length > 0));
   }
 
   return tokens;
 };
 
-const getLemma = (word: string): string => {
-  return LEMMA_MAP[word.toLowerCase()] || word.toLowerCase();
+export const lemmatizeTokens = (tokens: string[], context = tokens.join(' ')): string[] => {
+  const doc = nlp(context);
+  doc.compute('root');
+
+  const roots = new Map<string, string[]>();
+  for (const sentence of doc.json({ terms: { normal: true } }) as { terms: CompromiseTerm[] }[]) {
+    for (const term of sentence.terms) {
+      const queue = roots.get(term.normal) ?? [];
+      queue.push(term.root || term.normal);
+      roots.set(term.normal, queue);
+    }
+  }
+
+  return tokens.map(token => {
+    const word = token.toLowerCase();
+    const queue = roots.get(word);
+    if (!queue || queue.length === 0) return word;
+    return queue.length > 1 ? queue.shift() as string : queue[0];
+  });
 };
 
+const participleRoot = (word: string): string | null => {
+  if (!/(ed|ing)$/.test(word)) return null;
+
+  const doc = nlp(word);
+  doc.tag(word.endsWith('ing') ? 'Gerund' : 'PastTense');
+  doc.compute('root');
+  const [sentence] = doc.json({ terms: { normal: true } }) as { terms: CompromiseTerm[] }[];
+  const root = sentence?.terms[0]?.root;
+
+  return root && nlp(root).has('#Infinitive') ? root : null;
+};
+
+export const lemmatizeWord = (word: string): string => {
+  const key = word.toLowerCase();
+  let lemma = WORD_LEMMA_CACHE.get(key);
+  if (lemma === undefined) {
+    lemma = lemmatizeTokens([key])[0];
+    if (lemma === key) lemma = participleRoot(key) ?? key;
+    WORD_LEMMA_CACHE.set(key, lemma);
+  }
+  return lemma;
+};
+
+export const stemToken = (token: string, stemmer: StemmerName = 'porter'): string =>
+  STEMMER_IMPLEMENTATIONS[stemmer].stem(token.toLowerCase());
+
 const extractAdvancedFeatures = (original: string, tokens: string[]): TextFeatures => {
-  const sentences = original.split(/[.!?]+/).filter(s => s.trim());
+  const sentences = segmentSentences(original);
   const wordCount = tokens.length;
   const sentenceCount = sentences.length;
   const uniqueWords = new Set(tokens.map(t => t.toLowerCase())).size;
@@ -137,17 +327,21 @@ const extractAdvancedFeatures = (original: string, tokens: string[]): TextFeatur
     specialCharCount,
     uppercaseRatio,
     exclamationCount,
-    questionCount
+    questionCount,
+    elongatedWordCount: countElongations(original),
+    ...summarizeEmoji(original)
   };
 };
 
-const extractMetadata = (original: string, cleaned: string): TextMetadata => {
+const extractMetadata = (original: string, cleaned: string, language: string): TextMetadata => {
   const readabilityScore = calculateReadability(original);
   const emotionalIntensity = calculateEmotionalIntensity(original);
-  const subjectivity = calculateSubjectivity(original);
+  const subjectivity = analyzeSubjectivity(original, language).score * 100;
+  const detection = detectLanguage(cleaned);
 
   return {
-    language: 'en',
+    language: detection.language,
+    languageConfidence: detection.confidence,
     readabilityScore,
     emotionalIntensity,
     subjectivity
@@ -156,7 +350,7 @@ const extractMetadata = (original: string, cleaned: string): TextMetadata => {
 
 const calculateReadability = (text: string): number => {
   const words = text.split(/\s+/).length;
-  const sentences = (text.match(/[.!?]+/g) || []).length;
+  const sentences = segmentSentences(text).length;
   const syllables = estimateSyllables(text);
 
   if (words === 0 || sentences === 0) return 0;
@@ -208,15 +402,3 @@ const calculateEmotionalIntensity = (text: string): number => {
   return Math.min(100, baseScore * 10);
 };
 
-const calculateSubjectivity = (text: string): number => {
-  const subjectiveWords = [
-    'amazing', 'terrible', 'wonderful', 'awful', 'perfect', 'horrible',
-    'excellent', 'poor', 'fantastic', 'disgusting', 'love', 'hate',
-    'believe', 'think', 'feel', 'opinion', 'personal', 'seem', 'appear'
-  ];
-
-  const words = text.toLowerCase().split(/\s+/);
-  const matches = words.filter(w => subjectiveWords.some(sw => w.includes(sw))).length;
-
-  return Math.min(100, (matches / Math.max(1, words.length)) * 100);
-};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateAspects, extractAspects } from './aspectExtractor';
+
+describe('extractAspects', () => {
+  it('scores each aspect from the clause that mentions it', () => {
+    const aspects = extractAspects('The battery life is amazing, but the camera is blurry.');
+
+    expect(aspects.Battery).toMatchObject({ label: 'Positive', mentions: ['battery', 'battery life'] });
+    expect(aspects.Camera).toMatchObject({ label: 'Negative', clauses: ['the camera is blurry'] });
+    expect(aspects.Shipping).toBeUndefined();
+  });
+
+  it('applies negation inside the aspect clause', () => {
+    expect(extractAspects('The camera is not bad').Camera?.label).toBe('Positive');
+  });
+});
+
+describe('aggregateAspects', () => {
+  it('counts labels and averages scores per aspect across reviews', () => {
+    const aggregate = aggregateAspects([
+      extractAspects('The battery life is amazing.'),
+      extractAspects('The battery is terrible.')
+    ]);
+
+    expect(aggregate.Battery).toMatchObject({ mentions: 2, positive: 1, negative: 1, neutral: 0 });
+  });
+});
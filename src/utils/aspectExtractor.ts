@@ -0,0 +1,126 @@
+import { analyzeValence } from './valenceShifter';
+
+export type AspectName =
+  | 'Performance'
+  | 'Design'
+  | 'Value for Money'
+  | 'Shipping'
+  | 'Battery'
+  | 'Camera'
+  | 'Build Quality'
+  | 'Customer Service';
+
+export interface AspectSentiment {
+  label: 'Positive' | 'Negative' | 'Neutral';
+  score: number;
+  mentions: string[];
+  clauses: string[];
+}
+
+export type AspectMap = Partial<Record<AspectName, AspectSentiment>>;
+
+export interface AspectAggregate {
+  mentions: number;
+  positive: number;
+  negative: number;
+  neutral: number;
+  avgScore: number;
+}
+
+const ASPECT_KEYWORDS: Record<AspectName, string[]> = {
+  'Performance': [
+    'performance', 'speed', 'lag', 'laggy', 'responsive',
+    'works', 'working', 'functionality', 'processor', 'power', 'efficient'
+  ],
+  'Design': [
+    'design', 'look', 'looks', 'style', 'color', 'colour', 'size', 'shape',
+    'sleek', 'ergonomic', 'display', 'screen', 'appearance', 'finish'
+  ],
+  'Value for Money': [
+    'price', 'value', 'value for money', 'cost', 'expensive', 'cheap',
+    'affordable', 'overpriced', 'worth', 'money', 'deal', 'bargain'
+  ],
+  'Shipping': [
+    'shipping', 'delivery', 'delivered', 'arrived', 'arrival', 'package',
+    'packaging', 'courier', 'shipment', 'shipped'
+  ],
+  'Battery': [
+    'battery', 'battery life', 'charge', 'charging', 'charger', 'drain', 'drains'
+  ],
+  'Camera': [
+    'camera', 'photo', 'photos', 'picture', 'pictures', 'lens', 'video', 'zoom'
+  ],
+  'Build Quality': [
+    'quality', 'build', 'build quality', 'material', 'materials', 'durable',
+    'sturdy', 'flimsy', 'plastic', 'broke', 'broken', 'cracked'
+  ],
+  'Customer Service': [
+    'customer service', 'support', 'seller', 'refund', 'return', 'warranty',
+    'replacement', 'service'
+  ]
+};
+
+const CLAUSE_BOUNDARY = /[.!?;]+|,|\b(?:but|however|although|though|while|whereas|yet)\b/i;
+
+const ASPECT_PATTERNS: [AspectName, string, RegExp][] = (
+  Object.entries(ASPECT_KEYWORDS) as [AspectName, string[]][]
+).flatMap(([aspect, keywords]) =>
+  keywords.map(keyword => [aspect, keyword, new RegExp(`\\b${keyword}\\b`, 'i')] as [AspectName, string, RegExp])
+);
+
+export const splitClauses = (text: string): string[] => {
+  return text
+    .split(CLAUSE_BOUNDARY)
+    .map(clause => clause.trim())
+    .filter(clause => clause.length > 0);
+};
+
+export const extractAspects = (text: string): AspectMap => {
+  const aspects: AspectMap = {};
+
+  for (const clause of splitClauses(text)) {
+    const mentioned = new Map<AspectName, string[]>();
+
+    for (const [aspect, keyword, pattern] of ASPECT_PATTERNS) {
+      if (pattern.test(clause)) {
+        mentioned.set(aspect, [...(mentioned.get(aspect) || []), keyword]);
+      }
+    }
+
+    if (mentioned.size === 0) continue;
+
+    const clauseScore = analyzeValence(clause).score;
+
+    for (const [aspect, keywords] of mentioned) {
+      const existing = aspects[aspect] || { label: 'Neutral', score: 0, mentions: [], clauses: [] };
+      existing.score += clauseScore;
+      existing.mentions.push(...keywords.filter(k => !existing.mentions.includes(k)));
+      existing.clauses.push(clause);
+      aspects[aspect] = existing;
+    }
+  }
+
+  for (const aspect of Object.values(aspects)) {
+    aspect.label = aspect.score > 0 ? 'Positive' : aspect.score < 0 ? 'Negative' : 'Neutral';
+  }
+
+  return aspects;
+};
+
+export const aggregateAspects = (maps: AspectMap[]): Partial<Record<AspectName, AspectAggregate>> => {
+  const aggregate: Partial<Record<AspectName, AspectAggregate>> = {};
+
+  for (const map of maps) {
+    for (const [aspect, result] of Object.entries(map) as [AspectName, AspectSentiment][]) {
+      const existing = aggregate[aspect] || { mentions: 0, positive: 0, negative: 0, neutral: 0, avgScore: 0 };
+      existing.avgScore = (existing.avgScore * existing.mentions + result.score) / (existing.mentions + 1);
+      existing.mentions++;
+      if (result.label === 'Positive') existing.positive++;
+      else if (result.label === 'Negative') existing.negative++;
+      else existing.neutral++;
+      aggregate[aspect] = existing;
+    }
+  }
+
+  return aggregate;
+};
@@ -0,0 +1,44 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { BertTokenizer, TokenIds } from './bertModel';
+
+interface WordPieceFixture {
+  tokenize: { text: string; tokens: string[]; ids: number[] }[];
+  encode: ({ text: string; maxLength: number } & TokenIds)[];
+  encodePair: ({ textA: string; textB: string; maxLength: number } & TokenIds)[];
+}
+
+// Golden cases follow the reference BERT uncased tokenizer on a small vocabulary
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/wordpiece/${name}`, import.meta.url), 'utf8');
+const vocab = fixture('vocab.txt');
+const expected: WordPieceFixture = JSON.parse(fixture('expected.json'));
+
+describe('BertTokenizer', () => {
+  it.each(expected.tokenize)('tokenizes $text', ({ text, tokens, ids }) => {
+    const tokenizer = BertTokenizer.fromVocabText(vocab);
+    expect(tokenizer.tokenize(text)).toEqual(tokens);
+    expect(tokenizer.convertTokensToIds(tokens)).toEqual(ids);
+  });
+
+  it.each(expected.encode)('encodes $text with special tokens and padding', ({ text, maxLength, ...ids }) => {
+    expect(BertTokenizer.fromVocabText(vocab, { maxLength }).encode(text)).toEqual(ids);
+  });
+
+  it.each(expected.encodePair)('encodes the pair $textA / $textB', ({ textA, textB, maxLength, ...ids }) => {
+    expect(BertTokenizer.fromVocabText(vocab, { maxLength }).encodePair(textA, textB)).toEqual(ids);
+  });
+
+  it('maps words longer than the character limit to [UNK]', () => {
+    const tokenizer = BertTokenizer.fromVocabText(vocab, { maxInputCharsPerWord: 5 });
+    expect(tokenizer.tokenize('unwanted low')).toEqual(['[UNK]', 'low']);
+  });
+
+  it('rejects a vocabulary without the special tokens', () => {
+    expect(() => BertTokenizer.fromVocabText('want\n##ed\n')).toThrow('[PAD]');
+  });
+
+  it('decodes ids back to text without special tokens', () => {
+    const tokenizer = BertTokenizer.fromVocabText(vocab, { maxLength: 8 });
+    expect(tokenizer.decode(tokenizer.encode('unwanted running').input_ids)).toBe('unwanted running');
+  });
+});
@@ -1,10 +1,26 @@
+import { analyzeValence, ValenceShift, WordContribution } from './valenceShifter';
+import { detectSarcasm, applySarcasmToProbabilities, SarcasmAnalysis, SarcasmOptions } from './sarcasmDetector';
+import { segmentSentences, SentenceSentiment } from './sentenceSegmenter';
+import { TransformerEncoder } from './transformerEncoder';
+import { calibrateDistribution, describeCalibration, AnalyzerCalibration } from './calibration';
+import { describeEmoji } from './emojiNormalizer';
+
 export interface BertTokenizerConfig {
   vocabSize: number;
   maxLength: number;
   padTokenId: number;
+  unkTokenId: number;
   maskTokenId: number;
   sepTokenId: number;
   clsTokenId: number;
+  doLowerCase: boolean;
+  maxInputCharsPerWord: number;
+}
+
+export interface BertTokenizerOptions {
+  maxLength?: number;
+  doLowerCase?: boolean;
+  maxInputCharsPerWord?: number;
 }
 
 export interface TokenIds {
@@ -25,64 +41,134 @@ export interface SentimentPrediction {
   neutral: number;
   predicted_class: 'positive' | 'negative' | 'neutral';
   confidence: number;
+  calibrated: boolean;
   raw_logits: number[];
+  shifts: ValenceShift[];
+  sarcasm: SarcasmAnalysis;
+  sentences: SentenceSentiment[];
 }
 
+export type BertBackend = 'transformer' | 'heuristic';
+
+export interface BertModelOptions {
+  tokenizer?: BertTokenizer;
+  encoder?: TransformerEncoder;
+  weightsPath?: string;
+  vocabPath?: string;
+  fallbackReason?: string;
+  calibration?: AnalyzerCalibration;
+}
+
+export interface BertModelInfo {
+  backend: BertBackend;
+  weights_path: string | null;
+  vocab_path: string | null;
+  vocab_size: number;
+  max_length: number;
+  labels: string[];
+  layers: number | null;
+  hidden_size: number | null;
+  parameters: number | null;
+  warmup_ms: number | null;
+  fallback_reason: string | null;
+  calibration: string | null;
+}
+
+const CLASS_LABELS: Record<SentimentPrediction['predicted_class'], SentenceSentiment['label']> = {
+  positive: 'Positive',
+  negative: 'Negative',
+  neutral: 'Neutral'
+};
+
 export class BertTokenizer {
   private vocab: Map<string, number>;
   private inverseVocab: Map<number, string>;
   private config: BertTokenizerConfig;
 
-  constructor(vocabSize: number = 30522) {
-    this.config = {
-      vocabSize,
-      maxLength: 512,
-      padTokenId: 0,
-      maskTokenId: 103,
-      sepTokenId: 102,
-      clsTokenId: 101
-    };
-
+  constructor(vocabTokens: string[] = buildFallbackVocab(), options: BertTokenizerOptions = {}) {
     this.vocab = new Map();
     this.inverseVocab = new Map();
-    this.initializeVocab();
-  }
-
-  private initializeVocab(): void {
-    const commonTokens = [
-      '[PAD]', '[unused0]', '[unused1]', '[unused2]', '[unused3]',
-      '[UNK]', '[CLS]', '[SEP]', '[MASK]', '!', '"', '#', '$', '%',
-      'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'is', 'it',
-      'that', 'this', 'for', 'from', 'with', 'by', 'on', 'at', 'as',
-      'was', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does',
-      'did', 'will', 'would', 'could', 'should', 'may', 'might', 'must',
-      'can', 'product', 'review', 'good', 'bad', 'great', 'terrible',
-      'amazing', 'awful', 'love', 'hate', 'quality', 'price', 'delivery',
-      'excellent', 'poor', 'recommend', 'waste', 'money', 'worth', 'value'
-    ];
 
-    commonTokens.forEach((token, idx) => {
+    vocabTokens.forEach((token, idx) => {
       this.vocab.set(token, idx);
       this.inverseVocab.set(idx, token);
     });
 
-    for (let i = commonTokens.length; i < this.config.vocabSize; i++) {
-      this.inverseVocab.set(i, `[unused${i}]`);
+    this.config = {
+      vocabSize: vocabTokens.length,
+      maxLength: options.maxLength ?? 512,
+      padTokenId: this.requireSpecialToken('[PAD]'),
+      unkTokenId: this.requireSpecialToken('[UNK]'),
+      maskTokenId: this.requireSpecialToken('[MASK]'),
+      sepTokenId: this.requireSpecialToken('[SEP]'),
+      clsTokenId: this.requireSpecialToken('[CLS]'),
+      doLowerCase: options.doLowerCase ?? true,
+      maxInputCharsPerWord: options.maxInputCharsPerWord ?? 100
+    };
+  }
+
+  static fromVocabText(vocabText: string, options: BertTokenizerOptions = {}): BertTokenizer {
+    const tokens = vocabText.split(/\r?\n/);
+    while (tokens.length > 0 && tokens[tokens.length - 1] === '') {
+      tokens.pop();
     }
+    return new BertTokenizer(tokens, options);
+  }
+
+  getConfig(): BertTokenizerConfig {
+    return { ...this.config };
+  }
+
+  private requireSpecialToken(token: string): number {
+    const id = this.vocab.get(token);
+    if (id === undefined) {
+      throw new Error(`Vocabulary is missing required special token ${token}`);
+    }
+    return id;
   }
 
   encode(text: string): TokenIds {
-    const tokens = this.tokenize(text);
-    const truncated = tokens.slice(0, this.config.maxLength - 2);
+    const tokens = this.tokenize(text).slice(0, this.config.maxLength - 2);
 
-    const input_ids: number[] = [this.config.clsTokenId];
-    for (const token of truncated) {
-      input_ids.push(this.getTokenId(token));
+    const input_ids = [
+      this.config.clsTokenId,
+      ...this.convertTokensToIds(tokens),
+      this.config.sepTokenId
+    ];
+
+    return this.pad(input_ids, new Array(input_ids.length).fill(0));
+  }
+
+  encodePair(textA: string, textB: string): TokenIds {
+    const tokensA = this.tokenize(textA);
+    const tokensB = this.tokenize(textB);
+
+    const budget = this.config.maxLength - 3;
+    while (tokensA.length + tokensB.length > budget) {
+      if (tokensA.length > tokensB.length) {
+        tokensA.pop();
+      } else {
+        tokensB.pop();
+      }
     }
-    input_ids.push(this.config.sepTokenId);
 
+    const input_ids = [
+      this.config.clsTokenId,
+      ...this.convertTokensToIds(tokensA),
+      this.config.sepTokenId,
+      ...this.convertTokensToIds(tokensB),
+      this.config.sepTokenId
+    ];
+    const token_type_ids = [
+      ...new Array(tokensA.length + 2).fill(0),
+      ...new Array(tokensB.length + 1).fill(1)
+    ];
+
+    return this.pad(input_ids, token_type_ids);
+  }
+
+  private pad(input_ids: number[], token_type_ids: number[]): TokenIds {
     const attention_mask = new Array(input_ids.length).fill(1);
-    const token_type_ids = new Array(input_ids.length).fill(0);
 
     if (input_ids.length < this.config.maxLength) {
       const padLength = this.config.maxLength - input_ids.length;
@@ -98,69 +184,223 @@ export class BertTokenizer {
     };
   }
 
-  private tokenize(text: string): string[] {
-    text = text.toLowerCase();
-    text = text.replace(/[^\w\s]/g, ' ');
-
+  tokenize(text: string): string[] {
     const tokens: string[] = [];
-    const words = text.split(/\s+/);
 
-    for (const word of words) {
+    for (const word of this.basicTokenize(text)) {
+      tokens.push(...this.wordPieceTokenize(word));
+    }
+
+    return tokens;
+  }
+
+  private basicTokenize(text: string): string[] {
+    let cleaned = '';
+    for (const char of text) {
+      const code = char.codePointAt(0) || 0;
+      if (code === 0 || code === 0xfffd || isControl(char)) continue;
+      if (isCjk(code)) {
+        cleaned += ` ${char} `;
+      } else {
+        cleaned += isWhitespace(char) ? ' ' : char;
+      }
+    }
+
+    const words: string[] = [];
+    for (let word of cleaned.trim().split(/\s+/)) {
       if (word.length === 0) continue;
+      if (this.config.doLowerCase) {
+        word = stripAccents(word.toLowerCase());
+      }
+      words.push(...splitOnPunctuation(word));
+    }
 
-      let remaining = word;
-      const maxSubwordLength = 4;
+    return words;
+  }
 
-      while (remaining.length > 0) {
-        let found = false;
+  private wordPieceTokenize(word: string): string[] {
+    const chars = Array.from(word);
+    if (chars.length > this.config.maxInputCharsPerWord) {
+      return ['[UNK]'];
+    }
 
-        for (let i = Math.min(maxSubwordLength, remaining.length); i > 0; i--) {
-          const subword = remaining.substring(0, i);
-          if (this.vocab.has(subword) || this.canBeTokenized(subword)) {
-            tokens.push(subword);
-            remaining = remaining.substring(i);
-            found = true;
-            break;
-          }
-        }
+    const pieces: string[] = [];
+    let start = 0;
 
-        if (!found) {
-          tokens.push(remaining.substring(0, 1));
-          remaining = remaining.substring(1);
+    while (start < chars.length) {
+      let end = chars.length;
+      let piece: string | null = null;
+
+      while (start < end) {
+        let candidate = chars.slice(start, end).join('');
+        if (start > 0) {
+          candidate = `##${candidate}`;
+        }
+        if (this.vocab.has(candidate)) {
+          piece = candidate;
+          break;
         }
+        end--;
       }
-    }
 
-    return tokens;
-  }
+      if (piece === null) {
+        return ['[UNK]'];
+      }
 
-  private canBeTokenized(subword: string): boolean {
-    return subword.length > 0 && /[a-z0-9]/.test(subword);
+      pieces.push(piece);
+      start = end;
+    }
+
+    return pieces;
   }
 
-  private getTokenId(token: string): number {
-    return this.vocab.get(token) || this.vocab.get('[UNK]') || 100;
+  convertTokensToIds(tokens: string[]): number[] {
+    return tokens.map(token => this.vocab.get(token) ?? this.config.unkTokenId);
   }
 
   decode(token_ids: number[]): string {
+    const special = new Set([this.config.padTokenId, this.config.clsTokenId, this.config.sepTokenId]);
+
     return token_ids
-      .map(id => this.inverseVocab.get(id) || '[UNK]')
+      .filter(id => !special.has(id))
+      .map(id => this.inverseVocab.get(id) ?? '[UNK]')
       .join(' ')
-      .replace(/\[unused\d+\]/g, '')
+      .replace(/ ##/g, '')
       .replace(/\s+/g, ' ')
       .trim();
   }
 }
 
+const SPECIAL_TOKEN_LAYOUT: Record<number, string> = {
+  0: '[PAD]',
+  100: '[UNK]',
+  101: '[CLS]',
+  102: '[SEP]',
+  103: '[MASK]'
+};
+
+const FALLBACK_WORDS = [
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'is', 'it',
+  'that', 'this', 'for', 'from', 'with', 'by', 'on', 'at', 'as',
+  'was', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does',
+  'did', 'will', 'would', 'could', 'should', 'may', 'might', 'must',
+  'can', 'not', 'no', 'but', 'very', 'product', 'review', 'good', 'bad',
+  'great', 'terrible', 'amazing', 'awful', 'love', 'hate', 'quality',
+  'price', 'delivery', 'excellent', 'poor', 'recommend', 'waste', 'money',
+  'worth', 'value'
+];
+
+const buildFallbackVocab = (): string[] => {
+  const vocab: string[] = [];
+  let unused = 0;
+  for (let i = 0; i <= 103; i++) {
+    vocab.push(SPECIAL_TOKEN_LAYOUT[i] ?? `[unused${unused++}]`);
+  }
+
+  const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
+  const punctuation = '!"#$%&\'()*+,-./:;<=>?@[\\]^_`{|}~';
+
+  vocab.push(...punctuation, ...chars, ...Array.from(chars, c => `##${c}`), ...FALLBACK_WORDS);
+  return vocab;
+};
+
+const isWhitespace = (char: string): boolean => /\s/.test(char);
+
+const isControl = (char: string): boolean => {
+  if (char === '\t' || char === '\n' || char === '\r') return false;
+  return /\p{Cc}|\p{Cf}/u.test(char);
+};
+
+const isCjk = (code: number): boolean => (
+  (code >= 0x4e00 && code <= 0x9fff) ||
+  (code >= 0x3400 && code <= 0x4dbf) ||
+  (code >= 0x20000 && code <= 0x2a6df) ||
+  (code >= 0x2a700 && code <= 0x2b73f) ||
+  (code >= 0x2b740 && code <= 0x2b81f) ||
+  (code >= 0x2b820 && code <= 0x2ceaf) ||
+  (code >= 0xf900 && code <= 0xfaff) ||
+  (code >= 0x2f800 && code <= 0x2fa1f)
+);
+
+const isPunctuation = (char: string): boolean => {
+  const code = char.codePointAt(0) || 0;
+  if ((code >= 33 && code <= 47) || (code >= 58 && code <= 64) ||
+      (code >= 91 && code <= 96) || (code >= 123 && code <= 126)) {
+    return true;
+  }
+  return /\p{P}/u.test(char);
+};
+
+const stripAccents = (text: string): string => text.normalize('NFD').replace(/\p{Mn}/gu, '');
+
+const splitOnPunctuation = (word: string): string[] => {
+  const output: string[] = [];
+  let current = '';
+
+  for (const char of word) {
+    if (isPunctuation(char)) {
+      if (current) output.push(current);
+      output.push(char);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current) output.push(current);
+
+  return output;
+};
+
 export class SimpleBertModel {
   private tokenizer: BertTokenizer;
+  private encoder: TransformerEncoder | null;
+  private labelIndex: [number, number, number] | null = null;
+  private options: BertModelOptions;
+  private warmupMs: number | null = null;
   private sentimentWeights: number[] = [];
 
-  constructor() {
-    this.tokenizer = new BertTokenizer();
+  constructor(options: BertModelOptions = {}) {
+    this.options = options;
+    this.tokenizer = options.tokenizer ?? new BertTokenizer();
+    this.encoder = options.encoder ?? null;
+    if (this.encoder) {
+      this.labelIndex = resolveLabelIndex(this.encoder.config.labels);
+    }
     this.initializeWeights();
   }
 
+  get backend(): BertBackend {
+    return this.encoder ? 'transformer' : 'heuristic';
+  }
+
+  warmup(samples: string[] = WARMUP_SAMPLES): number {
+    const started = Date.now();
+    for (const sample of samples) {
+      this.classify(sample, {});
+    }
+    this.warmupMs = Date.now() - started;
+    return this.warmupMs;
+  }
+
+  getModelInfo(): BertModelInfo {
+    const tokenizerConfig = this.tokenizer.getConfig();
+
+    return {
+      backend: this.backend,
+      weights_path: this.options.weightsPath ?? null,
+      vocab_path: this.options.vocabPath ?? null,
+      vocab_size: tokenizerConfig.vocabSize,
+      max_length: tokenizerConfig.maxLength,
+      labels: this.encoder ? this.encoder.config.labels : ['positive', 'negative', 'neutral'],
+      layers: this.encoder?.config.num_hidden_layers ?? null,
+      hidden_size: this.encoder?.config.hidden_size ?? null,
+      parameters: this.encoder?.parameterCount ?? null,
+      warmup_ms: this.warmupMs,
+      fallback_reason: this.options.fallbackReason ?? null,
+      calibration: describeCalibration(this.options.calibration)
+    };
+  }
+
   private initializeWeights(): void {
     const sentimentTokens = ['good', 'great', 'amazing', 'excellent', 'love', 'best', 'perfect'];
     const negativeTokens = ['bad', 'terrible', 'awful', 'hate', 'worst', 'poor', 'waste'];
@@ -169,15 +409,42 @@ export class SimpleBertModel {
     this.sentimentWeights.push(...negativeTokens.map(() => -0.8));
   }
 
-  predict(text: string): SentimentPrediction {
-    const encoded = this.tokenizer.encode(text);
+  predict(text: string, options: SarcasmOptions = {}): SentimentPrediction {
+    const prediction = this.classify(text, options);
 
-    const logits = this.computeLogits(encoded, text);
+    const sentences = segmentSentences(text).map(span => {
+      const sentencePrediction = this.classify(span.text, options);
+      return {
+        ...span,
+        label: CLASS_LABELS[sentencePrediction.predicted_class],
+        score: sentencePrediction.positive - sentencePrediction.negative
+      };
+    });
 
-    const softmax = this.applySoftmax(logits);
+    return { ...prediction, sentences };
+  }
 
-    const predicted_class = this.getClass(softmax);
-    const confidence = Math.max(...softmax) * 100;
+  private classify(text: string, options: SarcasmOptions): Omit<SentimentPrediction, 'sentences'> {
+    const encoded = this.tokenizer.encode(describeEmoji(text));
+
+    const valence = analyzeValence(text);
+    const logits = this.encoder && this.labelIndex
+      ? this.computeEncoderLogits(this.encoder, this.labelIndex, encoded)
+      : this.computeLogits(encoded, text, valence.contributions);
+
+    const { probabilities: adjusted, sarcasm } = applySarcasmToProbabilities(
+      this.applySoftmax(logits) as [number, number, number],
+      detectSarcasm(text, options)
+    );
+    // The label comes from the uncalibrated distribution; calibration only adjusts the confidence
+    const predicted_class = this.getClass(adjusted);
+    const calibrated = calibrateDistribution(
+      { positive: adjusted[0], negative: adjusted[1], neutral: adjusted[2] },
+      this.options.calibration,
+      predicted_class
+    );
+    const softmax = [calibrated.positive, calibrated.negative, calibrated.neutral];
+    const confidence = calibrated[predicted_class] * 100;
 
     return {
       positive: softmax[0],
@@ -185,27 +452,41 @@ export class SimpleBertModel {
       neutral: softmax[2],
       predicted_class,
       confidence,
-      raw_logits: logits
+      calibrated: Boolean(this.options.calibration),
+      raw_logits: logits,
+      shifts: valence.shifts,
+      sarcasm
     };
   }
 
-  private computeLogits(encoded: TokenIds, originalText: string): number[] {
+  private computeEncoderLogits(
+    encoder: TransformerEncoder,
+    labelIndex: [number, number, number],
+    encoded: TokenIds
+  ): number[] {
+    const length = encoded.attention_mask.filter(a => a === 1).length;
+    const logits = encoder.forward(
+      encoded.input_ids.slice(0, length),
+      encoded.token_type_ids.slice(0, length)
+    );
+
+    return labelIndex.map(idx => (idx >= 0 ? logits[idx] : MISSING_CLASS_LOGIT));
+  }
+
+  private computeLogits(
+    encoded: TokenIds,
+    originalText: string,
+    contributions: WordContribution[]
+  ): number[] {
     let positiveScore = 0;
     let negativeScore = 0;
     let neutralScore = 0;
 
-    const lowerText = originalText.toLowerCase();
-    const words = lowerText.split(/\s+/);
-
-    const positiveWords = ['good', 'great', 'amazing', 'excellent', 'love', 'best', 'perfect', 'wonderful', 'fantastic', 'awesome'];
-    const negativeWords = ['bad', 'terrible', 'awful', 'hate', 'worst', 'poor', 'waste', 'horrible', 'disgusting', 'broken'];
-
-    for (const word of words) {
-      if (positiveWords.some(pw => word.includes(pw))) {
-        positiveScore += 1.5;
-      }
-      if (negativeWords.some(nw => word.includes(nw))) {
-        negativeScore += 1.5;
+    for (const contribution of contributions) {
+      if (contribution.score > 0) {
+        positiveScore += contribution.score * 0.5;
+      } else {
+        negativeScore += -contribution.score * 0.5;
       }
     }
 
@@ -237,8 +518,26 @@ export class SimpleBertModel {
   }
 }
 
-export const createBertModel = (): SimpleBertModel => {
-  return new SimpleBertModel();
+const MISSING_CLASS_LOGIT = -1e9;
+
+const WARMUP_SAMPLES = [
+  'Great product, works exactly as described.',
+  'Terrible quality and it broke after a week.'
+];
+
+const resolveLabelIndex = (labels: string[]): [number, number, number] => {
+  const find = (pattern: RegExp) => labels.findIndex(label => pattern.test(label));
+  const index: [number, number, number] = [find(/^pos/i), find(/^neg/i), find(/^neu/i)];
+
+  if (index[0] < 0 || index[1] < 0) {
+    throw new Error(`Model labels must include positive and negative classes, got: ${labels.join(', ')}`);
+  }
+
+  return index;
+};
+
+export const createBertModel = (options: BertModelOptions = {}): SimpleBertModel => {
+  return new SimpleBertModel(options);
 };
 
 export const analyzeWithBert = (text: string, model: SimpleBertModel): SentimentPrediction => {
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calibrateDistribution,
+  describeCalibration,
+  fitCalibration,
+  topClass,
+  AnalyzerCalibration,
+  ClassDistribution
+} from './calibration';
+import { combineVotes, AnalyzerVote } from './ensemble';
+import { createBertModel } from './bertModel';
+
+// Maps a 0.5 top-class probability down to 0.25, which on its own would leave the runner-up on top
+const SHRINKING: AnalyzerCalibration = { method: 'isotonic', confidences: [0.4, 0.6], accuracies: [0.2, 0.3] };
+const CLOSE_CALL: ClassDistribution = { positive: 0.5, negative: 0.45, neutral: 0.05 };
+
+const vote = (analyzer: string, distribution: ClassDistribution): AnalyzerVote => ({
+  analyzer,
+  predicted_class: topClass(distribution),
+  ...distribution,
+  confidence: Math.max(...Object.values(distribution)) * 100,
+  weight: 1
+});
+
+describe('calibrateDistribution', () => {
+  it('keeps the predicted class on top when an isotonic map would reorder the classes', () => {
+    const calibrated = calibrateDistribution(CLOSE_CALL, SHRINKING);
+    expect(topClass(calibrated)).toBe('positive');
+    expect(calibrated.positive).toBeGreaterThanOrEqual(calibrated.negative);
+    expect(calibrated.positive + calibrated.negative + calibrated.neutral).toBeCloseTo(1);
+  });
+
+  it('maps the confidence of the predicted class through the isotonic steps', () => {
+    const calibration: AnalyzerCalibration = { method: 'isotonic', confidences: [0.4, 0.6], accuracies: [0.6, 0.8] };
+    const calibrated = calibrateDistribution({ positive: 0.5, negative: 0.1, neutral: 0.4 }, calibration);
+    expect(calibrated.positive).toBeCloseTo(0.7);
+    expect(calibrated.neutral / calibrated.negative).toBeCloseTo(4);
+  });
+
+  it('keeps the class order under temperature scaling', () => {
+    const calibrated = calibrateDistribution(CLOSE_CALL, { method: 'temperature', temperature: 3 });
+    expect(calibrated.positive).toBeGreaterThan(calibrated.negative);
+    expect(calibrated.negative).toBeGreaterThan(calibrated.neutral);
+    expect(calibrated.positive).toBeLessThan(CLOSE_CALL.positive);
+  });
+
+  it('leaves the distribution alone without a calibration', () => {
+    expect(calibrateDistribution(CLOSE_CALL)).toBe(CLOSE_CALL);
+  });
+});
+
+describe('fitCalibration', () => {
+  it('fits a temperature above 1 for overconfident predictions', () => {
+    const samples = Array.from({ length: 10 }, (_, idx) => ({
+      probabilities: { positive: 0.95, negative: 0.04, neutral: 0.01 },
+      label: idx < 6 ? 'positive' as const : 'negative' as const
+    }));
+    const calibration = fitCalibration(samples, 'temperature');
+    if (calibration.method !== 'temperature') throw new Error('expected a temperature calibration');
+    expect(calibration.temperature).toBeGreaterThan(1);
+  });
+
+  it('fits a monotone isotonic map of confidence to accuracy', () => {
+    const samples = [0.4, 0.5, 0.6, 0.7, 0.8, 0.9].map((confidence, idx) => ({
+      probabilities: { positive: confidence, negative: 1 - confidence, neutral: 0 },
+      label: idx % 2 === 0 ? 'negative' as const : 'positive' as const
+    }));
+    const calibration = fitCalibration(samples, 'isotonic');
+    if (calibration.method !== 'isotonic') throw new Error('expected an isotonic calibration');
+    expect(calibration.accuracies).toEqual([...calibration.accuracies].sort((a, b) => a - b));
+  });
+
+  it('refuses to fit on an empty dataset', () => {
+    expect(() => fitCalibration([], 'temperature')).toThrow(/empty dataset/);
+  });
+});
+
+describe('describeCalibration', () => {
+  it('names the method and its parameters', () => {
+    expect(describeCalibration({ method: 'temperature', temperature: 1.5 })).toBe('temperature (T=1.5)');
+    expect(describeCalibration({ method: 'isotonic', confidences: [0.5, 0.9], accuracies: [0.4, 0.8] })).toBe('isotonic (2 steps)');
+    expect(describeCalibration()).toBeNull();
+  });
+});
+
+describe('calibrated predictions', () => {
+  it('reports an ensemble confidence no lower than any other class', () => {
+    const verdict = combineVotes([vote('lexicon', CLOSE_CALL), vote('bert', CLOSE_CALL)], { calibration: SHRINKING });
+    expect(verdict.predicted_class).toBe('positive');
+    expect(verdict.confidence / 100).toBeGreaterThanOrEqual(Math.max(verdict.negative, verdict.neutral));
+  });
+
+  it('never lets calibration change the BERT label', () => {
+    const texts = ['Good enough, I guess', 'Not great, not terrible', 'It works but the box was damaged'];
+    const plain = createBertModel();
+    const calibrated = createBertModel({ calibration: { method: 'isotonic', confidences: [0.3, 1], accuracies: [0, 0.05] } });
+
+    for (const text of texts) {
+      const prediction = calibrated.predict(text);
+      expect(prediction.predicted_class).toBe(plain.predict(text).predicted_class);
+      expect(prediction[prediction.predicted_class]).toBeCloseTo(prediction.confidence / 100);
+    }
+  });
+});
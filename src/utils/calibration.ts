@@ -0,0 +1,170 @@
+import { ClassLabel, CLASS_ORDER } from './reviewClassifier';
+
+export type CalibrationMethod = 'temperature' | 'isotonic';
+
+export const CALIBRATION_METHODS: CalibrationMethod[] = ['temperature', 'isotonic'];
+
+export type ClassDistribution = Record<ClassLabel, number>;
+
+export type AnalyzerCalibration =
+  | { method: 'temperature'; temperature: number }
+  | { method: 'isotonic'; confidences: number[]; accuracies: number[] };
+
+export interface SerializedCalibration {
+  format: 'confidence-calibration-json';
+  version: 1;
+  analyzers: Record<string, AnalyzerCalibration>;
+  fittedAt: string;
+  examples: number;
+}
+
+export interface CalibrationSample {
+  probabilities: ClassDistribution;
+  label: ClassLabel;
+}
+
+const EPSILON = 1e-12;
+const MIN_INVERSE_TEMPERATURE = 0.05;
+const MAX_INVERSE_TEMPERATURE = 20;
+const GOLDEN_RATIO = (Math.sqrt(5) - 1) / 2;
+
+export const isCalibrationMethod = (value: unknown): value is CalibrationMethod =>
+  typeof value === 'string' && (CALIBRATION_METHODS as string[]).includes(value);
+
+export const topClass = (distribution: ClassDistribution): ClassLabel =>
+  CLASS_ORDER.reduce((best, label) => (distribution[label] > distribution[best] ? label : best), CLASS_ORDER[0]);
+
+const applyTemperature = (distribution: ClassDistribution, temperature: number): ClassDistribution => {
+  const scaled = CLASS_ORDER.map(label => Math.pow(Math.max(distribution[label], 0), 1 / temperature));
+  const sum = scaled.reduce((a, b) => a + b, 0) || 1;
+  return Object.fromEntries(CLASS_ORDER.map((label, idx) => [label, scaled[idx] / sum])) as ClassDistribution;
+};
+
+const interpolate = (xs: number[], ys: number[], x: number): number => {
+  if (xs.length === 0) return x;
+  if (x <= xs[0]) return ys[0];
+  if (x >= xs[xs.length - 1]) return ys[ys.length - 1];
+
+  let hi = 1;
+  while (xs[hi] < x) hi++;
+  const lo = hi - 1;
+  const span = xs[hi] - xs[lo];
+  return span > 0 ? ys[lo] + ((x - xs[lo]) / span) * (ys[hi] - ys[lo]) : ys[hi];
+};
+
+// Only the predicted class is mapped; the others share the rest in their original proportions.
+// The predicted class is kept at least level with the largest other class, so calibration
+// changes the confidence but never the label
+const applyIsotonic = (
+  distribution: ClassDistribution,
+  predicted: ClassLabel,
+  confidences: number[],
+  accuracies: number[]
+): ClassDistribution => {
+  const original = distribution[predicted];
+  const others = CLASS_ORDER.filter(label => label !== predicted);
+  const remainder = 1 - original;
+  const share = (label: ClassLabel) => (remainder > EPSILON ? distribution[label] / remainder : 1 / others.length);
+  const largestShare = Math.max(...others.map(share));
+  const calibrated = Math.min(
+    1,
+    Math.max(EPSILON, largestShare / (1 + largestShare), interpolate(confidences, accuracies, original))
+  );
+
+  return Object.fromEntries(CLASS_ORDER.map(label => (
+    [label, label === predicted ? calibrated : share(label) * (1 - calibrated)]
+  ))) as ClassDistribution;
+};
+
+// predicted defaults to the top class; callers that break ties their own way pass their label
+export const calibrateDistribution = (
+  distribution: ClassDistribution,
+  calibration?: AnalyzerCalibration,
+  predicted: ClassLabel = topClass(distribution)
+): ClassDistribution => {
+  if (!calibration) return distribution;
+
+  return calibration.method === 'temperature'
+    ? applyTemperature(distribution, calibration.temperature)
+    : applyIsotonic(distribution, predicted, calibration.confidences, calibration.accuracies);
+};
+
+const negativeLogLikelihood = (samples: CalibrationSample[], temperature: number): number =>
+  samples.reduce((sum, sample) => {
+    const calibrated = applyTemperature(sample.probabilities, temperature);
+    return sum - Math.log(Math.max(calibrated[sample.label], EPSILON));
+  }, 0) / samples.length;
+
+const fitTemperature = (samples: CalibrationSample[]): AnalyzerCalibration => {
+  let lo = MIN_INVERSE_TEMPERATURE;
+  let hi = MAX_INVERSE_TEMPERATURE;
+  const loss = (inverse: number) => negativeLogLikelihood(samples, 1 / inverse);
+
+  let a = hi - GOLDEN_RATIO * (hi - lo);
+  let b = lo + GOLDEN_RATIO * (hi - lo);
+  let lossA = loss(a);
+  let lossB = loss(b);
+
+  for (let i = 0; i < 60; i++) {
+    if (lossA < lossB) {
+      hi = b;
+      b = a;
+      lossB = lossA;
+      a = hi - GOLDEN_RATIO * (hi - lo);
+      lossA = loss(a);
+    } else {
+      lo = a;
+      a = b;
+      lossA = lossB;
+      b = lo + GOLDEN_RATIO * (hi - lo);
+      lossB = loss(b);
+    }
+  }
+
+  return { method: 'temperature', temperature: Math.round((2 / (lo + hi)) * 1e4) / 1e4 };
+};
+
+const fitIsotonic = (samples: CalibrationSample[]): AnalyzerCalibration => {
+  const points = samples
+    .map(sample => {
+      const predicted = topClass(sample.probabilities);
+      return { x: sample.probabilities[predicted], y: predicted === sample.label ? 1 : 0 };
+    })
+    .sort((p, q) => p.x - q.x);
+
+  const blocks: { x: number; y: number; weight: number }[] = [];
+  for (const point of points) {
+    blocks.push({ x: point.x, y: point.y, weight: 1 });
+
+    while (blocks.length > 1 && blocks[blocks.length - 2].y >= blocks[blocks.length - 1].y) {
+      const last = blocks.pop()!;
+      const previous = blocks[blocks.length - 1];
+      const weight = previous.weight + last.weight;
+      previous.x = (previous.x * previous.weight + last.x * last.weight) / weight;
+      previous.y = (previous.y * previous.weight + last.y * last.weight) / weight;
+      previous.weight = weight;
+    }
+  }
+
+  const round = (value: number) => Math.round(value * 1e4) / 1e4;
+  return {
+    method: 'isotonic',
+    confidences: blocks.map(block => round(block.x)),
+    accuracies: blocks.map(block => round(block.y))
+  };
+};
+
+export const fitCalibration = (samples: CalibrationSample[], method: CalibrationMethod): AnalyzerCalibration => {
+  if (samples.length === 0) {
+    throw new Error('Cannot fit calibration on an empty dataset');
+  }
+
+  return method === 'temperature' ? fitTemperature(samples) : fitIsotonic(samples);
+};
+
+export const describeCalibration = (calibration?: AnalyzerCalibration): string | null => {
+  if (!calibration) return null;
+  return calibration.method === 'temperature'
+    ? `temperature (T=${calibration.temperature})`
+    : `isotonic (${calibration.confidences.length} steps)`;
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { generateDashboardMetrics, toSentimentDataPoint, SentimentDataPoint } from './dashboardLogic';
+import { mapReviewRecord, reviewFromText } from './reviewRecord';
+import { analyzeSentiment } from './sentimentAnalyzer';
+import { extractKeyphrases } from './keyphraseExtractor';
+
+const point = (score: number, rating: number | null): SentimentDataPoint => ({
+  label: score > 0 ? 'Positive' : score < 0 ? 'Negative' : 'Neutral',
+  score,
+  confidence: 80,
+  tokens: [],
+  positive: [],
+  negative: [],
+  rating,
+  timestamp: '2024-05-01T00:00:00.000Z'
+});
+
+describe('generateDashboardMetrics', () => {
+  it('breaks scores down by star rating and averages the rated reviews only', () => {
+    const metrics = generateDashboardMetrics([point(3, 5), point(1, 5), point(-2, 1), point(0, null), point(2, 4.5)]);
+
+    expect(metrics.averageRating).toBe(4);
+    expect(metrics.ratingBreakdown.find(b => b.rating === 5)).toEqual({ rating: 5, count: 3, averageScore: 2 });
+    expect(metrics.ratingBreakdown.find(b => b.rating === 1)).toEqual({ rating: 1, count: 1, averageScore: -2 });
+  });
+
+  it('has no average rating when no review carries one', () => {
+    expect(generateDashboardMetrics([point(1, null)]).averageRating).toBeNull();
+  });
+});
+
+describe('toSentimentDataPoint', () => {
+  const analyzedAt = '2024-05-01T00:00:00.000Z';
+
+  it('keeps the date, rating and product of an ingested review', () => {
+    const mapped = mapReviewRecord({ reviewText: 'Broke after a week', overall: 1, asin: 'B000123', unixReviewTime: 1568332800 });
+    if (!('review' in mapped)) throw new Error(mapped.reason);
+
+    expect(toSentimentDataPoint(analyzeSentiment(mapped.review.text), mapped.review, analyzedAt)).toMatchObject({
+      rating: 1,
+      productId: 'B000123',
+      timestamp: '2019-09-13T00:00:00.000Z'
+    });
+  });
+
+  it('carries the review keyphrases into the word cloud', () => {
+    const text = 'The battery life is terrible but the screen is great';
+    const point = toSentimentDataPoint(analyzeSentiment(text), reviewFromText(text), analyzedAt, extractKeyphrases(text));
+
+    expect(point.keyphrases?.map(k => k.phrase)).toEqual(['battery life', 'screen']);
+    expect(generateDashboardMetrics([point]).wordCloud.map(w => w.word)).toEqual(['battery life', 'screen']);
+  });
+
+  it('carries the review emotions into the emotion distribution', () => {
+    const points = ['I am furious, it broke after a day', 'I love this, best purchase ever']
+      .map(text => toSentimentDataPoint(analyzeSentiment(text), reviewFromText(text), analyzedAt));
+
+    expect(points.map(point => point.emotions?.dominant)).toEqual(['anger', 'joy']);
+    expect(generateDashboardMetrics(points).emotionDistribution).toMatchObject({
+      reviews: 2,
+      withEmotion: 2,
+      dominantCounts: { anger: 1, joy: 1 }
+    });
+  });
+
+  it('carries the review subjectivity so factual reviews can be counted and left out', () => {
+    const points = ['It arrived on Tuesday in a box', 'I love this, best purchase ever']
+      .map(text => toSentimentDataPoint(analyzeSentiment(text), reviewFromText(text), analyzedAt));
+
+    expect(points.map(point => point.subjectivity?.label)).toEqual(['objective', 'subjective']);
+    expect(generateDashboardMetrics(points)).toMatchObject({ totalReviews: 2, factualCount: 1 });
+    expect(generateDashboardMetrics(points, { excludeFactual: true }).totalReviews).toBe(1);
+  });
+
+  it('places a review without a date at the fallback timestamp', () => {
+    expect(toSentimentDataPoint(analyzeSentiment('Fine'), reviewFromText('Fine'), analyzedAt).timestamp).toBe(analyzedAt);
+  });
+});
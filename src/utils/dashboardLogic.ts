@@ -1,3 +1,10 @@
+import { lemmatizeWord } from './advancedPreprocessing';
+import { rankKeyphrases, KeyphraseStat, ReviewKeyphrase } from './keyphraseExtractor';
+import { aggregateEmotions, EmotionAggregate, EmotionAnalysis } from './emotionClassifier';
+import { isFactual, SubjectivityAnalysis } from './subjectivityAnalyzer';
+import { SentimentResult } from './sentimentAnalyzer';
+import { Review, MIN_RATING, MAX_RATING } from './reviewRecord';
+
 export interface DashboardMetrics {
   totalReviews: number;
   positiveCount: number;
@@ -5,10 +12,17 @@ export interface DashboardMetrics {
   neutralCount: number;
   averageSentimentScore: number;
   averageConfidence: number;
+  calibratedCount: number;
+  factualCount: number;
+  averageSubjectivity: number;
   topPositiveWords: WordFrequency[];
   topNegativeWords: WordFrequency[];
   sentimentTrend: TrendPoint[];
   wordCloud: WordFrequency[];
+  keyphrases: KeyphraseStat[];
+  emotionDistribution: EmotionAggregate;
+  averageRating: number | null;
+  ratingBreakdown: RatingBucket[];
 }
 
 export interface WordFrequency {
@@ -25,13 +39,19 @@ export interface TrendPoint {
   averageScore: number;
 }
 
+export interface RatingBucket {
+  rating: number;
+  count: number;
+  averageScore: number;
+}
+
 export interface ChartData {
   labels: string[];
   datasets: {
     label: string;
     data: number[];
     backgroundColor?: string | string[];
-    borderColor?: string;
+    borderColor?: string | string[];
     fill?: boolean;
   }[];
 }
@@ -40,13 +60,56 @@ export interface SentimentDataPoint {
   label: 'Positive' | 'Negative' | 'Neutral';
   score: number;
   confidence: number;
+  calibrated?: boolean;
   tokens: string[];
   positive: string[];
   negative: string[];
+  keyphrases?: ReviewKeyphrase[];
+  emotions?: EmotionAnalysis;
+  subjectivity?: SubjectivityAnalysis;
+  rating?: number | null;
+  productId?: string | null;
   timestamp: string;
 }
 
-export const generateDashboardMetrics = (reviews: SentimentDataPoint[]): DashboardMetrics => {
+// Reviews without a date of their own are placed at fallbackTimestamp, usually the time of analysis
+export const toSentimentDataPoint = (
+  result: SentimentResult,
+  review: Pick<Review, 'rating' | 'productId' | 'timestamp'>,
+  fallbackTimestamp: string,
+  keyphrases?: ReviewKeyphrase[] | null
+): SentimentDataPoint => ({
+  label: result.label,
+  score: result.score,
+  confidence: result.confidence,
+  calibrated: result.calibrated,
+  tokens: result.tokens,
+  positive: result.positive,
+  negative: result.negative,
+  keyphrases: keyphrases ?? undefined,
+  emotions: result.emotions,
+  subjectivity: result.subjectivity,
+  rating: review.rating,
+  productId: review.productId,
+  timestamp: review.timestamp ?? fallbackTimestamp
+});
+
+export interface DashboardOptions {
+  excludeFactual?: boolean;
+}
+
+export const generateDashboardMetrics = (
+  dataPoints: SentimentDataPoint[],
+  options: DashboardOptions = {}
+): DashboardMetrics => {
+  const isFactualPoint = (r: SentimentDataPoint) => Boolean(r.subjectivity && isFactual(r.subjectivity));
+  const factualCount = dataPoints.filter(isFactualPoint).length;
+  const reviews = options.excludeFactual ? dataPoints.filter(r => !isFactualPoint(r)) : dataPoints;
+  const scored = reviews.filter(r => r.subjectivity);
+  const averageSubjectivity = scored.length > 0
+    ? scored.reduce((sum, r) => sum + (r.subjectivity as SubjectivityAnalysis).score, 0) / scored.length
+    : 0;
+
   const totalReviews = reviews.length;
 
   const positiveCount = reviews.filter(r => r.label === 'Positive').length;
@@ -61,11 +124,23 @@ export const generateDashboardMetrics = (reviews: SentimentDataPoint[]): Dashboa
     ? reviews.reduce((sum, r) => sum + r.confidence, 0) / reviews.length
     : 0;
 
+  const calibratedCount = reviews.filter(r => r.calibrated).length;
+
   const topPositiveWords = extractTopWords(reviews, 'positive', 10);
   const topNegativeWords = extractTopWords(reviews, 'negative', 10);
-  const wordCloud = extractWordCloud(reviews, 20);
+  const keyphrases = rankKeyphrases(reviews.map(r => r.keyphrases || []), 20);
+  const wordCloud = reviews.some(r => r.keyphrases)
+    ? keyphrases.map(({ phrase, frequency, sentiment }) => ({ word: phrase, frequency, sentiment }))
+    : extractWordCloud(reviews, 20);
 
   const sentimentTrend = generateTrendData(reviews);
+  const emotionDistribution = aggregateEmotions(reviews.flatMap(r => (r.emotions ? [r.emotions] : [])));
+
+  const ratingBreakdown = generateRatingBreakdown(reviews);
+  const ratedCount = ratingBreakdown.reduce((sum, b) => sum + b.count, 0);
+  const averageRating = ratedCount > 0
+    ? ratingBreakdown.reduce((sum, b) => sum + b.rating * b.count, 0) / ratedCount
+    : null;
 
   return {
     totalReviews,
@@ -74,13 +149,36 @@ export const generateDashboardMetrics = (reviews: SentimentDataPoint[]): Dashboa
     neutralCount,
     averageSentimentScore,
     averageConfidence,
+    calibratedCount,
+    factualCount,
+    averageSubjectivity,
     topPositiveWords,
     topNegativeWords,
     sentimentTrend,
-    wordCloud
+    wordCloud,
+    keyphrases,
+    emotionDistribution,
+    averageRating,
+    ratingBreakdown
   };
 };
 
+// Half stars are rounded to the nearest whole star
+const generateRatingBreakdown = (reviews: SentimentDataPoint[]): RatingBucket[] => {
+  const buckets: RatingBucket[] = [];
+
+  for (let rating = MIN_RATING; rating <= MAX_RATING; rating++) {
+    const group = reviews.filter(r => typeof r.rating === 'number' && Math.round(r.rating) === rating);
+    buckets.push({
+      rating,
+      count: group.length,
+      averageScore: group.length > 0 ? group.reduce((sum, r) => sum + r.score, 0) / group.length : 0
+    });
+  }
+
+  return buckets;
+};
+
 const extractTopWords = (
   reviews: SentimentDataPoint[],
   type: 'positive' | 'negative',
@@ -91,7 +189,8 @@ const extractTopWords = (
   for (const review of reviews) {
     const words = type === 'positive' ? review.positive : review.negative;
     for (const word of words) {
-      wordFreq.set(word, (wordFreq.get(word) || 0) + 1);
+      const lemma = lemmatizeWord(word);
+      wordFreq.set(lemma, (wordFreq.get(lemma) || 0) + 1);
     }
   }
 
@@ -114,8 +213,9 @@ const extractWordCloud = (reviews: SentimentDataPoint[], limit: number): WordFre
 
     for (const token of tokens) {
       if (token.length > 2) {
-        const existing = wordFreq.get(token);
-        wordFreq.set(token, {
+        const lemma = lemmatizeWord(token);
+        const existing = wordFreq.get(lemma);
+        wordFreq.set(lemma, {
           count: (existing?.count || 0) + 1,
           sentiment
         });
@@ -232,6 +332,22 @@ export const generateWordFrequencyChart = (
   };
 };
 
+export const generateRatingSentimentChart = (metrics: DashboardMetrics): ChartData => {
+  const buckets = metrics.ratingBreakdown;
+
+  return {
+    labels: buckets.map(b => `${b.rating} star${b.rating === 1 ? '' : 's'}`),
+    datasets: [
+      {
+        label: 'Average Sentiment Score by Rating',
+        data: buckets.map(b => b.averageScore),
+        backgroundColor: '#f59e0b',
+        borderColor: '#d97706'
+      }
+    ]
+  };
+};
+
 export const generateSentimentScoreHistogram = (reviews: SentimentDataPoint[]): ChartData => {
   const bins = createHistogramBins(reviews, 10);
 
@@ -342,6 +458,12 @@ export const generateReportSummary = (reviews: SentimentDataPoint[], metrics: Da
     top_words: {
       positive: metrics.topPositiveWords.slice(0, 5),
       negative: metrics.topNegativeWords.slice(0, 5)
+    },
+    top_keyphrases: metrics.keyphrases.slice(0, 10),
+    emotion_distribution: metrics.emotionDistribution,
+    rating_summary: {
+      average_rating: metrics.averageRating === null ? null : metrics.averageRating.toFixed(2),
+      by_rating: metrics.ratingBreakdown.filter(b => b.count > 0)
     }
   };
 };
@@ -363,10 +485,26 @@ const generateKeyInsights = (metrics: DashboardMetrics, sentimentMetrics: Return
     insights.push('Consistent sentiment pattern throughout reviews');
   }
 
-  if (metrics.averageConfidence > 85) {
-    insights.push('High confidence in sentiment classifications');
+  if (metrics.totalReviews === 0) {
+    return insights;
+  }
+
+  // Low stars with positive wording, or the reverse, point at sarcasm or mislabelled ratings
+  const [lowest, highest] = [metrics.ratingBreakdown[0], metrics.ratingBreakdown[metrics.ratingBreakdown.length - 1]];
+  if (lowest.count > 0 && highest.count > 0 && lowest.averageScore >= highest.averageScore) {
+    insights.push('Sentiment does not rise with star rating; check for sarcasm or mismatched ratings');
+  }
+
+  if (metrics.calibratedCount < metrics.totalReviews) {
+    insights.push('Confidence scores are not calibrated; compare them between reviews rather than reading them as accuracy');
+  } else if (metrics.averageConfidence > 85) {
+    insights.push(
+      `High confidence in sentiment classifications: about ${metrics.averageConfidence.toFixed(0)}% of labels are expected to be correct`
+    );
   } else if (metrics.averageConfidence < 65) {
-    insights.push('Low confidence scores suggest ambiguous content');
+    insights.push(
+      `Low confidence scores suggest ambiguous content: only about ${metrics.averageConfidence.toFixed(0)}% of labels are expected to be correct`
+    );
   }
 
   return insights;
@@ -0,0 +1,67 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { loadLabelledDataset, parseDelimited } from './datasetLoader';
+
+const directory = mkdtempSync(join(tmpdir(), 'dataset-'));
+afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+const write = (name: string, content: string) => {
+  const path = join(directory, name);
+  writeFileSync(path, content);
+  return path;
+};
+
+describe('parseDelimited', () => {
+  it('keeps delimiters, escaped quotes and newlines inside quoted fields', () => {
+    expect(parseDelimited('text,label\n"Good, ""really""\nworth it",positive\r\n')).toEqual([
+      ['text', 'label'],
+      ['Good, "really"\nworth it', 'positive']
+    ]);
+  });
+});
+
+describe('loadLabelledDataset', () => {
+  it('loads CSV rows and reports the ones it skips', () => {
+    const path = write('reviews.csv', 'text,label,aspects\nGreat value,pos,price:positive\n,neg,\nMeh,maybe,\n');
+    expect(loadLabelledDataset(path)).toEqual({
+      examples: [{ text: 'Great value', label: 'positive', aspects: { price: 'positive' } }],
+      skipped: [
+        { row: 2, reason: 'missing text' },
+        { row: 3, reason: 'unrecognised label: maybe' }
+      ]
+    });
+  });
+
+  it('skips malformed JSONL lines with their line number instead of throwing', () => {
+    const path = write('reviews.jsonl', [
+      '{"text":"Love it","label":"positive"}',
+      '{"text":"broken',
+      '',
+      '{"review":"Awful","sentiment":0}'
+    ].join('\n'));
+
+    expect(loadLabelledDataset(path, { textField: 'review', labelField: 'sentiment' }).skipped).toEqual([
+      { row: 1, reason: 'missing review' },
+      { row: 2, reason: 'invalid JSON' }
+    ]);
+    expect(loadLabelledDataset(path).examples).toEqual([{ text: 'Love it', label: 'positive', aspects: undefined }]);
+  });
+
+  it('reports JSONL lines that are not objects instead of dropping them silently', () => {
+    const path = write('nulls.jsonl', ['null', '{"text":"Fine","label":"neutral"}', '', '[1]'].join('\n'));
+    expect(loadLabelledDataset(path)).toEqual({
+      examples: [{ text: 'Fine', label: 'neutral', aspects: undefined }],
+      skipped: [
+        { row: 1, reason: 'not a JSON object' },
+        { row: 4, reason: 'not a JSON object' }
+      ]
+    });
+  });
+
+  it('rejects a JSON file whose top level is not an array', () => {
+    const path = write('object.json', '{"text":"Love it","label":"positive"}');
+    expect(() => loadLabelledDataset(path)).toThrow('expected an array of records');
+  });
+});
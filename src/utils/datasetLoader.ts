@@ -0,0 +1,165 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { ClassLabel, LabelledReview, normalizeLabel } from './reviewClassifier';
+
+export interface DatasetOptions {
+  textField: string;
+  labelField: string;
+  aspectsField: string;
+}
+
+export interface SkippedRow {
+  row: number;
+  reason: string;
+}
+
+export interface LabelledDataset {
+  examples: LabelledReview[];
+  skipped: SkippedRow[];
+}
+
+const DEFAULT_DATASET_OPTIONS: DatasetOptions = {
+  textField: 'text',
+  labelField: 'label',
+  aspectsField: 'aspects'
+};
+
+export const parseDelimited = (content: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => !(r.length === 1 && r[0] === ''));
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Entries that are not JSON objects are reported in skipped and left as null, keeping row numbers aligned
+const toRecords = (path: string, content: string, skipped: SkippedRow[]): (Record<string, unknown> | null)[] => {
+  const extension = extname(path).toLowerCase();
+  const toRecord = (value: unknown, row: number) => {
+    if (isRecord(value)) return value;
+    skipped.push({ row, reason: 'not a JSON object' });
+    return null;
+  };
+
+  if (extension === '.jsonl' || extension === '.ndjson') {
+    return content
+      .split(/\r?\n/)
+      .map(line => line.trim())
+      .map((line, idx) => {
+        if (!line) return null;
+        try {
+          return toRecord(JSON.parse(line), idx + 1);
+        } catch {
+          skipped.push({ row: idx + 1, reason: 'invalid JSON' });
+          return null;
+        }
+      });
+  }
+
+  if (extension === '.json') {
+    const parsed: unknown = JSON.parse(content);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`Invalid dataset ${path}: expected an array of records`);
+    }
+    return parsed.map((value, idx) => toRecord(value, idx + 1));
+  }
+
+  const [header, ...rows] = parseDelimited(content, extension === '.tsv' ? '\t' : ',');
+  return rows.map(cells => Object.fromEntries(header.map((name, idx) => [name.trim(), cells[idx]])));
+};
+
+const parseAspectLabels = (raw: unknown): Record<string, ClassLabel> | undefined => {
+  if (raw === undefined || raw === null || raw === '') return undefined;
+
+  let entries: [string, unknown][];
+  if (typeof raw === 'object') {
+    entries = Object.entries(raw as Record<string, unknown>);
+  } else {
+    const text = String(raw).trim();
+    entries = text.startsWith('{')
+      ? Object.entries(JSON.parse(text) as Record<string, unknown>)
+      : text.split(';').map(pair => pair.split(':').map(part => part.trim()) as [string, string]);
+  }
+
+  const aspects: Record<string, ClassLabel> = {};
+  for (const [name, value] of entries) {
+    const label = normalizeLabel(String(value));
+    if (name && label) aspects[name] = label;
+  }
+
+  return Object.keys(aspects).length > 0 ? aspects : undefined;
+};
+
+export const loadLabelledDataset = (
+  path: string,
+  options: Partial<DatasetOptions> = {}
+): LabelledDataset => {
+  const { textField, labelField, aspectsField } = { ...DEFAULT_DATASET_OPTIONS, ...options };
+  const examples: LabelledReview[] = [];
+  const skipped: SkippedRow[] = [];
+  const records = toRecords(path, readFileSync(path, 'utf8'), skipped);
+
+  records.forEach((record, idx) => {
+    const row = idx + 1;
+    if (!record) return;
+
+    const text = record[textField];
+    const rawLabel = record[labelField];
+
+    if (typeof text !== 'string' || text.trim().length === 0) {
+      skipped.push({ row, reason: `missing ${textField}` });
+      return;
+    }
+
+    const label = typeof rawLabel === 'string' || typeof rawLabel === 'number' ? normalizeLabel(rawLabel) : null;
+    if (!label) {
+      skipped.push({ row, reason: `unrecognised ${labelField}: ${String(rawLabel)}` });
+      return;
+    }
+
+    try {
+      examples.push({ text, label, aspects: parseAspectLabels(record[aspectsField]) });
+    } catch {
+      skipped.push({ row, reason: `malformed ${aspectsField}` });
+    }
+  });
+
+  return { examples, skipped: skipped.sort((a, b) => a.row - b.row) };
+};
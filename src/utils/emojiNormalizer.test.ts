@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { describeEmoji, normalizeEmoji, summarizeEmoji } from './emojiNormalizer';
+import { analyzeSentiment } from './sentimentAnalyzer';
+
+describe('normalizeEmoji', () => {
+  it('maps emoticons to emoji and drops skin-tone and presentation modifiers', () => {
+    expect(normalizeEmoji('Nice :) 👍🏽')).toBe('Nice 🙂 👍');
+  });
+
+  it('leaves emoticon-like text inside words alone', () => {
+    expect(normalizeEmoji('see http://example.com/:path')).toBe('see http://example.com/:path');
+  });
+});
+
+describe('describeEmoji', () => {
+  it('spells emoji out for the BERT tokenizer', () => {
+    expect(describeEmoji('Love it 😍').replace(/\s+/g, ' ').trim()).toBe('Love it heart eyes');
+  });
+});
+
+describe('summarizeEmoji', () => {
+  it('counts emoji and emoticons and averages their polarity', () => {
+    const summary = summarizeEmoji('Great 😍😍 but :( ™');
+
+    expect(summary).toMatchObject({ emojiCount: 2, emoticonCount: 1, positiveEmojiCount: 2, negativeEmojiCount: 1 });
+    expect(summary.emojiPolarity).toBeGreaterThan(0);
+  });
+});
+
+describe('emoji sentiment', () => {
+  it.each([
+    ['Arrived today 😍', 'Positive'],
+    ['Arrived today 😡', 'Negative'],
+    ['Arrived today :(', 'Negative']
+  ])('scores %s as %s', (text, label) => {
+    expect(analyzeSentiment(text).label).toBe(label);
+  });
+});
@@ -0,0 +1,59 @@
+import emojiData from '../data/emoji.json';
+
+export interface EmojiSummary {
+  emojiCount: number;
+  emoticonCount: number;
+  positiveEmojiCount: number;
+  negativeEmojiCount: number;
+  emojiPolarity: number;
+}
+
+const EMOJI = emojiData.emoji as Record<string, { name: string; score: number }>;
+const EMOTICONS = emojiData.emoticons as Record<string, string>;
+
+// Copyright and trademark signs are pictographic in Unicode but carry no sentiment
+export const EMOJI_CLASS = '(?![\\u00a9\\u00ae\\u2122])\\p{Extended_Pictographic}';
+
+export const EMOJI_LEXICON: Record<string, number> = Object.fromEntries(
+  Object.entries(EMOJI).map(([symbol, { score }]) => [symbol, score])
+);
+
+const EMOJI_PATTERN = new RegExp(EMOJI_CLASS, 'gu');
+const PRESENTATION_MODIFIERS = /\uFE0E|\uFE0F|[\u{1F3FB}-\u{1F3FF}]/gu;
+const ZWJ_SEQUENCE = /\u200D\p{Extended_Pictographic}/gu;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const EMOTICON_PATTERN = new RegExp(
+  `(^|\\s)(${Object.keys(EMOTICONS).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})(?=$|\\s|[.,!?])`,
+  'g'
+);
+
+export const normalizeEmoji = (text: string): string =>
+  text
+    .replace(PRESENTATION_MODIFIERS, '')
+    .replace(ZWJ_SEQUENCE, '')
+    .replace(EMOTICON_PATTERN, (_, lead: string, emoticon: string) => `${lead}${EMOTICONS[emoticon]}`);
+
+export const emojiName = (symbol: string): string | null => EMOJI[symbol]?.name ?? null;
+
+export const describeEmoji = (text: string): string =>
+  normalizeEmoji(text).replace(EMOJI_PATTERN, symbol => {
+    const name = emojiName(symbol);
+    return name ? ` ${name} ` : symbol;
+  });
+
+export const summarizeEmoji = (text: string): EmojiSummary => {
+  const stripped = text.replace(PRESENTATION_MODIFIERS, '').replace(ZWJ_SEQUENCE, '');
+  const emojiCount = (stripped.match(EMOJI_PATTERN) || []).length;
+  const emoticonCount = (stripped.match(EMOTICON_PATTERN) || []).length;
+  const scores = (normalizeEmoji(text).match(EMOJI_PATTERN) || []).map(symbol => EMOJI_LEXICON[symbol] ?? 0);
+
+  return {
+    emojiCount,
+    emoticonCount,
+    positiveEmojiCount: scores.filter(score => score > 0).length,
+    negativeEmojiCount: scores.filter(score => score < 0).length,
+    emojiPolarity: scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : 0
+  };
+};
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { aggregateEmotions, classifyEmotions } from './emotionClassifier';
+
+describe('classifyEmotions', () => {
+  it.each([
+    ['I am so happy with it', 'joy'],
+    ['Scared it will explode', 'fear'],
+    ['Disgusting smell, I am furious', 'anger'],
+    ['Totally worth the wait 😍', 'joy']
+  ])('finds the dominant emotion of %s', (text, emotion) => {
+    expect(classifyEmotions(text).dominant).toBe(emotion);
+  });
+
+  it('strengthens an emotion after an intensifier', () => {
+    expect(classifyEmotions('I am so happy').scores.joy).toBeGreaterThan(classifyEmotions('I am happy').scores.joy);
+  });
+
+  it('turns negated joy into weaker disappointment and drops negated anger', () => {
+    const negatedJoy = classifyEmotions('I was not happy at all');
+    expect(negatedJoy.dominant).toBe('disappointment');
+    expect(negatedJoy.triggers).toEqual([{ word: 'happy', emotion: 'disappointment', weight: 0.35, negated: true }]);
+
+    expect(classifyEmotions('Not angry').dominant).toBeNull();
+  });
+
+  it('returns no emotions for unsupported languages', () => {
+    expect(classifyEmotions('La batería es mala', 'es')).toMatchObject({ dominant: null, intensity: 0, triggers: [] });
+  });
+});
+
+describe('aggregateEmotions', () => {
+  it('counts dominant emotions and averages distributions over reviews with emotion', () => {
+    const aggregate = aggregateEmotions(['I am so happy', 'I am furious', 'It is a phone'].map(text => classifyEmotions(text)));
+
+    expect(aggregate).toMatchObject({ reviews: 3, withEmotion: 2 });
+    expect(aggregate.dominantCounts).toMatchObject({ joy: 1, anger: 1 });
+    expect(aggregate.averageDistribution).toMatchObject({ joy: 0.5, anger: 0.5 });
+  });
+});
@@ -0,0 +1,173 @@
+import emotionData from '../data/emotions.json';
+import { getLanguageResources, DEFAULT_LANGUAGE } from './languageResources';
+import { normalizeEmoji, EMOJI_CLASS } from './emojiNormalizer';
+import { normalizeNoisyText } from './textNormalizer';
+import { lemmatizeWord } from './advancedPreprocessing';
+
+export type Emotion =
+  | 'joy'
+  | 'trust'
+  | 'anticipation'
+  | 'surprise'
+  | 'anger'
+  | 'disgust'
+  | 'fear'
+  | 'sadness'
+  | 'disappointment';
+
+export type EmotionScores = Record<Emotion, number>;
+
+export interface EmotionTrigger {
+  word: string;
+  emotion: Emotion;
+  weight: number;
+  negated: boolean;
+}
+
+export interface EmotionAnalysis {
+  scores: EmotionScores;
+  distribution: EmotionScores;
+  dominant: Emotion | null;
+  intensity: number;
+  triggers: EmotionTrigger[];
+}
+
+export interface EmotionAggregate {
+  reviews: number;
+  withEmotion: number;
+  dominantCounts: EmotionScores;
+  averageDistribution: EmotionScores;
+}
+
+export const EMOTIONS = emotionData.emotions as Emotion[];
+
+export const EMOTION_LANGUAGES = [emotionData.language];
+
+const EMOTION_LEXICON = new Map<string, { emotion: Emotion; intensity: number }[]>();
+for (const [emotion, words] of Object.entries(emotionData.lexicon) as [Emotion, Record<string, number>][]) {
+  for (const [word, intensity] of Object.entries(words)) {
+    EMOTION_LEXICON.set(word, [...(EMOTION_LEXICON.get(word) || []), { emotion, intensity }]);
+  }
+}
+
+const MULTIWORDS = new Set(Array.from(EMOTION_LEXICON.keys()).filter(word => word.includes('_')));
+
+// A negated emotion word rarely expresses nothing: "not happy" reads as
+// disappointment and "not worried" as trust. Emotions without a sensible
+// counterpart ("not angry") are dropped instead.
+const NEGATED_EMOTIONS: Partial<Record<Emotion, Emotion>> = {
+  joy: 'disappointment',
+  trust: 'disappointment',
+  anticipation: 'disappointment',
+  fear: 'trust',
+  sadness: 'joy',
+  disappointment: 'joy'
+};
+
+const NEGATION_WEIGHT = 0.5;
+const NEGATION_WINDOW = 3;
+const MODIFIER_WINDOW = 2;
+
+const CLAUSE_BREAK = /^[.,;:!?]+$/;
+const EMOTION_TOKEN = new RegExp(`${EMOJI_CLASS}|[\\p{L}\\p{M}\\p{N}]+|[.,;:!?]+`, 'gu');
+
+const emptyScores = (): EmotionScores =>
+  Object.fromEntries(EMOTIONS.map(emotion => [emotion, 0])) as EmotionScores;
+
+const tokenizeForEmotion = (text: string): string[] => {
+  const raw = normalizeEmoji(normalizeNoisyText(text).text)
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .match(EMOTION_TOKEN) || [];
+
+  const merged: string[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const bigram = `${raw[i]}_${raw[i + 1]}`;
+    if (MULTIWORDS.has(bigram)) {
+      merged.push(bigram);
+      i++;
+    } else {
+      merged.push(raw[i]);
+    }
+  }
+
+  return merged;
+};
+
+const lookupEmotions = (word: string) => EMOTION_LEXICON.get(word) ?? EMOTION_LEXICON.get(lemmatizeWord(word));
+
+export const classifyEmotions = (text: string, language = DEFAULT_LANGUAGE): EmotionAnalysis => {
+  const scores = emptyScores();
+  const triggers: EmotionTrigger[] = [];
+
+  if (EMOTION_LANGUAGES.includes(language)) {
+    const { negators, modifiers } = getLanguageResources(language);
+    let negatorPosition = -Infinity;
+    let modifier: { factor: number; position: number } | null = null;
+
+    tokenizeForEmotion(text).forEach((token, position) => {
+      if (CLAUSE_BREAK.test(token)) {
+        negatorPosition = -Infinity;
+        modifier = null;
+        return;
+      }
+      if (negators.has(token)) {
+        negatorPosition = position;
+        return;
+      }
+      if (token in modifiers) {
+        modifier = { factor: modifiers[token], position };
+        return;
+      }
+
+      const entries = lookupEmotions(token);
+      if (!entries) return;
+
+      const negated = position - negatorPosition <= NEGATION_WINDOW;
+      const factor = modifier && position - modifier.position <= MODIFIER_WINDOW ? modifier.factor : 1;
+      modifier = null;
+
+      for (const { emotion, intensity } of entries) {
+        const target = negated ? NEGATED_EMOTIONS[emotion] : emotion;
+        if (!target) continue;
+
+        const weight = Math.round(intensity * factor * (negated ? NEGATION_WEIGHT : 1) * 1000) / 1000;
+        scores[target] += weight;
+        triggers.push({ word: token.replace(/_/g, ' '), emotion: target, weight, negated });
+      }
+    });
+  }
+
+  const intensity = EMOTIONS.reduce((sum, emotion) => sum + scores[emotion], 0);
+  const distribution = emptyScores();
+  let dominant: Emotion | null = null;
+
+  for (const emotion of EMOTIONS) {
+    scores[emotion] = Math.round(scores[emotion] * 1000) / 1000;
+    distribution[emotion] = intensity > 0 ? scores[emotion] / intensity : 0;
+    if (scores[emotion] > 0 && (!dominant || scores[emotion] > scores[dominant])) dominant = emotion;
+  }
+
+  return { scores, distribution, dominant, intensity: Math.round(intensity * 1000) / 1000, triggers };
+};
+
+export const aggregateEmotions = (analyses: EmotionAnalysis[]): EmotionAggregate => {
+  const dominantCounts = emptyScores();
+  const averageDistribution = emptyScores();
+  const withEmotion = analyses.filter(analysis => analysis.dominant);
+
+  for (const analysis of withEmotion) {
+    dominantCounts[analysis.dominant as Emotion]++;
+    for (const emotion of EMOTIONS) {
+      averageDistribution[emotion] += analysis.distribution[emotion] / withEmotion.length;
+    }
+  }
+
+  return {
+    reviews: analyses.length,
+    withEmotion: withEmotion.length,
+    dominantCounts,
+    averageDistribution
+  };
+};
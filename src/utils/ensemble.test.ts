@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { AnalyzerVote, combineVotes, StackingExample, trainStacker } from './ensemble';
+import { ClassLabel } from './reviewClassifier';
+
+const vote = (analyzer: string, positive: number, negative: number, weight = 1): AnalyzerVote => {
+  const neutral = 1 - positive - negative;
+  const shares: Record<ClassLabel, number> = { positive, negative, neutral };
+  const predicted_class = (Object.keys(shares) as ClassLabel[]).reduce((a, b) => (shares[b] > shares[a] ? b : a));
+  return { analyzer, predicted_class, positive, negative, neutral, confidence: shares[predicted_class] * 100, weight };
+};
+
+describe('combineVotes', () => {
+  it('averages the distributions by analyzer weight', () => {
+    const verdict = combineVotes([vote('lexicon', 0.7, 0.2), vote('classifier', 0.1, 0.8, 3)]);
+
+    expect(verdict.predicted_class).toBe('negative');
+    expect(verdict.negative).toBeCloseTo(0.65);
+    expect(verdict.disagreement).toBe(true);
+  });
+
+  it('lets the majority win and breaks ties on the weighted average', () => {
+    const votes = [vote('lexicon', 0.6, 0.3), vote('bert', 0.55, 0.4), vote('classifier', 0.1, 0.85)];
+    expect(combineVotes(votes, { strategy: 'majority' }).predicted_class).toBe('positive');
+
+    const tied = [vote('lexicon', 0.6, 0.3), vote('classifier', 0.1, 0.85)];
+    expect(combineVotes(tied, { strategy: 'majority' }).predicted_class).toBe('negative');
+  });
+
+  it('requires a trained stacker for the stacking strategy', () => {
+    expect(() => combineVotes([vote('lexicon', 0.6, 0.3)], { strategy: 'stacking' })).toThrow(/stacker/);
+  });
+});
+
+describe('trainStacker', () => {
+  it('learns to follow the analyzer that matches the gold labels', () => {
+    // The classifier is always right, the lexicon always says positive
+    const examples: StackingExample[] = (['positive', 'negative'] as ClassLabel[]).flatMap(label => [
+      { label, votes: [vote('lexicon', 0.8, 0.1), vote('classifier', label === 'positive' ? 0.8 : 0.1, label === 'positive' ? 0.1 : 0.8)] }
+    ]);
+    const stacker = trainStacker([...examples, ...examples], ['lexicon', 'classifier']);
+
+    const verdict = combineVotes([vote('lexicon', 0.8, 0.1), vote('classifier', 0.1, 0.8)], { strategy: 'stacking', stacker });
+    expect(verdict.predicted_class).toBe('negative');
+  });
+});
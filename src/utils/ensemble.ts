@@ -0,0 +1,283 @@
+import { SentimentResult } from './sentimentAnalyzer';
+import { SentimentPrediction } from './bertModel';
+import { ClassifierPrediction, ClassLabel, CLASS_ORDER } from './reviewClassifier';
+import { calibrateDistribution, topClass, AnalyzerCalibration, ClassDistribution } from './calibration';
+
+export type EnsembleStrategy = 'weighted' | 'stacking' | 'majority';
+
+export const ENSEMBLE_STRATEGIES: EnsembleStrategy[] = ['weighted', 'stacking', 'majority'];
+
+export interface AnalyzerVote {
+  analyzer: string;
+  predicted_class: ClassLabel;
+  positive: number;
+  negative: number;
+  neutral: number;
+  confidence: number;
+  weight: number;
+}
+
+export interface EnsembleVerdict {
+  label: 'Positive' | 'Negative' | 'Neutral';
+  predicted_class: ClassLabel;
+  positive: number;
+  negative: number;
+  neutral: number;
+  confidence: number;
+  strategy: EnsembleStrategy;
+  disagreement: boolean;
+  votes: AnalyzerVote[];
+}
+
+export interface SerializedStacker {
+  format: 'ensemble-stacker-json';
+  version: 1;
+  analyzers: string[];
+  labels: ClassLabel[];
+  bias: number[];
+  weights: number[][];
+  trainedAt: string;
+  trainingExamples: number;
+}
+
+export interface EnsembleOptions {
+  strategy: EnsembleStrategy;
+  weights: Record<string, number>;
+  stacker?: SerializedStacker;
+  calibration?: AnalyzerCalibration;
+}
+
+export interface EnsembleInputs {
+  lexicon: SentimentResult;
+  bert?: SentimentPrediction | null;
+  classifier?: ClassifierPrediction | null;
+}
+
+export interface StackingExample {
+  votes: AnalyzerVote[];
+  label: ClassLabel;
+}
+
+export const DEFAULT_ENSEMBLE_WEIGHTS: Record<string, number> = {
+  lexicon: 1,
+  bert: 1,
+  classifier: 1.5
+};
+
+const DEFAULT_ENSEMBLE_OPTIONS: EnsembleOptions = {
+  strategy: 'weighted',
+  weights: DEFAULT_ENSEMBLE_WEIGHTS
+};
+
+const VERDICT_LABELS: Record<ClassLabel, EnsembleVerdict['label']> = {
+  positive: 'Positive',
+  negative: 'Negative',
+  neutral: 'Neutral'
+};
+
+export const isEnsembleStrategy = (value: unknown): value is EnsembleStrategy =>
+  typeof value === 'string' && (ENSEMBLE_STRATEGIES as string[]).includes(value);
+
+const toVote = (analyzer: string, distribution: ClassDistribution, weight: number): AnalyzerVote => {
+  const predicted_class = topClass(distribution);
+  return {
+    analyzer,
+    predicted_class,
+    positive: distribution.positive,
+    negative: distribution.negative,
+    neutral: distribution.neutral,
+    confidence: distribution[predicted_class] * 100,
+    weight
+  };
+};
+
+export const collectVotes = (
+  inputs: EnsembleInputs,
+  weights: Record<string, number> = DEFAULT_ENSEMBLE_WEIGHTS
+): AnalyzerVote[] => {
+  const weightOf = (analyzer: string) => weights[analyzer] ?? 1;
+  const votes = [toVote('lexicon', inputs.lexicon.probabilities, weightOf('lexicon'))];
+
+  if (inputs.bert) {
+    votes.push(toVote('bert', inputs.bert, weightOf('bert')));
+  }
+
+  if (inputs.classifier) {
+    votes.push(toVote('classifier', inputs.classifier, weightOf('classifier')));
+  }
+
+  return votes;
+};
+
+const weightedAverage = (votes: AnalyzerVote[]): ClassDistribution => {
+  const totalWeight = votes.reduce((sum, vote) => sum + vote.weight, 0) || 1;
+  return Object.fromEntries(CLASS_ORDER.map(label => [
+    label,
+    votes.reduce((sum, vote) => sum + vote[label] * vote.weight, 0) / totalWeight
+  ])) as ClassDistribution;
+};
+
+const majorityVote = (votes: AnalyzerVote[]): { distribution: ClassDistribution; winner: ClassLabel } => {
+  const counts = Object.fromEntries(
+    CLASS_ORDER.map(label => [label, votes.filter(vote => vote.predicted_class === label).length])
+  ) as ClassDistribution;
+  const top = Math.max(...CLASS_ORDER.map(label => counts[label]));
+  const tied = CLASS_ORDER.filter(label => counts[label] === top);
+  const average = weightedAverage(votes);
+  const winner = tied.reduce((best, label) => (average[label] > average[best] ? label : best), tied[0]);
+
+  const distribution = Object.fromEntries(
+    CLASS_ORDER.map(label => [label, votes.length > 0 ? counts[label] / votes.length : 0])
+  ) as ClassDistribution;
+
+  return { distribution, winner };
+};
+
+const softmax = (logits: number[]): number[] => {
+  const max = Math.max(...logits);
+  const exps = logits.map(l => Math.exp(l - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  return exps.map(e => e / sum);
+};
+
+const stackingFeatures = (votes: AnalyzerVote[], analyzers: string[]): number[] =>
+  analyzers.flatMap(analyzer => {
+    const vote = votes.find(v => v.analyzer === analyzer);
+    return CLASS_ORDER.map(label => (vote ? vote[label] : 1 / CLASS_ORDER.length));
+  });
+
+const stackedDistribution = (votes: AnalyzerVote[], stacker: SerializedStacker): ClassDistribution => {
+  const features = stackingFeatures(votes, stacker.analyzers);
+  const probabilities = softmax(stacker.bias.map((bias, c) =>
+    features.reduce((sum, value, i) => sum + value * stacker.weights[c][i], bias)
+  ));
+
+  return Object.fromEntries(stacker.labels.map((label, idx) => [label, probabilities[idx]])) as ClassDistribution;
+};
+
+export const combineVotes = (
+  votes: AnalyzerVote[],
+  options: Partial<EnsembleOptions> = {}
+): EnsembleVerdict => {
+  const { strategy, stacker, calibration } = { ...DEFAULT_ENSEMBLE_OPTIONS, ...options };
+
+  let distribution: ClassDistribution;
+  let predicted_class: ClassLabel;
+
+  if (strategy === 'majority') {
+    const majority = majorityVote(votes);
+    distribution = majority.distribution;
+    predicted_class = majority.winner;
+  } else if (strategy === 'stacking') {
+    if (!stacker) {
+      throw new Error('Stacking ensemble requires a trained stacker');
+    }
+    distribution = stackedDistribution(votes, stacker);
+    predicted_class = topClass(distribution);
+  } else {
+    distribution = weightedAverage(votes);
+    predicted_class = topClass(distribution);
+  }
+
+  if (calibration) {
+    distribution = calibrateDistribution(distribution, calibration, predicted_class);
+  }
+
+  return {
+    label: VERDICT_LABELS[predicted_class],
+    predicted_class,
+    positive: distribution.positive,
+    negative: distribution.negative,
+    neutral: distribution.neutral,
+    confidence: distribution[predicted_class] * 100,
+    strategy,
+    disagreement: new Set(votes.map(vote => vote.predicted_class)).size > 1,
+    votes
+  };
+};
+
+export const reconcilePredictions = (
+  inputs: EnsembleInputs,
+  options: Partial<EnsembleOptions> = {}
+): EnsembleVerdict => {
+  const config = { ...DEFAULT_ENSEMBLE_OPTIONS, ...options };
+  return combineVotes(collectVotes(inputs, config.weights), config);
+};
+
+export const trainStacker = (
+  examples: StackingExample[],
+  analyzers: string[],
+  epochs = 300,
+  learningRate = 0.5
+): SerializedStacker => {
+  if (examples.length === 0) {
+    throw new Error('Cannot train a stacker on an empty dataset');
+  }
+
+  const featureCount = analyzers.length * CLASS_ORDER.length;
+  const bias = CLASS_ORDER.map(() => 0);
+  const weights = CLASS_ORDER.map(() => new Array<number>(featureCount).fill(0));
+  const rows = examples.map(e => stackingFeatures(e.votes, analyzers));
+  const targets = examples.map(e => CLASS_ORDER.indexOf(e.label));
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const biasGradient = CLASS_ORDER.map(() => 0);
+    const weightGradient = CLASS_ORDER.map(() => new Array<number>(featureCount).fill(0));
+
+    rows.forEach((features, idx) => {
+      const probabilities = softmax(bias.map((b, c) =>
+        features.reduce((sum, value, i) => sum + value * weights[c][i], b)
+      ));
+
+      for (let c = 0; c < CLASS_ORDER.length; c++) {
+        const gradient = probabilities[c] - (targets[idx] === c ? 1 : 0);
+        biasGradient[c] += gradient;
+        features.forEach((value, i) => {
+          weightGradient[c][i] += gradient * value;
+        });
+      }
+    });
+
+    for (let c = 0; c < CLASS_ORDER.length; c++) {
+      bias[c] -= (learningRate * biasGradient[c]) / rows.length;
+      for (let i = 0; i < featureCount; i++) {
+        weights[c][i] -= (learningRate * weightGradient[c][i]) / rows.length;
+      }
+    }
+  }
+
+  const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+  return {
+    format: 'ensemble-stacker-json',
+    version: 1,
+    analyzers,
+    labels: CLASS_ORDER,
+    bias: bias.map(round),
+    weights: weights.map(row => row.map(round)),
+    trainedAt: new Date().toISOString(),
+    trainingExamples: examples.length
+  };
+};
+
+export const aggregateVerdicts = (verdicts: EnsembleVerdict[]) => {
+  const total = verdicts.length;
+  const positive = verdicts.filter(v => v.predicted_class === 'positive').length;
+  const negative = verdicts.filter(v => v.predicted_class === 'negative').length;
+  const neutral = verdicts.filter(v => v.predicted_class === 'neutral').length;
+  const disagreements = verdicts.filter(v => v.disagreement).length;
+  const denominator = total || 1;
+
+  return {
+    total,
+    positive,
+    negative,
+    neutral,
+    positivePercentage: (positive / denominator) * 100,
+    negativePercentage: (negative / denominator) * 100,
+    neutralPercentage: (neutral / denominator) * 100,
+    avgConfidence: verdicts.reduce((sum, v) => sum + v.confidence, 0) / denominator,
+    disagreements,
+    disagreementPercentage: (disagreements / denominator) * 100
+  };
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { computeMetrics, computeReliability, renderMarkdownReport, EvaluationExample } from './evaluation';
+
+describe('computeMetrics', () => {
+  const examples: EvaluationExample[] = [
+    { gold: 'positive', predicted: 'positive' },
+    { gold: 'positive', predicted: 'negative' },
+    { gold: 'negative', predicted: 'negative' },
+    { gold: 'negative', predicted: 'negative' }
+  ];
+
+  it('computes accuracy, per-class scores and the confusion matrix', () => {
+    const metrics = computeMetrics(examples);
+
+    expect(metrics.accuracy).toBe(0.75);
+    expect(metrics.perClass.positive).toEqual({ precision: 1, recall: 0.5, f1: 0.6667, support: 2 });
+    expect(metrics.perClass.negative).toEqual({ precision: 0.6667, recall: 1, f1: 0.8, support: 2 });
+    expect(metrics.confusionMatrix.positive.negative).toBe(1);
+  });
+
+  it('averages macro-F1 over the classes present in the gold labels only', () => {
+    expect(computeMetrics(examples).macroF1).toBe(0.7333);
+  });
+
+  it('counts a combined prediction only when the label and every gold aspect match', () => {
+    const metrics = computeMetrics([
+      { gold: 'positive', predicted: 'positive', goldAspects: { Battery: 'positive' }, predictedAspects: { battery: 'positive' } },
+      { gold: 'positive', predicted: 'positive', goldAspects: { Camera: 'negative' }, predictedAspects: { Camera: 'positive' } },
+      { gold: 'negative', predicted: 'positive', goldAspects: { Shipping: 'negative' }, predictedAspects: { Shipping: 'negative' } },
+      { gold: 'neutral', predicted: 'neutral' }
+    ]);
+
+    expect(metrics.aspectLabelledExamples).toBe(3);
+    expect(metrics.combinedPredictionAccuracy).toBe(0.3333);
+  });
+
+  it('reports no combined accuracy without aspect labels', () => {
+    expect(computeMetrics(examples).combinedPredictionAccuracy).toBeNull();
+  });
+});
+
+describe('renderMarkdownReport', () => {
+  const metrics = computeMetrics([{ gold: 'positive', predicted: 'positive' }]);
+
+  it('renders the same bytes for the same metrics when no timestamp is set', () => {
+    const report = () => renderMarkdownReport({ dataset: 'reviews.csv', analyzers: { lexicon: metrics } });
+    expect(report()).toBe(report());
+    expect(report()).not.toContain('Generated');
+  });
+
+  it('includes the timestamp when one is set', () => {
+    const report = { dataset: 'reviews.csv', generatedAt: '2024-01-01T00:00:00.000Z', analyzers: { lexicon: metrics } };
+    expect(renderMarkdownReport(report)).toContain('Generated 2024-01-01T00:00:00.000Z');
+  });
+});
+
+describe('computeReliability', () => {
+  it('measures the gap between confidence and accuracy per bin', () => {
+    const report = computeReliability([
+      { confidence: 0.9, correct: true },
+      { confidence: 0.9, correct: false },
+      { confidence: 0.3, correct: false },
+      { confidence: 0.3, correct: false }
+    ]);
+
+    expect(report.bins[8]).toMatchObject({ count: 2, avgConfidence: 0.9, accuracy: 0.5 });
+    expect(report.expectedCalibrationError).toBe(0.35);
+    expect(report.maxCalibrationError).toBe(0.4);
+  });
+});
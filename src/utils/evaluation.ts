@@ -0,0 +1,240 @@
+import { ClassLabel, CLASS_ORDER } from './reviewClassifier';
+
+export interface ClassMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export type ConfusionMatrix = Record<ClassLabel, Record<ClassLabel, number>>;
+
+export interface EvaluationMetrics {
+  examples: number;
+  accuracy: number;
+  macroF1: number;
+  perClass: Record<ClassLabel, ClassMetrics>;
+  confusionMatrix: ConfusionMatrix;
+  combinedPredictionAccuracy: number | null;
+  aspectLabelledExamples: number;
+}
+
+export interface EvaluationExample {
+  gold: ClassLabel;
+  predicted: ClassLabel;
+  goldAspects?: Record<string, ClassLabel>;
+  predictedAspects?: Record<string, ClassLabel>;
+}
+
+export interface EvaluationReport {
+  dataset: string;
+  // Left out unless asked for, so reruns on the same data produce byte-identical reports
+  generatedAt?: string;
+  analyzers: Record<string, EvaluationMetrics>;
+}
+
+export interface ConfidenceSample {
+  confidence: number;
+  correct: boolean;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  avgConfidence: number;
+  accuracy: number;
+}
+
+export interface ReliabilityReport {
+  examples: number;
+  expectedCalibrationError: number;
+  maxCalibrationError: number;
+  bins: ReliabilityBin[];
+}
+
+export interface CalibrationReport {
+  dataset: string;
+  generatedAt: string;
+  method: string;
+  fitExamples: number;
+  heldOutExamples: number;
+  analyzers: Record<string, { calibration: string | null; before: ReliabilityReport; after: ReliabilityReport }>;
+}
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+const emptyMatrix = (): ConfusionMatrix => Object.fromEntries(
+  CLASS_ORDER.map(gold => [gold, Object.fromEntries(CLASS_ORDER.map(pred => [pred, 0]))])
+) as ConfusionMatrix;
+
+const aspectsMatch = (gold: Record<string, ClassLabel>, predicted: Record<string, ClassLabel> = {}): boolean => {
+  const normalizedPredicted = new Map(
+    Object.entries(predicted).map(([name, label]) => [name.toLowerCase(), label])
+  );
+  return Object.entries(gold).every(([name, label]) => normalizedPredicted.get(name.toLowerCase()) === label);
+};
+
+export const computeMetrics = (examples: EvaluationExample[]): EvaluationMetrics => {
+  const confusionMatrix = emptyMatrix();
+  for (const { gold, predicted } of examples) {
+    confusionMatrix[gold][predicted]++;
+  }
+
+  const correct = examples.filter(e => e.gold === e.predicted).length;
+
+  const perClass = Object.fromEntries(CLASS_ORDER.map(label => {
+    const truePositives = confusionMatrix[label][label];
+    const predictedCount = CLASS_ORDER.reduce((sum, gold) => sum + confusionMatrix[gold][label], 0);
+    const support = CLASS_ORDER.reduce((sum, pred) => sum + confusionMatrix[label][pred], 0);
+
+    const precision = predictedCount > 0 ? truePositives / predictedCount : 0;
+    const recall = support > 0 ? truePositives / support : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+    return [label, { precision: round(precision), recall: round(recall), f1: round(f1), support }];
+  })) as Record<ClassLabel, ClassMetrics>;
+
+  const presentClasses = CLASS_ORDER.filter(label => perClass[label].support > 0);
+  const macroF1 = presentClasses.length > 0
+    ? presentClasses.reduce((sum, label) => sum + perClass[label].f1, 0) / presentClasses.length
+    : 0;
+
+  const aspectExamples = examples.filter(e => e.goldAspects && Object.keys(e.goldAspects).length > 0);
+  const combinedCorrect = aspectExamples.filter(e =>
+    e.gold === e.predicted && aspectsMatch(e.goldAspects!, e.predictedAspects)
+  ).length;
+
+  return {
+    examples: examples.length,
+    accuracy: examples.length > 0 ? round(correct / examples.length) : 0,
+    macroF1: round(macroF1),
+    perClass,
+    confusionMatrix,
+    combinedPredictionAccuracy: aspectExamples.length > 0 ? round(combinedCorrect / aspectExamples.length) : null,
+    aspectLabelledExamples: aspectExamples.length
+  };
+};
+
+export const computeReliability = (samples: ConfidenceSample[], binCount = 10): ReliabilityReport => {
+  const buckets: ConfidenceSample[][] = Array.from({ length: binCount }, () => []);
+  for (const sample of samples) {
+    const idx = Math.min(binCount - 1, Math.max(0, Math.ceil(sample.confidence * binCount) - 1));
+    buckets[idx].push(sample);
+  }
+
+  const bins: ReliabilityBin[] = [];
+  let expected = 0;
+  let maximum = 0;
+
+  for (let i = 0; i < binCount; i++) {
+    const lower = i / binCount;
+    const upper = (i + 1) / binCount;
+    const members = buckets[i];
+    const count = members.length;
+    const avgConfidence = count > 0 ? members.reduce((sum, s) => sum + s.confidence, 0) / count : 0;
+    const accuracy = count > 0 ? members.filter(s => s.correct).length / count : 0;
+
+    if (count > 0) {
+      const gap = Math.abs(accuracy - avgConfidence);
+      expected += (count / samples.length) * gap;
+      maximum = Math.max(maximum, gap);
+    }
+
+    bins.push({ lower, upper, count, avgConfidence: round(avgConfidence), accuracy: round(accuracy) });
+  }
+
+  return {
+    examples: samples.length,
+    expectedCalibrationError: round(expected),
+    maxCalibrationError: round(maximum),
+    bins
+  };
+};
+
+const percent = (value: number): string => `${(value * 100).toFixed(2)}%`;
+
+export const renderMarkdownReport = (report: EvaluationReport): string => {
+  const lines: string[] = [
+    `# Evaluation: ${report.dataset}`,
+    '',
+    ...(report.generatedAt ? [`Generated ${report.generatedAt}`, ''] : []),
+    '## Summary',
+    '',
+    '| Analyzer | Examples | Accuracy | Macro-F1 | CPA |',
+    '| --- | ---: | ---: | ---: | ---: |'
+  ];
+
+  for (const [name, metrics] of Object.entries(report.analyzers)) {
+    const cpa = metrics.combinedPredictionAccuracy === null
+      ? 'n/a'
+      : `${percent(metrics.combinedPredictionAccuracy)} (${metrics.aspectLabelledExamples})`;
+    lines.push(`| ${name} | ${metrics.examples} | ${percent(metrics.accuracy)} | ${percent(metrics.macroF1)} | ${cpa} |`);
+  }
+
+  for (const [name, metrics] of Object.entries(report.analyzers)) {
+    lines.push(
+      '',
+      `## ${name}`,
+      '',
+      '| Class | Precision | Recall | F1 | Support |',
+      '| --- | ---: | ---: | ---: | ---: |'
+    );
+    for (const label of CLASS_ORDER) {
+      const m = metrics.perClass[label];
+      lines.push(`| ${label} | ${percent(m.precision)} | ${percent(m.recall)} | ${percent(m.f1)} | ${m.support} |`);
+    }
+
+    lines.push(
+      '',
+      `| gold \\ predicted | ${CLASS_ORDER.join(' | ')} |`,
+      `| --- | ${CLASS_ORDER.map(() => '---:').join(' | ')} |`
+    );
+    for (const gold of CLASS_ORDER) {
+      lines.push(`| ${gold} | ${CLASS_ORDER.map(pred => metrics.confusionMatrix[gold][pred]).join(' | ')} |`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+export const renderCalibrationReport = (report: CalibrationReport): string => {
+  const lines: string[] = [
+    `# Calibration: ${report.dataset}`,
+    '',
+    `Generated ${report.generatedAt}. Method: ${report.method}, fitted on ${report.fitExamples} reviews, ` +
+    `measured on ${report.heldOutExamples} held-out reviews.`,
+    '',
+    '## Summary',
+    '',
+    '| Analyzer | Calibration | ECE before | ECE after | MCE before | MCE after |',
+    '| --- | --- | ---: | ---: | ---: | ---: |'
+  ];
+
+  for (const [name, entry] of Object.entries(report.analyzers)) {
+    lines.push(
+      `| ${name} | ${entry.calibration ?? 'none'} | ${percent(entry.before.expectedCalibrationError)} | ` +
+      `${percent(entry.after.expectedCalibrationError)} | ${percent(entry.before.maxCalibrationError)} | ` +
+      `${percent(entry.after.maxCalibrationError)} |`
+    );
+  }
+
+  for (const [name, entry] of Object.entries(report.analyzers)) {
+    lines.push(
+      '',
+      `## ${name} reliability`,
+      '',
+      '| Confidence | Reviews (before) | Accuracy (before) | Reviews (after) | Avg confidence (after) | Accuracy (after) |',
+      '| --- | ---: | ---: | ---: | ---: | ---: |'
+    );
+    entry.after.bins.forEach((bin, idx) => {
+      const before = entry.before.bins[idx];
+      lines.push(
+        `| ${(bin.lower * 100).toFixed(0)}–${(bin.upper * 100).toFixed(0)}% | ${before.count} | ${before.count > 0 ? percent(before.accuracy) : '–'} | ` +
+        `${bin.count} | ${bin.count > 0 ? percent(bin.avgConfidence) : '–'} | ${bin.count > 0 ? percent(bin.accuracy) : '–'} |`
+      );
+    });
+  }
+
+  return `${lines.join('\n')}\n`;
+};
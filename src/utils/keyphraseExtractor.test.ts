@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { extractKeyphrases, rankKeyphrases } from './keyphraseExtractor';
+
+describe('extractKeyphrases', () => {
+  it('extracts feature phrases without their evaluative words and scores them by clause', () => {
+    expect(extractKeyphrases('Great battery life, but the noise cancelling is weak.')).toEqual([
+      { phrase: 'battery life', count: 1, sentiment: 3 },
+      { phrase: 'noise cancelling', count: 1, sentiment: -4 }
+    ]);
+  });
+
+  it('does not turn redaction placeholders into phrases', () => {
+    const phrases = extractKeyphrases('Contact [EMAIL] about the charger').map(k => k.phrase);
+    expect(phrases).toEqual(['charger']);
+  });
+
+  it('returns nothing for languages without an extractor', () => {
+    expect(extractKeyphrases('La batería es mala', 'es')).toEqual([]);
+  });
+});
+
+describe('rankKeyphrases', () => {
+  it('ranks by TF-IDF and averages sentiment across reviews', () => {
+    const ranked = rankKeyphrases([
+      extractKeyphrases('Great battery life, but the noise cancelling is weak.'),
+      extractKeyphrases('The battery life is terrible.'),
+      extractKeyphrases('Love the product'),
+      extractKeyphrases('The product arrived late')
+    ], 3);
+
+    expect(ranked.map(k => k.phrase)).toEqual(['battery life', 'product', 'noise cancelling']);
+    expect(ranked[0]).toMatchObject({ frequency: 2, documentFrequency: 2, averageSentiment: 0, sentiment: 'neutral' });
+    expect(ranked[2].sentiment).toBe('negative');
+  });
+});
@@ -0,0 +1,142 @@
+import nlp from 'compromise';
+import { analyzeValence } from './valenceShifter';
+import { splitClauses } from './aspectExtractor';
+import { lemmatizeWord } from './advancedPreprocessing';
+import { getLanguageResources, DEFAULT_LANGUAGE } from './languageResources';
+import { PLACEHOLDER_PATTERN } from './piiRedactor';
+
+export interface ReviewKeyphrase {
+  phrase: string;
+  count: number;
+  sentiment: number;
+}
+
+export interface KeyphraseStat {
+  phrase: string;
+  frequency: number;
+  documentFrequency: number;
+  averageSentiment: number;
+  sentiment: 'positive' | 'negative' | 'neutral';
+  score: number;
+}
+
+interface CompromiseTerm {
+  normal: string;
+  post: string;
+  tags: string[];
+}
+
+export const KEYPHRASE_LANGUAGES = [DEFAULT_LANGUAGE];
+
+const MAX_PHRASE_WORDS = 4;
+const MIN_WORD_LENGTH = 3;
+
+const PHRASE_BREAK = /[,.;:!?()]/;
+const EXCLUDED_TAGS = ['Pronoun', 'Date', 'Duration', 'Value', 'Possessive'];
+
+const isHeadNoun = (term: CompromiseTerm) =>
+  term.tags.includes('Noun') && !EXCLUDED_TAGS.some(tag => term.tags.includes(tag));
+
+// "noise cancelling" and "fast charging" read as features, so a gerund can extend a phrase
+const canJoinPhrase = (term: CompromiseTerm, phrase: CompromiseTerm[]) =>
+  isHeadNoun(term) || term.tags.includes('Adjective') || (term.tags.includes('Gerund') && phrase.length > 0);
+
+const toPhrase = (terms: CompromiseTerm[]): string | null => {
+  const { lexicon, stopWords, negators } = getLanguageResources(DEFAULT_LANGUAGE);
+  const isFiller = (word: string) => word in lexicon || stopWords.has(word) || negators.has(word);
+
+  // Evaluative words are the sentiment, not the feature: "great battery life" groups with "battery life"
+  let start = 0;
+  while (start < terms.length && isFiller(terms[start].normal)) start++;
+  let end = terms.length;
+  while (end > start && !isHeadNoun(terms[end - 1]) && !terms[end - 1].tags.includes('Gerund')) end--;
+
+  const words = terms.slice(start, end).map(term => term.normal.replace(/[^\p{L}\p{N}'-]/gu, ''));
+  if (words.length === 0 || words.length > MAX_PHRASE_WORDS) return null;
+  if (words.length === 1 && (words[0].length < MIN_WORD_LENGTH || isFiller(words[0]))) return null;
+
+  if (terms[end - 1].tags.includes('Plural')) {
+    words[words.length - 1] = lemmatizeWord(words[words.length - 1]);
+  }
+  return words.join(' ');
+};
+
+const phrasesInClause = (clause: string): string[] => {
+  const phrases: string[] = [];
+  let current: CompromiseTerm[] = [];
+
+  const flush = () => {
+    const phrase = toPhrase(current);
+    if (phrase) phrases.push(phrase);
+    current = [];
+  };
+
+  for (const sentence of nlp(clause).json({ terms: { normal: true } }) as { terms: CompromiseTerm[] }[]) {
+    for (const term of sentence.terms) {
+      if (canJoinPhrase(term, current)) {
+        current.push(term);
+        if (PHRASE_BREAK.test(term.post)) flush();
+      } else {
+        flush();
+      }
+    }
+    flush();
+  }
+
+  return phrases;
+};
+
+export const extractKeyphrases = (text: string, language = DEFAULT_LANGUAGE): ReviewKeyphrase[] => {
+  if (!KEYPHRASE_LANGUAGES.includes(language)) return [];
+
+  const phrases = new Map<string, ReviewKeyphrase>();
+
+  for (const clause of splitClauses(text.replace(PLACEHOLDER_PATTERN, ','))) {
+    const found = phrasesInClause(clause);
+    if (found.length === 0) continue;
+
+    const clauseScore = analyzeValence(clause, language).score;
+    for (const phrase of found) {
+      const existing = phrases.get(phrase) || { phrase, count: 0, sentiment: 0 };
+      existing.sentiment = (existing.sentiment * existing.count + clauseScore) / (existing.count + 1);
+      existing.count++;
+      phrases.set(phrase, existing);
+    }
+  }
+
+  return Array.from(phrases.values());
+};
+
+// TF-IDF over the batch: a phrase scores by how often it is mentioned, damped
+// when nearly every review mentions it (e.g. "product"); longer phrases get a
+// mild boost because they name a feature more precisely than their head noun
+export const rankKeyphrases = (documents: ReviewKeyphrase[][], limit = 20): KeyphraseStat[] => {
+  const stats = new Map<string, { frequency: number; documentFrequency: number; sentimentTotal: number; tf: number }>();
+
+  for (const document of documents) {
+    for (const { phrase, count, sentiment } of document) {
+      const existing = stats.get(phrase) || { frequency: 0, documentFrequency: 0, sentimentTotal: 0, tf: 0 };
+      existing.frequency += count;
+      existing.documentFrequency++;
+      existing.sentimentTotal += sentiment * count;
+      existing.tf += 1 + Math.log(count);
+      stats.set(phrase, existing);
+    }
+  }
+
+  return Array.from(stats.entries())
+    .map(([phrase, stat]) => {
+      const idf = Math.log((1 + documents.length) / (1 + stat.documentFrequency)) + 1;
+      const averageSentiment = stat.sentimentTotal / stat.frequency;
+      return {
+        phrase,
+        frequency: stat.frequency,
+        documentFrequency: stat.documentFrequency,
+        averageSentiment,
+        sentiment: averageSentiment > 0 ? 'positive' as const : averageSentiment < 0 ? 'negative' as const : 'neutral' as const,
+        score: Math.round(stat.tf * idf * phrase.split(' ').length ** 0.5 * 1000) / 1000
+      };
+    })
+    .sort((a, b) => b.score - a.score || b.frequency - a.frequency)
+    .slice(0, limit);
+};
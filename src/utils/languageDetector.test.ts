@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage, languageName, routeLanguage, UNDETERMINED_LANGUAGE } from './languageDetector';
+import { SUPPORTED_LANGUAGES } from './sentimentAnalyzer';
+
+const route = (text: string) => routeLanguage(detectLanguage(text), SUPPORTED_LANGUAGES);
+
+describe('detectLanguage', () => {
+  it.each([
+    ['es', 'No es bueno, se rompió después de una semana.'],
+    ['es', 'La batería dura muy poco y la pantalla es mala.'],
+    ['es', 'Muy buen producto, lo recomiendo'],
+    ['fr', 'Très déçu, il ne marche plus.'],
+    ['fr', "C'est nul, je ne recommande pas."],
+    ['de', 'Sehr gut, schnelle Lieferung.'],
+    ['de', 'Leider nach zwei Tagen defekt'],
+    ['en', 'Great product, works well.'],
+    ['en', 'Terrible. Broke after a week.'],
+    ['hi', 'यह उत्पाद बहुत अच्छा है, मुझे पसंद आया']
+  ])('routes a short %s review to its own analyzer: %s', (language, text) => {
+    expect(detectLanguage(text).language).toBe(language);
+    expect(route(text)).toBe(language);
+  });
+
+  it.each([
+    ['it', 'Prodotto pessimo, si è rotto dopo due giorni.'],
+    ['it', 'Non funziona, molto deluso'],
+    ['pt', 'Produto muito bom, chegou rápido.'],
+    ['nl', 'Het product is heel goed en snel geleverd.']
+  ])('rejects a short %s review instead of scoring it as another language: %s', (language, text) => {
+    expect(detectLanguage(text).language).toBe(language);
+    expect(route(text)).toBeNull();
+  });
+
+  it('recognises scripts that belong to a single language', () => {
+    expect(detectLanguage('これは本当に素晴らしい製品です')).toMatchObject({ language: 'ja', script: 'Kana' });
+    expect(detectLanguage('정말 좋은 제품입니다 추천합니다')).toMatchObject({ language: 'ko', script: 'Hangul' });
+  });
+
+  it('leaves text too short to judge undetermined and unrouted', () => {
+    expect(detectLanguage('Love it!').language).toBe(UNDETERMINED_LANGUAGE);
+    expect(route('Love it!')).toBeNull();
+  });
+});
+
+describe('routeLanguage', () => {
+  it('routes a confident supported language and rejects an unsupported one', () => {
+    expect(routeLanguage({ language: 'en', confidence: 0.9, script: 'Latin' }, ['en'])).toBe('en');
+    expect(routeLanguage({ language: 'it', confidence: 0.9, script: 'Latin' }, SUPPORTED_LANGUAGES)).toBeNull();
+  });
+
+  it('rejects a supported best guess when it is too uncertain', () => {
+    expect(routeLanguage({ language: 'es', confidence: 0.2, script: 'Latin' }, SUPPORTED_LANGUAGES)).toBeNull();
+    expect(routeLanguage({ language: 'es', confidence: 0.9, script: 'Latin' }, SUPPORTED_LANGUAGES)).toBe('es');
+  });
+});
+
+describe('languageName', () => {
+  it('names known codes and passes unknown ones through', () => {
+    expect(languageName('de')).toBe('German');
+    expect(languageName('xx')).toBe('xx');
+  });
+});
@@ -0,0 +1,182 @@
+import languageData from '../data/languageProfiles.json';
+
+export interface LanguageDetection {
+  language: string;
+  confidence: number;
+  script: string;
+}
+
+export const UNDETERMINED_LANGUAGE = 'und';
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English', es: 'Spanish', fr: 'French', de: 'German', it: 'Italian', pt: 'Portuguese',
+  nl: 'Dutch', sv: 'Swedish', pl: 'Polish', cs: 'Czech', hu: 'Hungarian', ro: 'Romanian',
+  tr: 'Turkish', id: 'Indonesian', vi: 'Vietnamese', tl: 'Tagalog', sw: 'Swahili',
+  ru: 'Russian', uk: 'Ukrainian', bg: 'Bulgarian', be: 'Belarusian', kk: 'Kazakh',
+  ar: 'Arabic', ur: 'Urdu', fa: 'Persian', hi: 'Hindi', mr: 'Marathi', ne: 'Nepali',
+  zh: 'Chinese', ja: 'Japanese', ko: 'Korean', el: 'Greek', he: 'Hebrew', th: 'Thai',
+  bn: 'Bengali', ta: 'Tamil', te: 'Telugu', gu: 'Gujarati', pa: 'Punjabi', kn: 'Kannada',
+  ml: 'Malayalam', und: 'Undetermined'
+};
+
+const MIN_LETTERS = 10;
+const MIN_TRIGRAMS = 10;
+const MAX_TRIGRAMS = 300;
+const MIN_ROUTING_CONFIDENCE = 0.5;
+// A best match this much closer than the runner-up counts as certain
+const CERTAIN_DISTANCE_RATIO = 1.1;
+// Share of a language's frequent words in the text that halves its trigram distance
+const WORD_EVIDENCE_WEIGHT = 0.5;
+const MIN_TRANSLITERATION_HITS = 2;
+const MIN_TRANSLITERATION_SHARE = 0.25;
+
+const SCRIPTS: { name: string; pattern: RegExp; language?: string }[] = [
+  { name: 'Latin', pattern: /\p{Script=Latin}/gu },
+  { name: 'Cyrillic', pattern: /\p{Script=Cyrillic}/gu },
+  { name: 'Arabic', pattern: /\p{Script=Arabic}/gu },
+  { name: 'Devanagari', pattern: /\p{Script=Devanagari}/gu },
+  { name: 'Kana', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu, language: 'ja' },
+  { name: 'Han', pattern: /\p{Script=Han}/gu, language: 'zh' },
+  { name: 'Hangul', pattern: /\p{Script=Hangul}/gu, language: 'ko' },
+  { name: 'Greek', pattern: /\p{Script=Greek}/gu, language: 'el' },
+  { name: 'Hebrew', pattern: /\p{Script=Hebrew}/gu, language: 'he' },
+  { name: 'Thai', pattern: /\p{Script=Thai}/gu, language: 'th' },
+  { name: 'Bengali', pattern: /\p{Script=Bengali}/gu, language: 'bn' },
+  { name: 'Tamil', pattern: /\p{Script=Tamil}/gu, language: 'ta' },
+  { name: 'Telugu', pattern: /\p{Script=Telugu}/gu, language: 'te' },
+  { name: 'Gujarati', pattern: /\p{Script=Gujarati}/gu, language: 'gu' },
+  { name: 'Gurmukhi', pattern: /\p{Script=Gurmukhi}/gu, language: 'pa' },
+  { name: 'Kannada', pattern: /\p{Script=Kannada}/gu, language: 'kn' },
+  { name: 'Malayalam', pattern: /\p{Script=Malayalam}/gu, language: 'ml' }
+];
+
+const PROFILES: Record<string, Record<string, Map<string, number>>> = Object.fromEntries(
+  Object.entries(languageData.profiles as Record<string, Record<string, string>>).map(([script, languages]) => [
+    script,
+    Object.fromEntries(Object.entries(languages).map(([language, trigrams]) => [
+      language,
+      new Map(trigrams.split('|').map((trigram, rank) => [trigram, rank]))
+    ]))
+  ])
+);
+
+// Trigram rankings say little about a review of a few words, so the frequent words of each language
+// add evidence of their own
+const FREQUENT_WORDS: Record<string, Record<string, Set<string>>> = Object.fromEntries(
+  Object.entries(languageData.words as Record<string, Record<string, string>>).map(([script, languages]) => [
+    script,
+    Object.fromEntries(Object.entries(languages).map(([language, words]) => [language, new Set(words.split('|'))]))
+  ])
+);
+
+const TRANSLITERATIONS = Object.entries(
+  languageData.transliterated as Record<string, { script: string; markers: string[] }>
+).map(([language, { script, markers }]) => ({ language, script, markers: new Set(markers) }));
+
+const dominantScript = (text: string) => {
+  const counts = new Map(SCRIPTS.map(script => [script.name, (text.match(script.pattern) || []).length]));
+  const total = Array.from(counts.values()).reduce((a, b) => a + b, 0);
+  let script = SCRIPTS.reduce((best, candidate) => (counts.get(candidate.name)! > counts.get(best.name)! ? candidate : best));
+
+  // Japanese mixes kana with Han characters, so any kana decides the script
+  const kanaCount = counts.get('Kana')!;
+  if ((script.name === 'Han' || script.name === 'Kana') && kanaCount > 0) {
+    script = SCRIPTS.find(candidate => candidate.name === 'Kana')!;
+    return { script, count: kanaCount + counts.get('Han')!, total };
+  }
+
+  return { script, count: counts.get(script.name)!, total };
+};
+
+const rankTrigrams = (text: string): string[] => {
+  const padded = ` ${text.toLowerCase().replace(/[^\p{L}\p{M}]+/gu, ' ').trim()} `;
+  const counts = new Map<string, number>();
+
+  for (let i = 0; i < padded.length - 2; i++) {
+    const trigram = padded.slice(i, i + 3);
+    counts.set(trigram, (counts.get(trigram) || 0) + 1);
+  }
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))
+    .slice(0, MAX_TRIGRAMS)
+    .map(([trigram]) => trigram);
+};
+
+// Romanized text such as Hinglish shares its script with English, so it is
+// recognised by its function words before falling back to trigram profiles
+const detectTransliteration = (text: string, script: string) => {
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+
+  for (const candidate of TRANSLITERATIONS.filter(t => t.script === script)) {
+    const hits = words.filter(word => candidate.markers.has(word)).length;
+    const share = words.length > 0 ? hits / words.length : 0;
+    if (hits >= MIN_TRANSLITERATION_HITS && share >= MIN_TRANSLITERATION_SHARE) {
+      return { language: candidate.language, confidence: Math.min(1, share * 2) };
+    }
+  }
+
+  return null;
+};
+
+const profileDistance = (trigrams: string[], profile: Map<string, number>): number =>
+  trigrams.reduce((sum, trigram, rank) => {
+    const profileRank = profile.get(trigram);
+    return sum + (profileRank === undefined ? MAX_TRIGRAMS : Math.abs(rank - profileRank));
+  }, 0);
+
+export const detectLanguage = (text: string): LanguageDetection => {
+  const { script, count, total } = dominantScript(text);
+
+  if (total < MIN_LETTERS) {
+    return { language: UNDETERMINED_LANGUAGE, confidence: 0, script: count > 0 ? script.name : 'Unknown' };
+  }
+
+  const scriptShare = count / total;
+  if (script.language) {
+    return { language: script.language, confidence: scriptShare, script: script.name };
+  }
+
+  const transliteration = detectTransliteration(text, script.name);
+  if (transliteration) {
+    return {
+      language: transliteration.language,
+      confidence: Math.round(scriptShare * transliteration.confidence * 1e4) / 1e4,
+      script: script.name
+    };
+  }
+
+  const trigrams = rankTrigrams(text);
+  if (trigrams.length < MIN_TRIGRAMS) {
+    return { language: UNDETERMINED_LANGUAGE, confidence: 0, script: script.name };
+  }
+
+  const words = text.toLowerCase().match(/[\p{L}\p{M}]+/gu) || [];
+  const distances = Object.entries(PROFILES[script.name])
+    .map(([language, profile]) => {
+      const frequent = FREQUENT_WORDS[script.name]?.[language];
+      const share = frequent && words.length > 0 ? words.filter(word => frequent.has(word)).length / words.length : 0;
+      return { language, distance: profileDistance(trigrams, profile) * (1 - WORD_EVIDENCE_WEIGHT * share) };
+    })
+    .sort((a, b) => a.distance - b.distance);
+
+  // Confidence grows with how much closer the best match is than the runner-up
+  const [best, runnerUp] = distances;
+  const ratio = runnerUp ? runnerUp.distance / Math.max(best.distance, 1) : CERTAIN_DISTANCE_RATIO;
+  const certainty = Math.min(1, (ratio - 1) / (CERTAIN_DISTANCE_RATIO - 1));
+
+  return {
+    language: best.language,
+    confidence: Math.round(scriptShare * certainty * 1e4) / 1e4,
+    script: script.name
+  };
+};
+
+export const languageName = (code: string): string => LANGUAGE_NAMES[code] || code;
+
+// Reviews are never routed to another language's resources: an unsupported or uncertain detection
+// returns null, and the caller rejects the review or asks for an explicit language
+export const routeLanguage = (detection: LanguageDetection, supported: string[]): string | null => {
+  if (detection.language === UNDETERMINED_LANGUAGE || detection.confidence < MIN_ROUTING_CONFIDENCE) return null;
+  return supported.includes(detection.language) ? detection.language : null;
+};
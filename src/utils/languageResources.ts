@@ -0,0 +1,129 @@
+import english from 'sentiment/languages/en/index.js';
+import spanish from '../data/lexicons/es.json';
+import french from '../data/lexicons/fr.json';
+import german from '../data/lexicons/de.json';
+import hindi from '../data/lexicons/hi.json';
+import { EMOJI_LEXICON } from './emojiNormalizer';
+
+export interface LanguageResources {
+  language: string;
+  name: string;
+  lexicon: Record<string, number>;
+  negators: Set<string>;
+  negationExceptions: Record<string, string[]>;
+  // Articles a negation exception may follow ("without a doubt")
+  determiners: Set<string>;
+  modifiers: Record<string, number>;
+  adversative: Set<string>;
+  concessive: Set<string>;
+  stopWords: Set<string>;
+  multiwords: Set<string>;
+  trailingNegation: boolean;
+  elision: boolean;
+}
+
+interface LexiconFile {
+  language: string;
+  name: string;
+  lexicon: Record<string, number>;
+  negators: string[];
+  negationExceptions: Record<string, string[]>;
+  determiners: string[];
+  modifiers: Record<string, number>;
+  adversative: string[];
+  concessive: string[];
+  stopWords: string[];
+  trailingNegation: boolean;
+  elision: boolean;
+}
+
+export const DEFAULT_LANGUAGE = 'en';
+
+const DOMAIN_LEXICON: Record<string, number> = {
+  'slow': -2, 'fast': 2, 'quick': 2, 'late': -2, 'delayed': -2, 'laggy': -2,
+  'flimsy': -2, 'sturdy': 2, 'durable': 2, 'overpriced': -2, 'affordable': 2,
+  'broke': -3, 'broken': -3, 'cracked': -2, 'drains': -2, 'blurry': -2, 'sleek': 2,
+  'waste': -3, 'junk': -3, 'defective': -3, 'returned': -2, 'refund': -2
+};
+
+const ENGLISH: LexiconFile = {
+  language: 'en',
+  name: 'English',
+  lexicon: { ...english.labels, ...DOMAIN_LEXICON },
+  negators: [
+    'not', 'no', 'never', 'none', 'nobody', 'nothing', 'neither', 'nor', 'without',
+    'hardly', 'barely', 'scarcely', 'cannot', 'cant', 'dont', 'doesnt', 'didnt',
+    'isnt', 'wasnt', 'arent', 'werent', 'wont', 'wouldnt', 'couldnt', 'shouldnt',
+    'havent', 'hasnt', 'hadnt', 'aint'
+  ],
+  negationExceptions: {
+    'not': ['only'],
+    'no': ['doubt'],
+    'without': ['doubt']
+  },
+  determiners: ['a', 'an', 'the', 'any', 'some', 'much'],
+  modifiers: {
+    'very': 1.5, 'really': 1.4, 'extremely': 1.8, 'so': 1.3, 'super': 1.5,
+    'incredibly': 1.7, 'absolutely': 1.6, 'totally': 1.5, 'highly': 1.5,
+    'truly': 1.4, 'completely': 1.5, 'utterly': 1.7, 'exceptionally': 1.7,
+    'remarkably': 1.5, 'too': 1.3,
+    'slightly': 0.5, 'somewhat': 0.6, 'fairly': 0.7, 'marginally': 0.5,
+    'mildly': 0.6, 'partly': 0.6, 'relatively': 0.7, 'kinda': 0.6, 'sorta': 0.6,
+    'kind_of': 0.6, 'sort_of': 0.6, 'a_bit': 0.6, 'a_little': 0.6
+  },
+  adversative: ['but', 'however', 'yet', 'nevertheless', 'nonetheless'],
+  concessive: ['although', 'though', 'despite', 'whereas', 'while'],
+  stopWords: [
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from',
+    'has', 'he', 'in', 'is', 'it', 'its', 'of', 'on', 'that', 'the',
+    'to', 'was', 'will', 'with', 'i', 'me', 'my', 'we', 'our', 'you',
+    'your', 'they', 'them', 'this', 'these', 'those', 'but', 'or', 'not',
+    'can', 'could', 'should', 'would', 'may', 'might', 'must', 'have'
+  ],
+  trailingNegation: false,
+  elision: false
+};
+
+const normalizeKey = (word: string) => word.normalize('NFC').toLowerCase();
+
+const toResources = (file: LexiconFile): LanguageResources => {
+  const lexicon = {
+    ...EMOJI_LEXICON,
+    ...Object.fromEntries(Object.entries(file.lexicon).map(([word, score]) => [normalizeKey(word), score]))
+  };
+  const modifiers = Object.fromEntries(Object.entries(file.modifiers).map(([word, factor]) => [normalizeKey(word), factor]));
+  const negators = new Set(file.negators.map(normalizeKey));
+  const adversative = new Set(file.adversative.map(normalizeKey));
+  const concessive = new Set(file.concessive.map(normalizeKey));
+  const terms = [...Object.keys(lexicon), ...Object.keys(modifiers), ...negators, ...adversative, ...concessive];
+
+  return {
+    language: file.language,
+    name: file.name,
+    lexicon,
+    negators,
+    negationExceptions: file.negationExceptions,
+    determiners: new Set(file.determiners.map(normalizeKey)),
+    modifiers,
+    adversative,
+    concessive,
+    stopWords: new Set(file.stopWords.map(normalizeKey)),
+    multiwords: new Set(terms.filter(term => term.includes('_'))),
+    trailingNegation: file.trailingNegation,
+    elision: file.elision
+  };
+};
+
+const LANGUAGE_RESOURCES: Record<string, LanguageResources> = Object.fromEntries(
+  [ENGLISH, spanish, french, german, hindi].map(file => [file.language, toResources(file as LexiconFile)])
+);
+
+export const LEXICON_LANGUAGES = Object.keys(LANGUAGE_RESOURCES);
+
+export const getLanguageResources = (language: string = DEFAULT_LANGUAGE): LanguageResources => {
+  const resources = LANGUAGE_RESOURCES[language];
+  if (!resources) {
+    throw new Error(`No lexicon is available for language: ${language}`);
+  }
+  return resources;
+};
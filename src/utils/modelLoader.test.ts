@@ -0,0 +1,97 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { analyzeWithBert } from './bertModel';
+import { loadBertModel } from './modelLoader';
+import { SerializedTransformer } from './transformerEncoder';
+
+const VOCAB_PATH = fileURLToPath(new URL('./__fixtures__/wordpiece/vocab.txt', import.meta.url));
+const VOCAB_SIZE = readFileSync(VOCAB_PATH, 'utf8').trim().split('\n').length;
+const HIDDEN = 4;
+const INTERMEDIATE = 8;
+
+const zeros = (...shape: number[]) => ({ shape, data: new Array(shape.reduce((a, b) => a * b, 1)).fill(0) });
+const linear = (prefix: string, outputs: number, inputs: number) => ({
+  [`${prefix}.weight`]: zeros(outputs, inputs),
+  [`${prefix}.bias`]: zeros(outputs)
+});
+const norm = (prefix: string) => ({ [`${prefix}.weight`]: zeros(HIDDEN), [`${prefix}.bias`]: zeros(HIDDEN) });
+
+// All weights are zero, so the logits are exactly the classifier bias
+const tinyModel = (vocabSize: number, classifierBias: number[]): SerializedTransformer => ({
+  format: 'bert-sequence-classification-json',
+  version: 1,
+  config: {
+    vocab_size: vocabSize,
+    hidden_size: HIDDEN,
+    num_hidden_layers: 1,
+    num_attention_heads: 2,
+    intermediate_size: INTERMEDIATE,
+    max_position_embeddings: 32,
+    type_vocab_size: 2,
+    layer_norm_eps: 1e-12,
+    labels: ['NEGATIVE', 'POSITIVE']
+  },
+  tensors: {
+    'bert.embeddings.word_embeddings.weight': zeros(vocabSize, HIDDEN),
+    'bert.embeddings.position_embeddings.weight': zeros(32, HIDDEN),
+    'bert.embeddings.token_type_embeddings.weight': zeros(2, HIDDEN),
+    ...norm('bert.embeddings.LayerNorm'),
+    ...linear('bert.encoder.layer.0.attention.self.query', HIDDEN, HIDDEN),
+    ...linear('bert.encoder.layer.0.attention.self.key', HIDDEN, HIDDEN),
+    ...linear('bert.encoder.layer.0.attention.self.value', HIDDEN, HIDDEN),
+    ...linear('bert.encoder.layer.0.attention.output.dense', HIDDEN, HIDDEN),
+    ...norm('bert.encoder.layer.0.attention.output.LayerNorm'),
+    ...linear('bert.encoder.layer.0.intermediate.dense', INTERMEDIATE, HIDDEN),
+    ...linear('bert.encoder.layer.0.output.dense', HIDDEN, INTERMEDIATE),
+    ...norm('bert.encoder.layer.0.output.LayerNorm'),
+    ...linear('bert.pooler.dense', HIDDEN, HIDDEN),
+    'classifier.weight': zeros(2, HIDDEN),
+    'classifier.bias': { shape: [2], data: classifierBias }
+  }
+});
+
+let directory: string;
+
+beforeAll(() => {
+  directory = mkdtempSync(join(tmpdir(), 'bert-'));
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+  vi.restoreAllMocks();
+});
+
+const writeModel = (name: string, model: SerializedTransformer) => {
+  const path = join(directory, name);
+  writeFileSync(path, JSON.stringify(model));
+  return path;
+};
+
+describe('loadBertModel', () => {
+  it('runs local weights and maps their labels onto the prediction classes', () => {
+    const modelPath = writeModel('model.json', tinyModel(VOCAB_SIZE, [0, 2]));
+    const model = loadBertModel({ modelPath, vocabPath: VOCAB_PATH, warmup: false });
+    const prediction = analyzeWithBert('hello how are you', model);
+
+    expect(model.getModelInfo()).toMatchObject({ backend: 'transformer', layers: 1, hidden_size: HIDDEN });
+    expect(prediction.raw_logits.slice(0, 2)).toEqual([2, 0]);
+    expect(prediction.predicted_class).toBe('positive');
+  });
+
+  it('falls back to the heuristic backend when the vocab does not match the weights', () => {
+    const modelPath = writeModel('mismatch.json', tinyModel(VOCAB_SIZE + 1, [0, 2]));
+    const info = loadBertModel({ modelPath, vocabPath: VOCAB_PATH, warmup: false }).getModelInfo();
+
+    expect(info.backend).toBe('heuristic');
+    expect(info.fallback_reason).toMatch(/Vocab size mismatch/);
+  });
+
+  it('falls back when weights are given without their vocab', () => {
+    const modelPath = writeModel('novocab.json', tinyModel(VOCAB_SIZE, [0, 2]));
+    expect(loadBertModel({ modelPath, warmup: false }).getModelInfo().backend).toBe('heuristic');
+  });
+});
@@ -0,0 +1,146 @@
+import { readFileSync } from 'node:fs';
+import { BertTokenizer, BertTokenizerOptions, SimpleBertModel, createBertModel } from './bertModel';
+import { TransformerEncoder, SerializedTransformer } from './transformerEncoder';
+import { ReviewClassifier, SerializedClassifier } from './reviewClassifier';
+import { AnalyzerCalibration, SerializedCalibration } from './calibration';
+import { DEFAULT_ENSEMBLE_WEIGHTS, EnsembleOptions, isEnsembleStrategy, SerializedStacker } from './ensemble';
+
+export interface ModelLoaderConfig {
+  modelPath?: string;
+  vocabPath?: string;
+  maxLength?: number;
+  warmup: boolean;
+  calibration?: AnalyzerCalibration;
+}
+
+export const loadVocabFile = (vocabPath: string, options: BertTokenizerOptions = {}): BertTokenizer => {
+  return BertTokenizer.fromVocabText(readFileSync(vocabPath, 'utf8'), options);
+};
+
+export const loadTransformerWeights = (modelPath: string): TransformerEncoder => {
+  const serialized = JSON.parse(readFileSync(modelPath, 'utf8')) as SerializedTransformer;
+  return new TransformerEncoder(serialized);
+};
+
+export const readModelConfigFromEnv = (env: NodeJS.ProcessEnv = process.env): ModelLoaderConfig => ({
+  modelPath: env.BERT_MODEL_PATH || undefined,
+  vocabPath: env.BERT_VOCAB_PATH || undefined,
+  maxLength: env.BERT_MAX_LENGTH ? Number(env.BERT_MAX_LENGTH) : undefined,
+  warmup: env.BERT_WARMUP !== 'false'
+});
+
+export const loadBertModel = (config: ModelLoaderConfig = readModelConfigFromEnv()): SimpleBertModel => {
+  let model: SimpleBertModel;
+
+  try {
+    if (config.modelPath && !config.vocabPath) {
+      throw new Error('BERT_MODEL_PATH is set but BERT_VOCAB_PATH is not; weights need their matching vocab');
+    }
+
+    const tokenizer = config.vocabPath
+      ? loadVocabFile(config.vocabPath, { maxLength: config.maxLength })
+      : undefined;
+    const encoder = config.modelPath ? loadTransformerWeights(config.modelPath) : undefined;
+
+    if (encoder && tokenizer && encoder.config.vocab_size !== tokenizer.getConfig().vocabSize) {
+      throw new Error(
+        `Vocab size mismatch: weights expect ${encoder.config.vocab_size}, vocab file has ${tokenizer.getConfig().vocabSize}`
+      );
+    }
+
+    model = createBertModel({
+      tokenizer,
+      encoder,
+      weightsPath: config.modelPath,
+      vocabPath: config.vocabPath,
+      calibration: config.calibration
+    });
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error';
+    console.warn(`Falling back to heuristic BERT backend: ${reason}`);
+    model = createBertModel({ fallbackReason: reason, calibration: config.calibration });
+  }
+
+  if (config.warmup) {
+    model.warmup();
+  }
+
+  return model;
+};
+
+export const loadReviewClassifier = (
+  classifierPath: string | undefined = process.env.CLASSIFIER_MODEL_PATH || undefined,
+  calibration?: AnalyzerCalibration
+): ReviewClassifier | null => {
+  if (!classifierPath) return null;
+
+  try {
+    const serialized = JSON.parse(readFileSync(classifierPath, 'utf8')) as SerializedClassifier;
+    return new ReviewClassifier(serialized, calibration);
+  } catch (error) {
+    console.warn(`Trained classifier not loaded: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return null;
+  }
+};
+
+export const loadCalibration = (
+  calibrationPath: string | undefined = process.env.CALIBRATION_PATH || undefined
+): SerializedCalibration | null => {
+  if (!calibrationPath) return null;
+
+  try {
+    const serialized = JSON.parse(readFileSync(calibrationPath, 'utf8')) as SerializedCalibration;
+    if (serialized.format !== 'confidence-calibration-json') {
+      throw new Error(`Unsupported calibration format: ${serialized.format}`);
+    }
+    return serialized;
+  } catch (error) {
+    console.warn(`Confidence calibration not loaded: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return null;
+  }
+};
+
+export const loadEnsembleStacker = (
+  stackerPath: string | undefined = process.env.ENSEMBLE_STACKER_PATH || undefined
+): SerializedStacker | undefined => {
+  if (!stackerPath) return undefined;
+
+  try {
+    const serialized = JSON.parse(readFileSync(stackerPath, 'utf8')) as SerializedStacker;
+    if (serialized.format !== 'ensemble-stacker-json') {
+      throw new Error(`Unsupported stacker format: ${serialized.format}`);
+    }
+    return serialized;
+  } catch (error) {
+    console.warn(`Ensemble stacker not loaded: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return undefined;
+  }
+};
+
+const parseWeights = (raw: string | undefined): Record<string, number> => {
+  const weights = { ...DEFAULT_ENSEMBLE_WEIGHTS };
+  if (!raw) return weights;
+
+  for (const pair of raw.split(',')) {
+    const [name, value] = pair.split('=').map(part => part.trim());
+    if (name && Number.isFinite(Number(value))) weights[name] = Number(value);
+  }
+
+  return weights;
+};
+
+export const readEnsembleConfigFromEnv = (env: NodeJS.ProcessEnv = process.env): EnsembleOptions => {
+  const stacker = loadEnsembleStacker(env.ENSEMBLE_STACKER_PATH || undefined);
+  const requested = env.ENSEMBLE_STRATEGY || 'weighted';
+  let strategy = isEnsembleStrategy(requested) ? requested : 'weighted';
+
+  if (requested !== strategy) {
+    console.warn(`Unknown ENSEMBLE_STRATEGY "${requested}", using weighted`);
+  }
+  if (strategy === 'stacking' && !stacker) {
+    console.warn('ENSEMBLE_STRATEGY is stacking but no stacker is loaded, using weighted');
+    strategy = 'weighted';
+  }
+
+  return { strategy, weights: parseWeights(env.ENSEMBLE_WEIGHTS), stacker };
+};
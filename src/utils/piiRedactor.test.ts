@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { redactPii } from './piiRedactor';
+
+describe('redactPii', () => {
+  it.each([
+    ['Email me at jane.doe@example.co.uk', 'Email me at [EMAIL]', 'EMAIL'],
+    ['Call +1 (555) 123-4567 anytime', 'Call [PHONE] anytime', 'PHONE'],
+    ['Order 112-1234567-1234567 arrived', 'Order [ORDER_ID] arrived', 'ORDER_ID'],
+    ['Card 4111 1111 1111 1111 was charged', 'Card [CARD_NUMBER] was charged', 'CARD_NUMBER'],
+    ['Ship to 221B Baker Street, Apt 4 please', 'Ship to [ADDRESS] please', 'ADDRESS'],
+    ['Sent to PO Box 123', 'Sent to [ADDRESS]', 'ADDRESS']
+  ])('masks %s', (text, expected, type) => {
+    const { text: redacted, report } = redactPii(text);
+
+    expect(redacted).toBe(expected);
+    expect(report).toEqual({ total: 1, counts: { [type]: 1 } });
+  });
+
+  it('leaves specs, dates and prices untouched', () => {
+    const text = 'Battery lasts 10 hours, model 2024-05, paid $1299.99 on 12/05/2024';
+    expect(redactPii(text)).toEqual({ text, report: { total: 0, counts: {} } });
+  });
+
+  it('does not mask lowercase phrases that only look like streets', () => {
+    expect(redactPii('I gave it 5 stars on the way home').report.total).toBe(0);
+  });
+});
@@ -0,0 +1,105 @@
+export type PiiType = 'EMAIL' | 'ORDER_ID' | 'CARD_NUMBER' | 'PHONE' | 'ADDRESS';
+
+export interface RedactionOptions {
+  enabled: boolean;
+  report: boolean;
+}
+
+export interface RedactionReport {
+  total: number;
+  counts: Partial<Record<PiiType, number>>;
+}
+
+export interface PiiRedaction {
+  text: string;
+  report: RedactionReport;
+}
+
+interface PiiDetector {
+  type: PiiType;
+  pattern: RegExp;
+  validate?: (match: string) => boolean;
+}
+
+export const DEFAULT_REDACTION_OPTIONS: RedactionOptions = {
+  enabled: true,
+  report: false
+};
+
+export const PII_TYPES: PiiType[] = ['EMAIL', 'ORDER_ID', 'CARD_NUMBER', 'PHONE', 'ADDRESS'];
+
+const STREET_SUFFIXES = [
+  'street', 'st', 'avenue', 'ave', 'road', 'rd', 'boulevard', 'blvd', 'lane', 'ln', 'drive', 'dr',
+  'court', 'ct', 'way', 'place', 'pl', 'terrace', 'circle', 'cir', 'parkway', 'pkwy', 'highway', 'hwy'
+];
+
+// Street names must be capitalised, so only the keywords themselves are matched case-insensitively
+const caseless = (word: string) => `[${word[0].toUpperCase()}${word[0]}]${word.slice(1)}`;
+
+const digitCount = (value: string) => value.replace(/\D/g, '').length;
+
+const passesLuhn = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '').split('').reverse().map(Number);
+  const sum = digits.reduce((total, digit, idx) => {
+    if (idx % 2 === 0) return total + digit;
+    const doubled = digit * 2;
+    return total + (doubled > 9 ? doubled - 9 : doubled);
+  }, 0);
+  return sum % 10 === 0;
+};
+
+// Order matters: order IDs and card numbers are masked before the looser phone pattern sees their digits
+const DETECTORS: PiiDetector[] = [
+  {
+    type: 'EMAIL',
+    pattern: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu
+  },
+  {
+    type: 'ORDER_ID',
+    pattern: /(?<![\w-])(?:\d{3}|D\d{2})-\d{7}-\d{7}(?![\w-])/g
+  },
+  {
+    type: 'CARD_NUMBER',
+    pattern: /(?<![\w-])\d(?:[ -]?\d){12,18}(?![\w-])/g,
+    validate: passesLuhn
+  },
+  {
+    type: 'PHONE',
+    pattern: /(?<![\w+-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\d{2,4}[\s.-])?\d{3,4}[\s.-]?\d{4}(?![\w-])/g,
+    validate: match => digitCount(match) >= 10 && digitCount(match) <= 15
+  },
+  {
+    type: 'ADDRESS',
+    pattern: new RegExp(
+      `\\b\\d{1,6}[A-Za-z]?\\s+(?:[A-Z][\\p{L}'-]*\\.?\\s+){1,4}(?:${STREET_SUFFIXES.map(caseless).join('|')})\\b\\.?` +
+        `(?:,?\\s+(?:${['apt', 'apartment', 'suite', 'unit'].map(caseless).join('|')}|#)\\.?\\s*[\\w-]+)?` +
+        `|\\b${caseless('p')}\\.?\\s?${caseless('o')}\\.?\\s+${caseless('box')}\\s+\\d+`,
+      'gu'
+    )
+  }
+];
+
+export const placeholderFor = (type: PiiType): string => `[${type}]`;
+
+export const PLACEHOLDER_PATTERN = new RegExp(`\\[(?:${PII_TYPES.join('|')})\\]`, 'g');
+
+export const redactPii = (text: string): PiiRedaction => {
+  const counts: Partial<Record<PiiType, number>> = {};
+  let redacted = text;
+
+  for (const { type, pattern, validate } of DETECTORS) {
+    redacted = redacted.replace(pattern, match => {
+      if (validate && !validate(match)) return match;
+      counts[type] = (counts[type] || 0) + 1;
+      return placeholderFor(type);
+    });
+  }
+
+  return {
+    text: redacted,
+    report: {
+      total: Object.values(counts).reduce((sum, count) => sum + count, 0),
+      counts
+    }
+  };
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { LabelledReview, normalizeLabel, ReviewClassifier } from './reviewClassifier';
+
+const TRAINING: LabelledReview[] = [
+  { text: 'Love it, works perfectly and looks great', label: 'positive' },
+  { text: 'Great value, love the quality', label: 'positive' },
+  { text: 'Works great, would buy again', label: 'positive' },
+  { text: 'Broke after a week, total waste of money', label: 'negative' },
+  { text: 'Terrible quality, broke on day one', label: 'negative' },
+  { text: 'Waste of money, asked for a refund', label: 'negative' },
+  { text: 'Arrived on Tuesday in a brown box', label: 'neutral' },
+  { text: 'The box contains the charger and a cable', label: 'neutral' },
+  { text: 'Arrived in a box with a cable', label: 'neutral' }
+];
+
+describe('ReviewClassifier', () => {
+  const classifier = ReviewClassifier.train(TRAINING, { epochs: 40, minCount: 1 });
+
+  it('learns to separate the training labels', () => {
+    expect(TRAINING.map(({ text }) => classifier.predict(text).predicted_class)).toEqual(TRAINING.map(e => e.label));
+  });
+
+  it('predicts the same after a serialization round trip', () => {
+    const restored = new ReviewClassifier(JSON.parse(JSON.stringify(classifier.toJSON())));
+    const text = 'Great quality but it broke';
+    expect(restored.predict(text)).toEqual(classifier.predict(text));
+  });
+
+  it('refuses to train on an empty dataset', () => {
+    expect(() => ReviewClassifier.train([])).toThrow(/empty dataset/);
+  });
+});
+
+describe('normalizeLabel', () => {
+  it.each([
+    ['5', 'positive'],
+    [4, 'positive'],
+    ['3', 'neutral'],
+    [1.5, 'negative'],
+    ['POSITIVE', 'positive'],
+    ['neg', 'negative'],
+    ['Neutral', 'neutral'],
+    ['mixed', null]
+  ])('maps %s to %s', (raw, label) => {
+    expect(normalizeLabel(raw)).toBe(label);
+  });
+});
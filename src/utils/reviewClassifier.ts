@@ -0,0 +1,276 @@
+import { advancedPreprocess, TextFeatures, TextMetadata } from './advancedPreprocessing';
+import { calibrateDistribution, describeCalibration, AnalyzerCalibration } from './calibration';
+
+export type ClassLabel = 'positive' | 'negative' | 'neutral';
+
+export const CLASS_ORDER: ClassLabel[] = ['positive', 'negative', 'neutral'];
+
+export interface LabelledReview {
+  text: string;
+  label: ClassLabel;
+  aspects?: Record<string, ClassLabel>;
+}
+
+export interface TrainingOptions {
+  epochs: number;
+  learningRate: number;
+  l2: number;
+  minCount: number;
+  useBigrams: boolean;
+  seed: number;
+}
+
+export interface SerializedClassifier {
+  format: 'review-classifier-json';
+  version: 1;
+  labels: ClassLabel[];
+  options: TrainingOptions;
+  numericStats: Record<string, { mean: number; std: number }>;
+  bias: number[];
+  weights: Record<string, number[]>;
+  trainedAt: string;
+  trainingExamples: number;
+}
+
+export interface ClassifierPrediction {
+  positive: number;
+  negative: number;
+  neutral: number;
+  predicted_class: ClassLabel;
+  confidence: number;
+  calibrated: boolean;
+}
+
+type SparseVector = Map<string, number>;
+
+const DEFAULT_TRAINING_OPTIONS: TrainingOptions = {
+  epochs: 10,
+  learningRate: 0.1,
+  l2: 1e-4,
+  minCount: 2,
+  useBigrams: true,
+  seed: 42
+};
+
+const NUMERIC_FEATURES: (keyof TextFeatures | keyof Omit<TextMetadata, 'language'>)[] = [
+  'wordCount', 'sentenceCount', 'avgWordLength', 'avgSentenceLength', 'uniqueWords',
+  'lexicalDiversity', 'specialCharCount', 'uppercaseRatio', 'exclamationCount',
+  'questionCount', 'readabilityScore', 'emotionalIntensity', 'subjectivity'
+];
+
+export const extractClassifierFeatures = (text: string, useBigrams = true): SparseVector => {
+  const preprocessed = advancedPreprocess(text);
+  const features: SparseVector = new Map();
+  const lemmas = preprocessed.lemmatized;
+
+  for (const lemma of lemmas) {
+    features.set(`w:${lemma}`, 1);
+  }
+
+  if (useBigrams) {
+    for (let i = 0; i < lemmas.length - 1; i++) {
+      features.set(`b:${lemmas[i]}_${lemmas[i + 1]}`, 1);
+    }
+  }
+
+  const numeric = { ...preprocessed.features, ...preprocessed.metadata };
+  for (const name of NUMERIC_FEATURES) {
+    features.set(`f:${name}`, (numeric[name] as number | undefined) ?? 0);
+  }
+
+  return features;
+};
+
+const softmax = (logits: number[]): number[] => {
+  const max = Math.max(...logits);
+  const exps = logits.map(l => Math.exp(l - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  return exps.map(e => e / sum);
+};
+
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export class ReviewClassifier {
+  private model: SerializedClassifier;
+  private calibration?: AnalyzerCalibration;
+
+  constructor(model: SerializedClassifier, calibration?: AnalyzerCalibration) {
+    if (model.format !== 'review-classifier-json') {
+      throw new Error(`Unsupported classifier format: ${model.format}`);
+    }
+    this.model = model;
+    this.calibration = calibration;
+  }
+
+  static train(examples: LabelledReview[], options: Partial<TrainingOptions> = {}): ReviewClassifier {
+    const config = { ...DEFAULT_TRAINING_OPTIONS, ...options };
+    if (examples.length === 0) {
+      throw new Error('Cannot train a classifier on an empty dataset');
+    }
+
+    const vectors = examples.map(e => extractClassifierFeatures(e.text, config.useBigrams));
+    const targets = examples.map(e => CLASS_ORDER.indexOf(e.label));
+
+    const counts = new Map<string, number>();
+    for (const vector of vectors) {
+      for (const name of vector.keys()) {
+        counts.set(name, (counts.get(name) || 0) + 1);
+      }
+    }
+
+    const numericStats: SerializedClassifier['numericStats'] = {};
+    for (const name of NUMERIC_FEATURES) {
+      const values = vectors.map(v => v.get(`f:${name}`) || 0);
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+      const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+      numericStats[name] = { mean, std: Math.sqrt(variance) || 1 };
+    }
+
+    const weights: Record<string, number[]> = {};
+    for (const [name, count] of counts) {
+      if (name.startsWith('f:') || count >= config.minCount) {
+        weights[name] = CLASS_ORDER.map(() => 0);
+      }
+    }
+    const bias = CLASS_ORDER.map(() => 0);
+
+    const classifier = new ReviewClassifier({
+      format: 'review-classifier-json',
+      version: 1,
+      labels: CLASS_ORDER,
+      options: config,
+      numericStats,
+      bias,
+      weights,
+      trainedAt: new Date().toISOString(),
+      trainingExamples: examples.length
+    });
+
+    const normalized = vectors.map(v => classifier.normalize(v));
+    const order = examples.map((_, idx) => idx);
+    const random = createRandom(config.seed);
+
+    for (let epoch = 0; epoch < config.epochs; epoch++) {
+      for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+
+      const rate = config.learningRate / (1 + epoch * 0.5);
+
+      for (const idx of order) {
+        const vector = normalized[idx];
+        const probabilities = softmax(classifier.logits(vector));
+
+        for (let c = 0; c < CLASS_ORDER.length; c++) {
+          const gradient = probabilities[c] - (targets[idx] === c ? 1 : 0);
+          bias[c] -= rate * gradient;
+
+          for (const [name, value] of vector) {
+            const w = weights[name];
+            w[c] -= rate * (gradient * value + config.l2 * w[c]);
+          }
+        }
+      }
+    }
+
+    for (const name of Object.keys(weights)) {
+      weights[name] = weights[name].map(w => Math.round(w * 1e6) / 1e6);
+    }
+
+    return classifier;
+  }
+
+  private normalize(vector: SparseVector): SparseVector {
+    const normalized: SparseVector = new Map();
+
+    for (const [name, value] of vector) {
+      if (!(name in this.model.weights)) continue;
+
+      if (name.startsWith('f:')) {
+        const stats = this.model.numericStats[name.slice(2)];
+        normalized.set(name, stats ? (value - stats.mean) / stats.std : value);
+      } else {
+        normalized.set(name, value);
+      }
+    }
+
+    return normalized;
+  }
+
+  private logits(vector: SparseVector): number[] {
+    const logits = [...this.model.bias];
+
+    for (const [name, value] of vector) {
+      const w = this.model.weights[name];
+      for (let c = 0; c < logits.length; c++) {
+        logits[c] += w[c] * value;
+      }
+    }
+
+    return logits;
+  }
+
+  predict(text: string): ClassifierPrediction {
+    const vector = this.normalize(extractClassifierFeatures(text, this.model.options.useBigrams));
+    const probabilities = softmax(this.logits(vector));
+    const best = probabilities.indexOf(Math.max(...probabilities));
+
+    const predicted_class = this.model.labels[best];
+    const byLabel = calibrateDistribution(
+      Object.fromEntries(this.model.labels.map((label, idx) => [label, probabilities[idx]])) as Record<ClassLabel, number>,
+      this.calibration,
+      predicted_class
+    );
+
+    return {
+      positive: byLabel.positive,
+      negative: byLabel.negative,
+      neutral: byLabel.neutral,
+      predicted_class,
+      confidence: byLabel[predicted_class] * 100,
+      calibrated: Boolean(this.calibration)
+    };
+  }
+
+  getModelInfo() {
+    return {
+      type: 'multinomial-logistic-regression',
+      features: Object.keys(this.model.weights).length,
+      trained_at: this.model.trainedAt,
+      training_examples: this.model.trainingExamples,
+      options: this.model.options,
+      calibration: describeCalibration(this.calibration)
+    };
+  }
+
+  toJSON(): SerializedClassifier {
+    return this.model;
+  }
+}
+
+export const normalizeLabel = (raw: string | number): ClassLabel | null => {
+  const value = String(raw).trim().toLowerCase();
+
+  if (/^\d+(\.\d+)?$/.test(value)) {
+    const rating = Number(value);
+    if (rating <= 2) return 'negative';
+    if (rating >= 4) return 'positive';
+    return 'neutral';
+  }
+
+  if (value.startsWith('pos')) return 'positive';
+  if (value.startsWith('neg')) return 'negative';
+  if (value.startsWith('neu')) return 'neutral';
+
+  return null;
+};
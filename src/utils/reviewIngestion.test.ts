@@ -0,0 +1,90 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { detectReviewFormat, ingestReviews, IngestionOptions } from './reviewIngestion';
+import { Review } from './reviewRecord';
+
+let root: string;
+
+beforeEach(() => {
+  root = mkdtempSync(join(tmpdir(), 'ingest-'));
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+const ingest = async (name: string, content: string | Buffer, options?: IngestionOptions) => {
+  const path = join(root, name);
+  writeFileSync(path, content);
+
+  const reviews: Review[] = [];
+  const summary = await ingestReviews(path, review => {
+    reviews.push(review);
+  }, options);
+  return { reviews, summary };
+};
+
+describe('detectReviewFormat', () => {
+  it('detects the format from the extension, under an optional .gz', () => {
+    expect(detectReviewFormat('reviews.TSV')).toEqual({ format: 'tsv', gzipped: false });
+    expect(detectReviewFormat('Electronics_5.json.gz')).toEqual({ format: 'jsonl', gzipped: true });
+    expect(() => detectReviewFormat('reviews.xlsx')).toThrow('Unsupported review file');
+  });
+});
+
+describe('ingestReviews', () => {
+  it('reads CSV with quoted multi-line fields and reports malformed rows', async () => {
+    const csv = [
+      '\uFEFFtext,rating',
+      '"Great, and',
+      'it lasts",5',
+      'Fine,9',
+      'Too,many,columns',
+      '"never closed,1'
+    ].join('\n');
+
+    const { reviews, summary } = await ingest('reviews.csv', csv);
+
+    expect(reviews.map(review => review.text)).toEqual(['Great, and\nit lasts']);
+    expect(summary).toEqual({
+      rows: 4,
+      reviews: 1,
+      malformedCount: 3,
+      malformed: [
+        { row: 2, reason: 'invalid rating: 9 (expected 1-5)' },
+        { row: 3, reason: 'expected 2 columns, got 3' },
+        { row: 4, reason: 'unterminated quoted field' }
+      ]
+    });
+  });
+
+  it('reads gzipped JSON lines and lists only the first malformed rows', async () => {
+    const lines = [
+      JSON.stringify({ reviewText: 'Loved it', overall: 5 }),
+      '',
+      '{broken',
+      '[1, 2]',
+      JSON.stringify({ overall: 1 })
+    ].join('\n');
+
+    const { reviews, summary } = await ingest('reviews.jsonl.gz', gzipSync(lines), { maxMalformed: 2 });
+
+    expect(reviews).toHaveLength(1);
+    expect(summary).toMatchObject({ rows: 4, reviews: 1, malformedCount: 3 });
+    expect(summary.malformed).toEqual([
+      { row: 2, reason: 'invalid JSON' },
+      { row: 3, reason: 'not a JSON object' }
+    ]);
+  });
+
+  it('maps TSV columns through a custom mapping', async () => {
+    const { reviews } = await ingest('reviews.tsv', 'body\tscore\nSolid\t4\n', {
+      mapping: { text: ['body'], rating: ['score'] }
+    });
+
+    expect(reviews).toEqual([expect.objectContaining({ text: 'Solid', rating: 4 })]);
+  });
+});
@@ -0,0 +1,147 @@
+import { createReadStream } from 'node:fs';
+import { extname } from 'node:path';
+import { createInterface } from 'node:readline';
+import { createGunzip } from 'node:zlib';
+import { parseDelimited, SkippedRow } from './datasetLoader';
+import { ColumnMapping, MappedRecord, Review, DEFAULT_COLUMN_MAPPING, mapReviewRecord } from './reviewRecord';
+
+export type ReviewFormat = 'csv' | 'tsv' | 'jsonl';
+
+export interface IngestionOptions {
+  mapping?: Partial<ColumnMapping>;
+  // Malformed rows listed in the summary; the rest are only counted
+  maxMalformed?: number;
+}
+
+export interface IngestionSummary {
+  rows: number;
+  reviews: number;
+  malformedCount: number;
+  malformed: SkippedRow[];
+}
+
+const DEFAULT_MAX_MALFORMED = 100;
+
+// A quoted CSV field longer than this is taken to be an unterminated quote
+const MAX_RECORD_LENGTH = 1024 * 1024;
+
+export const detectReviewFormat = (path: string): { format: ReviewFormat; gzipped: boolean } => {
+  const gzipped = extname(path).toLowerCase() === '.gz';
+  const extension = extname(gzipped ? path.slice(0, -3) : path).toLowerCase();
+
+  if (extension === '.csv') return { format: 'csv', gzipped };
+  if (extension === '.tsv') return { format: 'tsv', gzipped };
+  // Amazon's .json exports hold one object per line
+  if (extension === '.jsonl' || extension === '.ndjson' || extension === '.json') return { format: 'jsonl', gzipped };
+
+  throw new Error(`Unsupported review file ${path}: expected .csv, .tsv, .jsonl or .json, optionally gzipped`);
+};
+
+// Mirrors parseDelimited, where quotes only open at the start of a field, to tell
+// whether a record continues on the next line
+const endsInsideQuotes = (line: string, delimiter: string, inQuotes: boolean): boolean => {
+  let quoted = inQuotes;
+  let fieldStart = !inQuotes;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') i++;
+      else if (char === '"') quoted = false;
+    } else if (char === '"' && fieldStart) {
+      quoted = true;
+    }
+    fieldStart = !quoted && char === delimiter;
+  }
+
+  return quoted;
+};
+
+// Reads the file line by line (gunzipping .gz files on the fly), so exports larger than memory
+// can be ingested; onReview is awaited before the next row is read
+export const ingestReviews = async (
+  path: string,
+  onReview: (review: Review, row: number) => void | Promise<void>,
+  options: IngestionOptions = {}
+): Promise<IngestionSummary> => {
+  const { format, gzipped } = detectReviewFormat(path);
+  const mapping = { ...DEFAULT_COLUMN_MAPPING, ...options.mapping };
+  const maxMalformed = options.maxMalformed ?? DEFAULT_MAX_MALFORMED;
+  const delimiter = format === 'tsv' ? '\t' : ',';
+
+  const summary: IngestionSummary = { rows: 0, reviews: 0, malformedCount: 0, malformed: [] };
+  const reject = (row: number, reason: string) => {
+    summary.malformedCount++;
+    if (summary.malformed.length < maxMalformed) summary.malformed.push({ row, reason });
+  };
+
+  const accept = async (mapped: MappedRecord, row: number) => {
+    if ('reason' in mapped) {
+      reject(row, mapped.reason);
+      return;
+    }
+    summary.reviews++;
+    await onReview(mapped.review, row);
+  };
+
+  const file = createReadStream(path);
+  const input = gzipped ? file.pipe(createGunzip()) : file;
+  if (gzipped) file.on('error', error => input.destroy(error));
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  let header: string[] | null = null;
+  let pending = '';
+  let inQuotes = false;
+
+  for await (const line of lines) {
+    if (format === 'jsonl') {
+      if (!line.trim()) continue;
+      const row = ++summary.rows;
+
+      let record: unknown;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        reject(row, 'invalid JSON');
+        continue;
+      }
+      if (typeof record !== 'object' || record === null || Array.isArray(record)) {
+        reject(row, 'not a JSON object');
+        continue;
+      }
+      await accept(mapReviewRecord(record as Record<string, unknown>, mapping), row);
+      continue;
+    }
+
+    pending = pending ? `${pending}\n${line}` : line;
+    inQuotes = endsInsideQuotes(line, delimiter, inQuotes);
+    if (inQuotes && pending.length < MAX_RECORD_LENGTH) continue;
+
+    const record = pending;
+    const unterminated = inQuotes;
+    pending = '';
+    inQuotes = false;
+    if (!record.trim()) continue;
+
+    if (!header) {
+      header = parseDelimited(record.replace(/^\uFEFF/, ''), delimiter)[0].map(name => name.trim());
+      continue;
+    }
+
+    const row = ++summary.rows;
+    const cells = parseDelimited(record, delimiter)[0] ?? [];
+    if (unterminated) {
+      reject(row, 'unterminated quoted field');
+    } else if (cells.length !== header.length) {
+      reject(row, `expected ${header.length} columns, got ${cells.length}`);
+    } else {
+      await accept(mapReviewRecord(Object.fromEntries(header.map((name, idx) => [name, cells[idx]])), mapping), row);
+    }
+  }
+
+  if (pending.trim()) {
+    reject(++summary.rows, 'unterminated quoted field');
+  }
+
+  return summary;
+};
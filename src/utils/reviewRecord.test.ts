@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_COLUMN_MAPPING, mapReviewRecord } from './reviewRecord';
+
+describe('mapReviewRecord', () => {
+  it('maps an Amazon 2014 JSON record', () => {
+    expect(mapReviewRecord({
+      reviewerID: 'A2SUAM1J3GNN3B',
+      asin: '0000013714',
+      reviewText: 'Works as described.',
+      overall: 5.0,
+      summary: ' Great ',
+      unixReviewTime: 1252800000
+    })).toEqual({
+      review: {
+        text: 'Works as described.',
+        title: 'Great',
+        rating: 5,
+        productId: '0000013714',
+        reviewerId: 'A2SUAM1J3GNN3B',
+        timestamp: '2009-09-13T00:00:00.000Z'
+      }
+    });
+  });
+
+  it('reads Amazon reviewTime dates and string ratings from TSV dumps', () => {
+    const mapped = mapReviewRecord({ review_body: 'Fine', star_rating: ' 3 ', reviewTime: '09 13, 2009' });
+    expect(mapped).toMatchObject({ review: { rating: 3, timestamp: '2009-09-13T00:00:00.000Z' } });
+  });
+
+  it('explains why a record cannot be mapped', () => {
+    expect(mapReviewRecord({ overall: 5 })).toEqual({ reason: 'missing reviewText / review_body / text / review' });
+    expect(mapReviewRecord({ text: 'Fine', stars: 7 })).toEqual({ reason: 'invalid stars: 7 (expected 1-5)' });
+    expect(mapReviewRecord({ text: 'Fine', date: 'yesterday' })).toEqual({ reason: 'invalid date: yesterday' });
+  });
+
+  it('follows a custom column mapping', () => {
+    const mapping = { ...DEFAULT_COLUMN_MAPPING, text: ['body'], rating: ['score'] };
+    expect(mapReviewRecord({ body: 'Solid', score: '4' }, mapping)).toMatchObject({ review: { text: 'Solid', rating: 4 } });
+  });
+});
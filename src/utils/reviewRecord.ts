@@ -0,0 +1,110 @@
+export interface Review {
+  text: string;
+  title: string | null;
+  rating: number | null;
+  productId: string | null;
+  reviewerId: string | null;
+  // ISO 8601
+  timestamp: string | null;
+}
+
+export type ReviewField = keyof Review;
+
+// Source columns tried in order for each field
+export type ColumnMapping = Record<ReviewField, string[]>;
+
+export type MappedRecord = { review: Review } | { reason: string };
+
+// The public Amazon review exports (2014/2018 JSON lines, the TSV dumps) come first, then plain names
+export const DEFAULT_COLUMN_MAPPING: ColumnMapping = {
+  text: ['reviewText', 'review_body', 'text', 'review'],
+  title: ['summary', 'review_headline', 'title'],
+  rating: ['overall', 'star_rating', 'rating', 'stars'],
+  productId: ['asin', 'product_id', 'productId', 'parent_asin'],
+  reviewerId: ['reviewerID', 'customer_id', 'reviewerId', 'user_id'],
+  timestamp: ['unixReviewTime', 'review_date', 'reviewTime', 'timestamp', 'date']
+};
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+// Amazon's reviewTime, e.g. "09 13, 2009"
+const AMAZON_REVIEW_TIME = /^(\d{1,2}) (\d{1,2}), (\d{4})$/;
+
+const pick = (record: Record<string, unknown>, columns: string[]): [string, unknown] | null => {
+  for (const column of columns) {
+    const value = record[column];
+    if (value !== undefined && value !== null && value !== '') return [column, value];
+  }
+  return null;
+};
+
+const parseRating = (value: unknown): number | null => {
+  const rating = typeof value === 'number' ? value : Number(String(value).trim());
+  return Number.isFinite(rating) && rating >= MIN_RATING && rating <= MAX_RATING ? rating : null;
+};
+
+// Unix seconds (unixReviewTime) or milliseconds, Amazon's reviewTime, or anything Date.parse reads
+const parseTimestamp = (value: unknown): string | null => {
+  const raw = String(value).trim();
+  const amazon = AMAZON_REVIEW_TIME.exec(raw);
+
+  let time: number;
+  if (typeof value === 'number' || /^\d+(?:\.\d+)?$/.test(raw)) {
+    const number = Number(raw);
+    time = number < 1e11 ? number * 1000 : number;
+  } else if (amazon) {
+    time = Date.UTC(Number(amazon[3]), Number(amazon[1]) - 1, Number(amazon[2]));
+  } else {
+    time = Date.parse(raw);
+  }
+
+  const date = new Date(time);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const toIdentifier = (value: unknown): string | null =>
+  typeof value === 'string' || typeof value === 'number' ? String(value).trim() || null : null;
+
+export const mapReviewRecord = (
+  record: Record<string, unknown>,
+  mapping: ColumnMapping = DEFAULT_COLUMN_MAPPING
+): MappedRecord => {
+  const text = pick(record, mapping.text);
+  if (!text || typeof text[1] !== 'string' || text[1].trim().length === 0) {
+    return { reason: `missing ${mapping.text.join(' / ')}` };
+  }
+
+  const title = pick(record, mapping.title);
+  const rating = pick(record, mapping.rating);
+  const timestamp = pick(record, mapping.timestamp);
+  const productId = pick(record, mapping.productId);
+  const reviewerId = pick(record, mapping.reviewerId);
+
+  const review: Review = {
+    text: text[1],
+    title: title && typeof title[1] === 'string' ? title[1].trim() || null : null,
+    rating: rating ? parseRating(rating[1]) : null,
+    productId: productId ? toIdentifier(productId[1]) : null,
+    reviewerId: reviewerId ? toIdentifier(reviewerId[1]) : null,
+    timestamp: timestamp ? parseTimestamp(timestamp[1]) : null
+  };
+
+  if (rating && review.rating === null) {
+    return { reason: `invalid ${rating[0]}: ${String(rating[1])} (expected ${MIN_RATING}-${MAX_RATING})` };
+  }
+  if (timestamp && review.timestamp === null) {
+    return { reason: `invalid ${timestamp[0]}: ${String(timestamp[1])}` };
+  }
+  return { review };
+};
+
+// A bare review text, as sent by clients that only have the text
+export const reviewFromText = (text: string): Review => ({
+  text,
+  title: null,
+  rating: null,
+  productId: null,
+  reviewerId: null,
+  timestamp: null
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { detectSarcasm, applySarcasmToProbabilities, applySarcasmToScore, SARCASM_DAMP_THRESHOLD } from './sarcasmDetector';
+import { analyzeSentiment } from './sentimentAnalyzer';
+import { analyzeWithBert, createBertModel } from './bertModel';
+
+describe('detectSarcasm', () => {
+  it('does not damp a sincere mixed review on a single cue', () => {
+    const analysis = detectSarcasm('good but broke after a week');
+    expect(analysis.cues.map(c => c.type)).toEqual(['positive_with_negative_event']);
+    expect(analysis.sarcasmProbability).toBeLessThan(SARCASM_DAMP_THRESHOLD);
+    expect(analyzeSentiment('good but broke after a week').sarcasm.adjustment).toBe('none');
+  });
+
+  it.each([
+    'Transfer speed is 100 MB/s, great drive',
+    'I love how it fits in my pocket. Great phone.',
+    'I love that it charges fast'
+  ])('leaves sincere praise that only looks like a marker alone: %s', text => {
+    const result = analyzeSentiment(text);
+    expect(result.sarcasm).toMatchObject({ cues: [], adjustment: 'none' });
+    expect(result.label).toBe('Positive');
+    expect(analyzeWithBert(text, createBertModel()).predicted_class).toBe('positive');
+  });
+
+  it('counts a trailing /s tag as a marker', () => {
+    expect(detectSarcasm('Best purchase of my life /s').cues).toEqual([
+      { type: 'sarcasm_marker', evidence: '/s', weight: 0.6 }
+    ]);
+  });
+
+  it('counts an ambiguous phrase next to a negative event', () => {
+    const result = analyzeSentiment('I love how it broke after a week.');
+    expect(result.sarcasm.cues.map(c => c.evidence)).toContain('love how it');
+    expect(result.sarcasm.adjustment).not.toBe('none');
+  });
+
+  it('flips praise surrounded by several sarcasm cues', () => {
+    const result = analyzeSentiment('Oh great, it broke on day one. Fantastic.');
+    expect(result.sarcasm.adjustment).toBe('flipped');
+    expect(result.label).toBe('Negative');
+  });
+
+  it('treats a low star rating with positive wording as a cue', () => {
+    const analysis = detectSarcasm('Wonderful, just wonderful.', { rating: 1 });
+    expect(analysis.cues.map(c => c.type)).toContain('rating_contradiction');
+    expect(detectSarcasm('Wonderful, just wonderful.', { rating: 5 }).cues).toEqual([]);
+  });
+
+  it('reads the wording with the resources of the given language', () => {
+    expect(detectSarcasm('Excelente', { rating: 1, language: 'es' }).cues.map(c => c.type)).toEqual(['rating_contradiction']);
+    expect(detectSarcasm('Excelente', { rating: 1 }).cues).toEqual([]);
+  });
+
+  it('leaves scores without cues untouched', () => {
+    const analysis = detectSarcasm('Works as described.');
+    expect(applySarcasmToScore(2, 2, analysis)).toEqual({ score: 2, sarcasm: { ...analysis, adjustment: 'none' } });
+  });
+});
+
+describe('applySarcasmToProbabilities', () => {
+  it('moves positive mass to negative and neutral when damping', () => {
+    const analysis = { sarcasmProbability: 0.5, cues: [], adjustment: 'none' as const };
+    const { probabilities, sarcasm } = applySarcasmToProbabilities([0.8, 0.1, 0.1], analysis);
+
+    expect(sarcasm.adjustment).toBe('damped');
+    expect(probabilities[0]).toBeCloseTo(0.4);
+    expect(probabilities[1]).toBeCloseTo(0.3);
+    expect(probabilities[2]).toBeCloseTo(0.3);
+  });
+
+  it('swaps positive and negative when flipping', () => {
+    const analysis = { sarcasmProbability: 0.8, cues: [], adjustment: 'none' as const };
+    expect(applySarcasmToProbabilities([0.7, 0.2, 0.1], analysis).probabilities).toEqual([0.2, 0.7, 0.1]);
+  });
+});
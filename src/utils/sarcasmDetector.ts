@@ -0,0 +1,187 @@
+import { analyzeValence } from './valenceShifter';
+import { DEFAULT_LANGUAGE } from './languageResources';
+import { segmentSentences } from './sentenceSegmenter';
+
+export type SarcasmCueType =
+  | 'positive_with_negative_event'
+  | 'sarcasm_marker'
+  | 'scare_quotes'
+  | 'rating_contradiction'
+  | 'positive_interjection';
+
+export interface SarcasmCue {
+  type: SarcasmCueType;
+  evidence: string;
+  weight: number;
+}
+
+export interface SarcasmAnalysis {
+  sarcasmProbability: number;
+  cues: SarcasmCue[];
+  adjustment: 'none' | 'damped' | 'flipped';
+}
+
+export interface SarcasmOptions {
+  rating?: number;
+  language?: string;
+}
+
+export const SARCASM_FLIP_THRESHOLD = 0.7;
+export const SARCASM_DAMP_THRESHOLD = 0.4;
+
+// A sincere mixed review ("good but broke after a week") has one positive sentence next to a
+// negative event, so that cue alone stays below the damping threshold
+const CUE_WEIGHTS: Record<SarcasmCueType, number> = {
+  positive_with_negative_event: 0.3,
+  sarcasm_marker: 0.6,
+  scare_quotes: 0.35,
+  rating_contradiction: 0.5,
+  positive_interjection: 0.2
+};
+
+const SARCASM_MARKERS = [
+  'yeah right', 'yeah, right', 'just what i wanted', 'just what i needed',
+  'thanks a lot', 'thanks for nothing', 'oh great', 'oh joy', 'oh wonderful',
+  'what a surprise', 'big surprise', 'so much for', 'said no one ever'
+];
+
+// Just as often sincere ("I love that it charges fast"), so these only count next to another cue
+const AMBIGUOUS_MARKERS = ['as if', 'love how it', 'love that it', 'gotta love', 'totally worth it'];
+
+const markerPattern = (marker: string) => new RegExp(`\\b${marker}\\b`, 'i');
+
+const SARCASM_PATTERNS = SARCASM_MARKERS.map(marker => ({ marker, pattern: markerPattern(marker) }));
+
+const AMBIGUOUS_PATTERNS = AMBIGUOUS_MARKERS.map(marker => ({ marker, pattern: markerPattern(marker) }));
+
+// The Reddit-style "/s" tag closes the review; elsewhere it is usually a unit such as MB/s
+const SARCASM_TAG = /(?:^|\s)\/s\s*$/;
+
+const NEGATIVE_EVENT = new RegExp(
+  '\\b(?:broke|broken|stopped working|quit working|died|dead on arrival|doa|fell apart|falls apart|' +
+  'crashed|crashes|leaked|leaks|cracked|shattered|never arrived|arrived damaged|missing parts?|' +
+  'returned it|refund|fell off|overheat(?:s|ed|ing)?|caught fire|' +
+  'on day (?:one|two|three|\\d+)|after (?:one|two|three|a|an|\\d+) (?:days?|weeks?|uses?|hours?))\\b',
+  'i'
+);
+
+const SCARE_QUOTES = /["“‘]([^"”’]{2,30})["”’]/g;
+
+const POSITIVE_INTERJECTION = /^\s*(?:oh\s+)?(?:great|perfect|wonderful|fantastic|brilliant|awesome|nice|lovely|amazing)\s*[,.!]/i;
+
+export const detectSarcasm = (text: string, options: SarcasmOptions = {}): SarcasmAnalysis => {
+  const cues: SarcasmCue[] = [];
+  const language = options.language ?? DEFAULT_LANGUAGE;
+
+  const sentences = segmentSentences(text).map(span => span.text);
+  const sentencePositives = sentences.map(s => analyzeValence(s, language).positive);
+  const sentenceEvents = sentences.map(s => s.match(NEGATIVE_EVENT)?.[0]);
+
+  sentences.forEach((_, idx) => {
+    if (sentencePositives[idx].length === 0) return;
+    const event = [idx - 1, idx, idx + 1]
+      .map(i => sentenceEvents[i])
+      .find(e => e !== undefined);
+    if (event) {
+      cues.push({
+        type: 'positive_with_negative_event',
+        evidence: `${sentencePositives[idx][0]} … ${event}`,
+        weight: CUE_WEIGHTS.positive_with_negative_event
+      });
+    }
+  });
+
+  for (const { marker, pattern } of SARCASM_PATTERNS) {
+    if (pattern.test(text)) {
+      cues.push({ type: 'sarcasm_marker', evidence: marker, weight: CUE_WEIGHTS.sarcasm_marker });
+    }
+  }
+  if (SARCASM_TAG.test(text)) {
+    cues.push({ type: 'sarcasm_marker', evidence: '/s', weight: CUE_WEIGHTS.sarcasm_marker });
+  }
+
+  for (const match of text.matchAll(SCARE_QUOTES)) {
+    if (analyzeValence(match[1], language).score > 0) {
+      cues.push({ type: 'scare_quotes', evidence: match[0], weight: CUE_WEIGHTS.scare_quotes });
+    }
+  }
+
+  const interjection = text.match(POSITIVE_INTERJECTION);
+  if (interjection && sentenceEvents.some(e => e !== undefined)) {
+    cues.push({
+      type: 'positive_interjection',
+      evidence: interjection[0].trim(),
+      weight: CUE_WEIGHTS.positive_interjection
+    });
+  }
+
+  if (options.rating !== undefined && options.rating <= 2 && analyzeValence(text, language).score > 0) {
+    cues.push({
+      type: 'rating_contradiction',
+      evidence: `rating ${options.rating} with positive wording`,
+      weight: CUE_WEIGHTS.rating_contradiction
+    });
+  }
+
+  if (cues.length > 0 || sentenceEvents.some(e => e !== undefined)) {
+    for (const { marker, pattern } of AMBIGUOUS_PATTERNS) {
+      if (pattern.test(text)) {
+        cues.push({ type: 'sarcasm_marker', evidence: marker, weight: CUE_WEIGHTS.sarcasm_marker });
+      }
+    }
+  }
+
+  const sarcasmProbability = 1 - cues.reduce((remaining, cue) => remaining * (1 - cue.weight), 1);
+
+  return {
+    sarcasmProbability: Math.round(sarcasmProbability * 1000) / 1000,
+    cues,
+    adjustment: 'none'
+  };
+};
+
+const resolveAdjustment = (surfacePositive: boolean, analysis: SarcasmAnalysis): SarcasmAnalysis['adjustment'] => {
+  if (!surfacePositive) return 'none';
+  if (analysis.sarcasmProbability >= SARCASM_FLIP_THRESHOLD) return 'flipped';
+  if (analysis.sarcasmProbability >= SARCASM_DAMP_THRESHOLD) return 'damped';
+  return 'none';
+};
+
+export const applySarcasmToScore = (
+  score: number,
+  positiveScore: number,
+  analysis: SarcasmAnalysis
+): { score: number; sarcasm: SarcasmAnalysis } => {
+  const adjustment = resolveAdjustment(positiveScore > 0, analysis);
+  const sarcasm = { ...analysis, adjustment };
+
+  if (adjustment === 'flipped') {
+    return { score: Math.round((score - 2 * positiveScore) * 100) / 100, sarcasm };
+  }
+
+  if (adjustment === 'damped') {
+    return { score: Math.round((score - positiveScore * analysis.sarcasmProbability) * 100) / 100, sarcasm };
+  }
+
+  return { score, sarcasm };
+};
+
+export const applySarcasmToProbabilities = (
+  probabilities: [number, number, number],
+  analysis: SarcasmAnalysis
+): { probabilities: [number, number, number]; sarcasm: SarcasmAnalysis } => {
+  const [positive, negative, neutral] = probabilities;
+  const adjustment = resolveAdjustment(positive > negative, analysis);
+  const sarcasm = { ...analysis, adjustment };
+
+  if (adjustment === 'flipped') {
+    return { probabilities: [negative, positive, neutral], sarcasm };
+  }
+
+  if (adjustment === 'damped') {
+    const moved = positive * analysis.sarcasmProbability;
+    return { probabilities: [positive - moved, negative + moved / 2, neutral + moved / 2], sarcasm };
+  }
+
+  return { probabilities, sarcasm };
+};
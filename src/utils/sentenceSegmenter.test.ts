@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { segmentSentences } from './sentenceSegmenter';
+import { analyzeSentiment } from './sentimentAnalyzer';
+
+describe('segmentSentences', () => {
+  it('returns character offsets that slice back to each sentence', () => {
+    const text = 'Great phone!  The battery is bad.\nWould not buy again';
+    const spans = segmentSentences(text);
+
+    expect(spans.map(s => s.text)).toEqual(['Great phone!', 'The battery is bad.', 'Would not buy again']);
+    for (const span of spans) expect(text.slice(span.start, span.end)).toBe(span.text);
+  });
+
+  it('does not split on abbreviations, initials or decimals', () => {
+    const spans = segmentSentences('Dr. Smith paid $9.99 for it, e.g. a bargain. J. R. agreed.');
+    expect(spans.map(s => s.text)).toEqual(['Dr. Smith paid $9.99 for it, e.g. a bargain.', 'J. R. agreed.']);
+  });
+
+  it('keeps closing quotes and repeated terminators with their sentence', () => {
+    expect(segmentSentences('He said "wow!" Really?!').map(s => s.text)).toEqual(['He said "wow!"', 'Really?!']);
+  });
+});
+
+describe('sentence sentiment', () => {
+  it('labels each sentence of a mixed review on its own', () => {
+    const { sentences } = analyzeSentiment('The screen is beautiful. The battery is terrible.');
+    expect(sentences.map(s => s.label)).toEqual(['Positive', 'Negative']);
+  });
+});
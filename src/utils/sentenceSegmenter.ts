@@ -0,0 +1,87 @@
+export interface SentenceSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface SentenceSentiment extends SentenceSpan {
+  label: 'Positive' | 'Negative' | 'Neutral';
+  score: number;
+}
+
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'approx',
+  'e.g', 'i.e', 'u.s', 'u.k', 'inc', 'ltd', 'co', 'vol', 'fig',
+  'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec'
+]);
+
+const TERMINATOR = /[.!?…]/;
+const CLOSING = /["'”’)\]]/;
+
+const isAbbreviation = (text: string, dotIndex: number): boolean => {
+  const before = text.slice(0, dotIndex).match(/([A-Za-z.]+)$/);
+  if (!before) return false;
+  const word = before[1].toLowerCase().replace(/^\.+/, '');
+  return ABBREVIATIONS.has(word) || /^[a-z]$/.test(word);
+};
+
+const isDecimalPoint = (text: string, index: number): boolean => {
+  return /\d/.test(text[index - 1] || '') && /\d/.test(text[index + 1] || '');
+};
+
+export const segmentSentences = (text: string): SentenceSpan[] => {
+  const spans: SentenceSpan[] = [];
+  let start = 0;
+
+  const pushSpan = (end: number) => {
+    const raw = text.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed.length > 0) {
+      const spanStart = start + leading;
+      spans.push({ text: trimmed, start: spanStart, end: spanStart + trimmed.length });
+    }
+    start = end;
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\n') {
+      pushSpan(i);
+      i++;
+      continue;
+    }
+
+    if (TERMINATOR.test(char)) {
+      if (char === '.' && (isDecimalPoint(text, i) || isAbbreviation(text, i))) {
+        i++;
+        continue;
+      }
+
+      let end = i + 1;
+      while (end < text.length && (TERMINATOR.test(text[end]) || CLOSING.test(text[end]))) {
+        end++;
+      }
+
+      if (end >= text.length || /\s/.test(text[end])) {
+        pushSpan(end);
+      }
+      i = end;
+      continue;
+    }
+
+    i++;
+  }
+
+  pushSpan(text.length);
+
+  return spans;
+};
+
+export const labelFromScore = (score: number): SentenceSentiment['label'] => {
+  if (score > 0) return 'Positive';
+  if (score < 0) return 'Negative';
+  return 'Neutral';
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { analyzePreprocessed, analyzeSentiment, aggregateResults, mergeAggregates } from './sentimentAnalyzer';
+import { advancedPreprocess } from './advancedPreprocessing';
+
+const NOISY = 'This phone is gr8, soooo gooood';
+
+describe('analyzeSentiment', () => {
+  it('labels clear praise and complaints', () => {
+    expect(analyzeSentiment('I love this, excellent quality').label).toBe('Positive');
+    expect(analyzeSentiment('Terrible, it broke and support was useless').label).toBe('Negative');
+    expect(analyzeSentiment('The box contains a charger').label).toBe('Neutral');
+  });
+
+  it('scores with the denoise stage of the requested pipeline', () => {
+    const denoised = analyzeSentiment(NOISY);
+    const raw = analyzeSentiment(NOISY, { preprocessing: { denoise: false } });
+
+    expect(denoised.positive).toEqual(['great', 'good']);
+    expect(raw.positive).not.toContain('good');
+    expect(raw.substitutions).toEqual([]);
+    expect(raw.score).toBeLessThan(denoised.score);
+  });
+
+  it('takes features from the pipeline it is given', () => {
+    const preprocessing = { extractFeatures: false };
+    const preprocessed = advancedPreprocess(NOISY, preprocessing);
+    const result = analyzePreprocessed(NOISY, preprocessed, { preprocessing });
+
+    expect(result.features).toBeNull();
+    expect(result).toEqual(analyzeSentiment(NOISY, { preprocessing }));
+  });
+});
+
+describe('per-language scoring', () => {
+  it.each([
+    ['es', 'El producto es excelente, me encanta', 'Positive'],
+    ['es', 'No es bueno', 'Negative'],
+    ['fr', "Produit excellent, je l'adore", 'Positive'],
+    ['fr', "Ce n'est pas bon", 'Negative'],
+    ['de', 'Sehr gut, ich liebe es', 'Positive'],
+    ['de', 'Nicht gut', 'Negative'],
+    ['hi', 'यह उत्पाद बहुत अच्छा है', 'Positive'],
+    ['hi', 'bilkul bekaar hai', 'Negative']
+  ])('scores %s reviews with their own lexicon and negators: %s', (language, text, label) => {
+    const result = analyzeSentiment(text, { language });
+    expect(result.language).toBe(language);
+    expect(result.label).toBe(label);
+  });
+
+  it('does not know foreign sentiment words in the English lexicon', () => {
+    expect(analyzeSentiment('Sehr gut, ich liebe es').label).toBe('Neutral');
+  });
+});
+
+describe('mergeAggregates', () => {
+  it('matches aggregating the combined batch', () => {
+    const first = ['Great', 'Awful', 'Fine I guess'].map(text => analyzeSentiment(text));
+    const second = ['Love it', 'Meh'].map(text => analyzeSentiment(text));
+    const merged = mergeAggregates(aggregateResults(first), aggregateResults(second));
+    const combined = aggregateResults([...first, ...second]);
+
+    for (const [key, value] of Object.entries(combined)) {
+      expect(merged[key as keyof typeof merged]).toBeCloseTo(value);
+    }
+  });
+});
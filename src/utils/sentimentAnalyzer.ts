@@ -1,56 +1,116 @@
-import Sentiment from 'sentiment';
-import { preprocessText, removeStopWords, extractFeatures } from './textPreprocessing';
-
-const sentiment = new Sentiment();
+import { advancedPreprocess, PreprocessedData, PreprocessingOptions, TextFeatures } from './advancedPreprocessing';
+import { extractAspects, AspectMap } from './aspectExtractor';
+import { analyzeValence, ValenceShift } from './valenceShifter';
+import { detectSarcasm, applySarcasmToScore, SarcasmAnalysis } from './sarcasmDetector';
+import { segmentSentences, labelFromScore, SentenceSentiment } from './sentenceSegmenter';
+import { calibrateDistribution, AnalyzerCalibration, ClassDistribution } from './calibration';
+import { DEFAULT_LANGUAGE, LEXICON_LANGUAGES } from './languageResources';
+import { Substitution } from './textNormalizer';
+import { classifyEmotions, EmotionAnalysis } from './emotionClassifier';
+import { analyzeSubjectivity, SubjectivityAnalysis } from './subjectivityAnalyzer';
 
 export interface SentimentResult {
   score: number;
   comparative: number;
   label: 'Positive' | 'Negative' | 'Neutral';
   confidence: number;
+  probabilities: ClassDistribution;
+  calibrated: boolean;
+  language: string;
   tokens: string[];
   positive: string[];
   negative: string[];
-  features: {
-    wordCount: number;
-    avgWordLength: number;
-    uniqueWords: number;
-    lexicalDiversity: number;
-  };
+  features: TextFeatures | null;
+  aspects: AspectMap;
+  shifts: ValenceShift[];
+  substitutions: Substitution[];
+  emotions: EmotionAnalysis;
+  subjectivity: SubjectivityAnalysis;
+  sarcasm: SarcasmAnalysis;
+  sentences: SentenceSentiment[];
 }
 
-export const analyzeSentiment = (text: string): SentimentResult => {
-  const preprocessed = preprocessText(text);
-  const withoutStopWords = removeStopWords(preprocessed);
+export interface AnalyzeOptions {
+  rating?: number;
+  calibration?: AnalyzerCalibration;
+  preprocessing?: Partial<PreprocessingOptions>;
+  language?: string;
+}
 
-  const result = sentiment.analyze(text);
-  const features = extractFeatures(preprocessed);
+export const SUPPORTED_LANGUAGES = LEXICON_LANGUAGES;
 
-  const confidence = Math.min(Math.abs(result.comparative) * 100, 100);
+const LEXICON_SCORE_SCALE = 3;
 
-  let label: 'Positive' | 'Negative' | 'Neutral';
-  if (result.score > 0) {
-    label = 'Positive';
-  } else if (result.score < 0) {
-    label = 'Negative';
-  } else {
-    label = 'Neutral';
+export const scoreToDistribution = (score: number): ClassDistribution => {
+  if (score === 0) {
+    return { positive: 0.2, negative: 0.2, neutral: 0.6 };
   }
 
+  const strength = 1 - Math.exp(-Math.abs(score) / LEXICON_SCORE_SCALE);
+  const main = 0.5 + 0.5 * strength;
+  const rest = 1 - main;
+
+  return score > 0
+    ? { positive: main, negative: rest / 3, neutral: (rest * 2) / 3 }
+    : { positive: rest / 3, negative: main, neutral: (rest * 2) / 3 };
+};
+
+// For callers that also report the pipeline output, so it runs once; preprocessed must come from
+// advancedPreprocess with the same preprocessing options and language
+export const analyzePreprocessed = (
+  text: string,
+  preprocessed: PreprocessedData,
+  options: AnalyzeOptions = {}
+): SentimentResult => {
+  const language = options.language ?? DEFAULT_LANGUAGE;
+  const stages = options.preprocessing ?? {};
+
+  const result = analyzeValence(text, language, stages);
+  const positiveScore = result.contributions.filter(c => c.score > 0).reduce((sum, c) => sum + c.score, 0);
+  const { score, sarcasm } = applySarcasmToScore(
+    result.score,
+    positiveScore,
+    detectSarcasm(text, { rating: options.rating, language })
+  );
+  const comparative = result.tokens.length > 0 ? score / result.tokens.length : 0;
+  const features = preprocessed.features;
+  const aspects = extractAspects(text);
+  const sentences = segmentSentences(text).map(span => {
+    const sentenceScore = analyzeValence(span.text, language, stages).score;
+    return { ...span, label: labelFromScore(sentenceScore), score: sentenceScore };
+  });
+
+  const label = labelFromScore(score);
+  const probabilities = calibrateDistribution(scoreToDistribution(score), options.calibration);
+  const confidence = probabilities[label.toLowerCase() as keyof ClassDistribution] * 100;
+
   return {
-    score: result.score,
-    comparative: result.comparative,
+    score,
+    comparative,
     label,
     confidence,
+    probabilities,
+    calibrated: Boolean(options.calibration),
+    language,
     tokens: result.tokens,
     positive: result.positive,
     negative: result.negative,
-    features
+    features,
+    aspects,
+    shifts: result.shifts,
+    substitutions: result.substitutions,
+    emotions: classifyEmotions(text, language),
+    subjectivity: analyzeSubjectivity(text, language),
+    sarcasm,
+    sentences
   };
 };
 
-export const batchAnalyze = (reviews: string[]): SentimentResult[] => {
-  return reviews.map(review => analyzeSentiment(review));
+export const analyzeSentiment = (text: string, options: AnalyzeOptions = {}): SentimentResult =>
+  analyzePreprocessed(text, advancedPreprocess(text, options.preprocessing, options.language ?? DEFAULT_LANGUAGE), options);
+
+export const batchAnalyze = (reviews: string[], options: AnalyzeOptions = {}): SentimentResult[] => {
+  return reviews.map(review => analyzeSentiment(review, options));
 };
 
 export const aggregateResults = (results: SentimentResult[]) => {
@@ -59,18 +119,35 @@ export const aggregateResults = (results: SentimentResult[]) => {
   const negative = results.filter(r => r.label === 'Negative').length;
   const neutral = results.filter(r => r.label === 'Neutral').length;
 
-  const avgScore = results.reduce((sum, r) => sum + r.score, 0) / total;
-  const avgConfidence = results.reduce((sum, r) => sum + r.confidence, 0) / total;
+  const denominator = total || 1;
+
+  const avgScore = results.reduce((sum, r) => sum + r.score, 0) / denominator;
+  const avgConfidence = results.reduce((sum, r) => sum + r.confidence, 0) / denominator;
 
   return {
     total,
     positive,
     negative,
     neutral,
-    positivePercentage: (positive / total) * 100,
-    negativePercentage: (negative / total) * 100,
-    neutralPercentage: (neutral / total) * 100,
+    positivePercentage: (positive / denominator) * 100,
+    negativePercentage: (negative / denominator) * 100,
+    neutralPercentage: (neutral / denominator) * 100,
     avgScore,
     avgConfidence
   };
 };
+
+// Combines two aggregates of the same shape as if they had been computed over both groups at once:
+// counts add up, averages and percentages are weighted by each group's total
+export const mergeAggregates = <T extends { total: number }>(a: T, b: T): T => {
+  const left = a as T & Record<string, number>;
+  const right = b as T & Record<string, number>;
+  const total = a.total + b.total;
+
+  return Object.fromEntries(Object.keys(left).map(key => [
+    key,
+    key.startsWith('avg') || key.endsWith('Percentage')
+      ? (total ? (left[key] * a.total + right[key] * b.total) / total : 0)
+      : left[key] + right[key]
+  ])) as T;
+};
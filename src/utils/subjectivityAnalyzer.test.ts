@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSubjectivity, isFactual } from './subjectivityAnalyzer';
+import { aggregateResults, analyzeSentiment } from './sentimentAnalyzer';
+
+describe('analyzeSubjectivity', () => {
+  it('marks a spec-only review as factual', () => {
+    const analysis = analyzeSubjectivity('The box contains a 65W charger and a USB-C cable.');
+
+    expect(analysis).toMatchObject({ label: 'objective', score: 0, evidence: [] });
+    expect(isFactual(analysis)).toBe(true);
+  });
+
+  it('lists the words that make an opinion subjective', () => {
+    const analysis = analyzeSubjectivity('I absolutely love this phone!');
+
+    expect(analysis.label).toBe('subjective');
+    expect(analysis.evidence.map(e => e.word)).toEqual(['absolutely', 'love']);
+  });
+
+  it('scores each sentence and calls a review subjective when any sentence is', () => {
+    const analysis = analyzeSubjectivity('Arrived on Tuesday. Honestly it is the best purchase ever.');
+
+    expect(analysis.sentences.map(s => s.label)).toEqual(['objective', 'subjective']);
+    expect(analysis.subjectiveSentences).toBe(1);
+    expect(analysis.label).toBe('subjective');
+  });
+
+  it('derives subjectivity from the lexicon of other languages', () => {
+    expect(analyzeSubjectivity('Ich liebe es, wirklich toll!', 'de').label).toBe('subjective');
+    expect(analyzeSubjectivity('Die Lieferung kam am Montag.', 'de').label).toBe('objective');
+  });
+});
+
+describe('factual reviews in aggregates', () => {
+  it('can be filtered out before aggregating', () => {
+    const results = ['Love it!', 'The box contains a charger.', 'Terrible, it broke'].map(text => analyzeSentiment(text));
+    const opinions = results.filter(result => !isFactual(result.subjectivity));
+
+    expect(opinions).toHaveLength(2);
+    expect(aggregateResults(opinions).neutral).toBe(0);
+  });
+});
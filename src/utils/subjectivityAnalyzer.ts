@@ -0,0 +1,87 @@
+import subjectivityData from '../data/subjectivity.json';
+import { getLanguageResources, DEFAULT_LANGUAGE } from './languageResources';
+import { segmentSentences, SentenceSpan } from './sentenceSegmenter';
+import { normalizeEmoji, EMOJI_CLASS } from './emojiNormalizer';
+import { normalizeNoisyText } from './textNormalizer';
+
+export type SubjectivityLabel = 'subjective' | 'objective';
+
+export interface SubjectivityEvidence {
+  word: string;
+  subjectivity: number;
+}
+
+export interface SentenceSubjectivity extends SentenceSpan {
+  score: number;
+  label: SubjectivityLabel;
+  evidence: SubjectivityEvidence[];
+}
+
+export interface SubjectivityAnalysis {
+  score: number;
+  label: SubjectivityLabel;
+  subjectiveSentences: number;
+  sentences: SentenceSubjectivity[];
+  evidence: SubjectivityEvidence[];
+}
+
+const SUBJECTIVE_THRESHOLD = 0.5;
+const MODIFIER_SUBJECTIVITY = 0.6;
+
+// Sentiment-bearing words are opinions by definition; stronger words are more subjective
+const SENTIMENT_SUBJECTIVITY_BASE = 0.4;
+const SENTIMENT_SUBJECTIVITY_STEP = 0.12;
+
+const SUBJECTIVITY_TOKEN = new RegExp(`${EMOJI_CLASS}|[\\p{L}\\p{M}\\p{N}]+(?:-[\\p{L}\\p{M}\\p{N}]+)*`, 'gu');
+
+const ENGLISH_SUBJECTIVITY: Record<string, number> = { ...subjectivityData.lexicon, ...subjectivityData.cues };
+
+const wordSubjectivity = (word: string, language: string): number | null => {
+  const { lexicon, modifiers } = getLanguageResources(language);
+  const listed = language === subjectivityData.language ? ENGLISH_SUBJECTIVITY[word] : undefined;
+  const sentiment = lexicon[word];
+  const derived = sentiment
+    ? Math.min(1, SENTIMENT_SUBJECTIVITY_BASE + Math.abs(sentiment) * SENTIMENT_SUBJECTIVITY_STEP)
+    : word in modifiers ? MODIFIER_SUBJECTIVITY : undefined;
+
+  if (listed === undefined && derived === undefined) return null;
+  return Math.round(Math.max(listed ?? 0, derived ?? 0) * 100) / 100;
+};
+
+const scoreSentence = (span: SentenceSpan, language: string): SentenceSubjectivity => {
+  const words = normalizeEmoji(normalizeNoisyText(span.text, language).text)
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .match(SUBJECTIVITY_TOKEN) || [];
+
+  const evidence: SubjectivityEvidence[] = [];
+  for (const word of words) {
+    const subjectivity = wordSubjectivity(word, language);
+    if (subjectivity !== null) evidence.push({ word, subjectivity });
+  }
+
+  const score = evidence.length > 0
+    ? evidence.reduce((sum, e) => sum + e.subjectivity, 0) / evidence.length
+    : 0;
+
+  return { ...span, score, label: score > SUBJECTIVE_THRESHOLD ? 'subjective' : 'objective', evidence };
+};
+
+export const analyzeSubjectivity = (text: string, language = DEFAULT_LANGUAGE): SubjectivityAnalysis => {
+  const sentences = segmentSentences(text).map(span => scoreSentence(span, language));
+  const subjectiveSentences = sentences.filter(s => s.label === 'subjective').length;
+  const score = sentences.length > 0
+    ? sentences.reduce((sum, s) => sum + s.score, 0) / sentences.length
+    : 0;
+
+  return {
+    score,
+    label: subjectiveSentences > 0 ? 'subjective' : 'objective',
+    subjectiveSentences,
+    sentences,
+    evidence: sentences.flatMap(s => s.evidence.filter(e => e.subjectivity > 0))
+  };
+};
+
+export const isFactual = (analysis: SubjectivityAnalysis): boolean => analysis.label === 'objective';
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { countElongations, normalizeNoisyText } from './textNormalizer';
+
+const normalized = (text: string, language?: string) => normalizeNoisyText(text, language).text;
+
+describe('normalizeNoisyText', () => {
+  it.each([
+    ['1/5 would not buy', 'terrible would not buy'],
+    ['5 stars, gr8 product tbh', 'excellent, great product frankly'],
+    ['two stars', 'poor'],
+    ['w/o a doubt the best', 'without a doubt the best'],
+    ['I would give it 4/5 for the price', 'I would give it good for the price'],
+    ['Solid phone 9/10', 'Solid phone excellent']
+  ])('rewrites ratings and abbreviations: %s', (text, expected) => {
+    expect(normalized(text)).toBe(expected);
+  });
+
+  it.each([
+    'Ordered on 3/5 and it arrived 4/10',
+    'Only 2 of 5 stars shine',
+    'Fits 5 stars hotel decor'
+  ])('leaves dates and counts outside a rating context alone: %s', text => {
+    expect(normalizeNoisyText(text).substitutions.filter(s => s.type === 'rating')).toEqual([]);
+  });
+
+  it('leaves dates and model numbers alone', () => {
+    expect(normalizeNoisyText('version 2/5/2024 and mp3').substitutions).toEqual([]);
+  });
+
+  it('squashes elongations to the sentiment word they stretch', () => {
+    expect(normalized('Reallly goood, amazzzing')).toBe('really good, amazing');
+    expect(normalized('ich liebe es sooo sehr', 'de')).toBe('ich liebe es so sehr');
+  });
+
+  it('corrects misspelled sentiment words', () => {
+    expect(normalized('excelent, dissapointed, qualty')).toBe('excellent, disappointed, quality');
+  });
+
+  it('does not turn a misspelled plain word into a sentiment word', () => {
+    expect(normalized('the recieved item')).toBe('the recieved item');
+    expect(normalized('cheep')).toBe('cheep');
+  });
+
+  it('records every substitution with its type', () => {
+    expect(normalizeNoisyText('gr8, sooo good').substitutions).toEqual([
+      { type: 'abbreviation', original: 'gr8', replacement: 'great' },
+      { type: 'elongation', original: 'sooo', replacement: 'so' }
+    ]);
+  });
+});
+
+describe('countElongations', () => {
+  it('counts stretched words but not repeated digits', () => {
+    expect(countElongations('sooo goood mp333')).toBe(2);
+  });
+});
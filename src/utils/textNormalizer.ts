@@ -0,0 +1,232 @@
+import nlp from 'compromise';
+import slang from '../data/slang.json';
+import { getLanguageResources, DEFAULT_LANGUAGE } from './languageResources';
+
+export type SubstitutionType = 'rating' | 'abbreviation' | 'elongation' | 'spelling';
+
+export interface Substitution {
+  type: SubstitutionType;
+  original: string;
+  replacement: string;
+}
+
+export interface NoisyTextNormalization {
+  text: string;
+  substitutions: Substitution[];
+}
+
+const ABBREVIATIONS = slang.abbreviations as Record<string, string>;
+const RATING_WORDS = [...slang.ratingWords].sort((a, b) => b.min - a.min);
+
+const NUMBER_WORDS: Record<string, number> = { zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5 };
+
+const STAR_RATING = /\b(\d(?:\.\d)?|zero|one|two|three|four|five)\s*(?:stars?\b|\*)/gi;
+const SCALE_RATING = /(?<![\d/.])\b(\d{1,3}(?:\.\d)?)\s*(?:\/|out of)\s*(5|10|100)\b(?!\/)/gi;
+// A number only reads as a rating where reviewers put one, never as a date or a count inside a sentence
+const RATING_CLAUSE_START = /(?:^|[.!?;:,(–—-])\s*$/;
+const RATING_VERB = /\b(?:rated?|rating|score[ds]?|give|gave|giving)(?:\s+(?:it|this|them))?\s*:?\s*$/i;
+const RATING_SENTENCE_END = /^\s*(?:[.!?;)]|$)/;
+const DATE_CONTEXT = /\b(?:on|by|since|until|till|from|before|after|dated|ordered|bought|purchased|shipped|delivered|arrived|received)\s*$/i;
+const ELONGATION = /(\p{L})\1{2,}/gu;
+const ELONGATED = /(\p{L})\1{2,}/u;
+// Contractions stay whole and words glued to digits (model numbers, "mp3") are left alone
+const WORD = /(?<![\p{L}\p{M}\p{N}_])[\p{L}\p{M}]+(?:['’][\p{L}\p{M}]+)*(?![\p{L}\p{M}\p{N}_])/gu;
+const CONTRACTION = /['’]/;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const ABBREVIATION_PATTERN = new RegExp(
+  `(?<![\\p{L}\\p{N}/])(${Object.keys(ABBREVIATIONS).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}+])`,
+  'giu'
+);
+
+const MIN_CORRECTION_LENGTH = 5;
+const KNOWN_SUFFIXES = ['s', 'es', 'ed', 'd', 'ing', 'ly', 'er', 'est'];
+const KNOWN_PREFIXES = ['over', 'under', 'out', 're', 'un', 'pre', 'mis', 'non', 'dis'];
+const REGULAR_INFLECTIONS = ['s', 'es', 'ed', 'd', 'ing'];
+
+const ENGLISH_DICTIONARY = (nlp.model() as { one: { lexicon: Record<string, unknown> } }).one.lexicon;
+const CORRECTION_CACHE = new Map<string, string | null>();
+const VOCABULARY_CACHE = new Map<string, Set<string>>();
+
+const vocabulary = (language: string): Set<string> => {
+  let words = VOCABULARY_CACHE.get(language);
+  if (!words) {
+    const resources = getLanguageResources(language);
+    words = new Set([
+      ...Object.keys(resources.lexicon),
+      ...Object.keys(resources.modifiers),
+      ...resources.negators,
+      ...resources.stopWords,
+      ...resources.adversative,
+      ...resources.concessive
+    ]);
+    VOCABULARY_CACHE.set(language, words);
+  }
+  return words;
+};
+
+const isKnownWord = (word: string, language: string): boolean => {
+  const words = vocabulary(language);
+  if (words.has(word)) return true;
+  if (language !== DEFAULT_LANGUAGE) return false;
+
+  const isDictionaryWord = (candidate: string) => candidate in ENGLISH_DICTIONARY || words.has(candidate);
+  const isInflected = (candidate: string) => isDictionaryWord(candidate) || KNOWN_SUFFIXES.some(suffix =>
+    candidate.endsWith(suffix) && isDictionaryWord(candidate.slice(0, -suffix.length))
+  );
+
+  // Prefixed forms such as "overheated" are missing from the dictionary but are not typos
+  return isInflected(word) || KNOWN_PREFIXES.some(prefix =>
+    word.startsWith(prefix) && word.length - prefix.length >= MIN_CORRECTION_LENGTH - 1 && isInflected(word.slice(prefix.length))
+  );
+};
+
+// Stricter than isKnownWord: only dictionary words and their regular inflections
+const isPlainWord = (word: string): boolean => word in ENGLISH_DICTIONARY || REGULAR_INFLECTIONS.some(suffix =>
+  word.endsWith(suffix) && word.slice(0, -suffix.length) in ENGLISH_DICTIONARY
+);
+
+const isRatingContext = (text: string, offset: number, match: string): boolean => {
+  const before = text.slice(0, offset);
+  if (DATE_CONTEXT.test(before)) return false;
+  return RATING_CLAUSE_START.test(before) || RATING_VERB.test(before) || RATING_SENTENCE_END.test(text.slice(offset + match.length));
+};
+
+const ratingWord = (value: number, scale: number): string => {
+  const fraction = Math.max(0, Math.min(1, value / scale));
+  return RATING_WORDS.find(rating => fraction >= rating.min)?.word ?? RATING_WORDS[RATING_WORDS.length - 1].word;
+};
+
+// Optimal string alignment distance, so a swapped pair of letters counts as one edit
+const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  const rows: number[][] = [Array.from({ length: b.length + 1 }, (_, j) => j)];
+  for (let i = 1; i <= a.length; i++) {
+    rows[i] = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+      best = Math.min(best, rows[i][j]);
+    }
+    if (best > limit) return limit + 1;
+  }
+
+  return rows[a.length][b.length];
+};
+
+const ALPHABET = 'abcdefghijklmnopqrstuvwxyz';
+
+// Every string one deletion, transposition, substitution or insertion away
+const singleEdits = (word: string): string[] => {
+  const edits: string[] = [];
+  for (let i = 0; i <= word.length; i++) {
+    const head = word.slice(0, i);
+    const tail = word.slice(i);
+    if (tail) edits.push(head + tail.slice(1));
+    if (tail.length > 1) edits.push(head + tail[1] + tail[0] + tail.slice(2));
+    for (const letter of ALPHABET) {
+      if (tail) edits.push(head + letter + tail.slice(1));
+      edits.push(head + letter + tail);
+    }
+  }
+  return edits;
+};
+
+const correctSpelling = (word: string, language: string): string | null => {
+  const key = `${language}:${word}`;
+  if (CORRECTION_CACHE.has(key)) return CORRECTION_CACHE.get(key)!;
+
+  let correction: string | null = null;
+  if (word.length >= MIN_CORRECTION_LENGTH && !isKnownWord(word, language)) {
+    const limit = word.length >= 8 ? 2 : 1;
+    let bestDistance = limit + 1;
+    let candidates: string[] = [];
+
+    for (const candidate of Object.keys(getLanguageResources(language).lexicon)) {
+      if (candidate[0] !== word[0] || candidate.includes('_')) continue;
+      // Two edits only count when the first two letters agree, which keeps
+      // unlisted derived words ("durability") away from unrelated neighbours
+      const candidateLimit = candidate[1] === word[1] ? limit : 1;
+      const distance = editDistance(word, candidate, candidateLimit);
+      if (distance > candidateLimit) continue;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        candidates = [candidate];
+      } else if (distance === bestDistance) {
+        candidates.push(candidate);
+      }
+    }
+
+    // Only sentiment words are candidates, so a plain word one edit away is the likelier
+    // intent: "recieved" means "received", not "relieved"
+    const hasPlainNeighbour = (candidate: string) =>
+      singleEdits(word).some(edit => !edit.startsWith(candidate) && isPlainWord(edit));
+    correction = candidates.length === 1 && !hasPlainNeighbour(candidates[0]) ? candidates[0] : null;
+  }
+
+  CORRECTION_CACHE.set(key, correction);
+  return correction;
+};
+
+// Every run is tried at one and two letters; sentiment words win over plain
+// dictionary words so "goooood" becomes "good" rather than "god"
+const squashElongation = (word: string, language: string): string => {
+  const runs = Math.min(Array.from(word.matchAll(ELONGATION)).length, 4);
+  const candidates = Array.from({ length: 2 ** runs }, (_, mask) => {
+    let index = 0;
+    return word.replace(ELONGATION, (_, letter: string) => (mask & (1 << index++) ? letter : letter + letter));
+  });
+  const lexicon = getLanguageResources(language).lexicon;
+
+  return candidates.find(candidate => candidate in lexicon)
+    ?? candidates.find(candidate => isKnownWord(candidate, language))
+    ?? word.replace(ELONGATION, '$1');
+};
+
+export const countElongations = (text: string): number =>
+  (text.match(WORD) || []).filter(word => ELONGATED.test(word)).length;
+
+export const normalizeNoisyText = (text: string, language = DEFAULT_LANGUAGE): NoisyTextNormalization => {
+  const substitutions: Substitution[] = [];
+  const record = (type: SubstitutionType, original: string, replacement: string) => {
+    substitutions.push({ type, original, replacement });
+    return replacement;
+  };
+
+  let normalized = text;
+
+  // Ratings and abbreviations are only curated for English reviews
+  if (language === DEFAULT_LANGUAGE) {
+    normalized = normalized
+      .replace(SCALE_RATING, (match, value: string, scale: string, offset: number, input: string) =>
+        (isRatingContext(input, offset, match) ? record('rating', match, ratingWord(Number(value), Number(scale))) : match))
+      .replace(STAR_RATING, (match, value: string, offset: number, input: string) =>
+        (isRatingContext(input, offset, match)
+          ? record('rating', match, ratingWord(NUMBER_WORDS[value.toLowerCase()] ?? Number(value), 5))
+          : match))
+      .replace(ABBREVIATION_PATTERN, match => record('abbreviation', match, ABBREVIATIONS[match.toLowerCase()]));
+  }
+
+  normalized = normalized.replace(WORD, match => {
+    let word = match.toLowerCase();
+
+    if (ELONGATED.test(word)) {
+      word = record('elongation', match, squashElongation(word, language));
+    }
+
+    if (language === DEFAULT_LANGUAGE && !CONTRACTION.test(word)) {
+      const correction = correctSpelling(word, language);
+      if (correction) word = record('spelling', match, correction);
+    }
+
+    return word === match.toLowerCase() ? match : word;
+  });
+
+  return { text: normalized, substitutions };
+};
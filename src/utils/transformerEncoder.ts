@@ -0,0 +1,253 @@
+export interface TransformerConfig {
+  vocab_size: number;
+  hidden_size: number;
+  num_hidden_layers: number;
+  num_attention_heads: number;
+  intermediate_size: number;
+  max_position_embeddings: number;
+  type_vocab_size: number;
+  layer_norm_eps: number;
+  labels: string[];
+}
+
+export interface SerializedTensor {
+  shape: number[];
+  data: number[];
+}
+
+export interface SerializedTransformer {
+  format: 'bert-sequence-classification-json';
+  version: 1;
+  config: TransformerConfig;
+  tensors: Record<string, SerializedTensor>;
+}
+
+interface Tensor {
+  shape: number[];
+  data: Float32Array;
+}
+
+interface EncoderLayer {
+  query: Linear;
+  key: Linear;
+  value: Linear;
+  attentionOutput: Linear;
+  attentionNorm: LayerNorm;
+  intermediate: Linear;
+  output: Linear;
+  outputNorm: LayerNorm;
+}
+
+interface Linear {
+  weight: Tensor;
+  bias: Tensor;
+}
+
+interface LayerNorm {
+  weight: Tensor;
+  bias: Tensor;
+}
+
+export class TransformerEncoder {
+  readonly config: TransformerConfig;
+  readonly parameterCount: number;
+
+  private wordEmbeddings: Tensor;
+  private positionEmbeddings: Tensor;
+  private tokenTypeEmbeddings: Tensor;
+  private embeddingNorm: LayerNorm;
+  private layers: EncoderLayer[];
+  private pooler: Linear;
+  private classifier: Linear;
+
+  constructor(serialized: SerializedTransformer) {
+    if (serialized.format !== 'bert-sequence-classification-json') {
+      throw new Error(`Unsupported weight format: ${serialized.format}`);
+    }
+
+    this.config = serialized.config;
+
+    const tensors = new Map<string, Tensor>();
+    let parameterCount = 0;
+    for (const [name, tensor] of Object.entries(serialized.tensors)) {
+      const expected = tensor.shape.reduce((a, b) => a * b, 1);
+      if (tensor.data.length !== expected) {
+        throw new Error(`Tensor ${name} has ${tensor.data.length} values, expected ${expected}`);
+      }
+      tensors.set(name.replace(/^bert\./, ''), { shape: tensor.shape, data: Float32Array.from(tensor.data) });
+      parameterCount += expected;
+    }
+    this.parameterCount = parameterCount;
+
+    const get = (name: string): Tensor => {
+      const tensor = tensors.get(name);
+      if (!tensor) {
+        throw new Error(`Missing tensor ${name} in weight file`);
+      }
+      return tensor;
+    };
+    const linear = (prefix: string): Linear => ({ weight: get(`${prefix}.weight`), bias: get(`${prefix}.bias`) });
+
+    this.wordEmbeddings = get('embeddings.word_embeddings.weight');
+    this.positionEmbeddings = get('embeddings.position_embeddings.weight');
+    this.tokenTypeEmbeddings = get('embeddings.token_type_embeddings.weight');
+    this.embeddingNorm = linear('embeddings.LayerNorm');
+
+    this.layers = [];
+    for (let i = 0; i < this.config.num_hidden_layers; i++) {
+      const prefix = `encoder.layer.${i}`;
+      this.layers.push({
+        query: linear(`${prefix}.attention.self.query`),
+        key: linear(`${prefix}.attention.self.key`),
+        value: linear(`${prefix}.attention.self.value`),
+        attentionOutput: linear(`${prefix}.attention.output.dense`),
+        attentionNorm: linear(`${prefix}.attention.output.LayerNorm`),
+        intermediate: linear(`${prefix}.intermediate.dense`),
+        output: linear(`${prefix}.output.dense`),
+        outputNorm: linear(`${prefix}.output.LayerNorm`)
+      });
+    }
+
+    this.pooler = linear('pooler.dense');
+    this.classifier = linear('classifier');
+
+    if (this.classifier.weight.shape[0] !== this.config.labels.length) {
+      throw new Error(
+        `Classifier has ${this.classifier.weight.shape[0]} outputs but config lists ${this.config.labels.length} labels`
+      );
+    }
+  }
+
+  forward(inputIds: number[], tokenTypeIds: number[]): number[] {
+    const hidden = this.config.hidden_size;
+    const length = Math.min(inputIds.length, this.config.max_position_embeddings);
+
+    let states = new Float32Array(length * hidden);
+    for (let t = 0; t < length; t++) {
+      const word = inputIds[t] * hidden;
+      const position = t * hidden;
+      const type = (tokenTypeIds[t] || 0) * hidden;
+      for (let h = 0; h < hidden; h++) {
+        states[t * hidden + h] =
+          this.wordEmbeddings.data[word + h] +
+          this.positionEmbeddings.data[position + h] +
+          this.tokenTypeEmbeddings.data[type + h];
+      }
+    }
+    states = layerNorm(states, this.embeddingNorm, hidden, this.config.layer_norm_eps);
+
+    for (const layer of this.layers) {
+      const attended = this.selfAttention(states, layer, length);
+      const projected = applyLinear(attended, layer.attentionOutput, length);
+      states = layerNorm(addInPlace(projected, states), layer.attentionNorm, hidden, this.config.layer_norm_eps);
+
+      const intermediate = applyLinear(states, layer.intermediate, length).map(gelu);
+      const output = applyLinear(intermediate, layer.output, length);
+      states = layerNorm(addInPlace(output, states), layer.outputNorm, hidden, this.config.layer_norm_eps);
+    }
+
+    const pooled = applyLinear(states.subarray(0, hidden), this.pooler, 1).map(Math.tanh);
+    return Array.from(applyLinear(pooled, this.classifier, 1));
+  }
+
+  private selfAttention(states: Float32Array, layer: EncoderLayer, length: number): Float32Array {
+    const hidden = this.config.hidden_size;
+    const heads = this.config.num_attention_heads;
+    const headSize = hidden / heads;
+    const scale = 1 / Math.sqrt(headSize);
+
+    const query = applyLinear(states, layer.query, length);
+    const key = applyLinear(states, layer.key, length);
+    const value = applyLinear(states, layer.value, length);
+
+    const context = new Float32Array(length * hidden);
+    const scores = new Float32Array(length);
+
+    for (let head = 0; head < heads; head++) {
+      const offset = head * headSize;
+      for (let i = 0; i < length; i++) {
+        let maxScore = -Infinity;
+        for (let j = 0; j < length; j++) {
+          let dot = 0;
+          for (let d = 0; d < headSize; d++) {
+            dot += query[i * hidden + offset + d] * key[j * hidden + offset + d];
+          }
+          scores[j] = dot * scale;
+          if (scores[j] > maxScore) maxScore = scores[j];
+        }
+
+        let sum = 0;
+        for (let j = 0; j < length; j++) {
+          scores[j] = Math.exp(scores[j] - maxScore);
+          sum += scores[j];
+        }
+
+        for (let j = 0; j < length; j++) {
+          const weight = scores[j] / sum;
+          for (let d = 0; d < headSize; d++) {
+            context[i * hidden + offset + d] += weight * value[j * hidden + offset + d];
+          }
+        }
+      }
+    }
+
+    return context;
+  }
+}
+
+const applyLinear = (input: Float32Array, linear: Linear, rows: number): Float32Array => {
+  const [outFeatures, inFeatures] = linear.weight.shape;
+  const output = new Float32Array(rows * outFeatures);
+  const weight = linear.weight.data;
+  const bias = linear.bias.data;
+
+  for (let r = 0; r < rows; r++) {
+    const inputOffset = r * inFeatures;
+    for (let o = 0; o < outFeatures; o++) {
+      let sum = bias[o];
+      const weightOffset = o * inFeatures;
+      for (let i = 0; i < inFeatures; i++) {
+        sum += input[inputOffset + i] * weight[weightOffset + i];
+      }
+      output[r * outFeatures + o] = sum;
+    }
+  }
+
+  return output;
+};
+
+const layerNorm = (input: Float32Array, norm: LayerNorm, width: number, eps: number): Float32Array => {
+  const output = new Float32Array(input.length);
+
+  for (let offset = 0; offset < input.length; offset += width) {
+    let mean = 0;
+    for (let i = 0; i < width; i++) mean += input[offset + i];
+    mean /= width;
+
+    let variance = 0;
+    for (let i = 0; i < width; i++) variance += (input[offset + i] - mean) ** 2;
+    variance /= width;
+
+    const denominator = Math.sqrt(variance + eps);
+    for (let i = 0; i < width; i++) {
+      output[offset + i] = ((input[offset + i] - mean) / denominator) * norm.weight.data[i] + norm.bias.data[i];
+    }
+  }
+
+  return output;
+};
+
+const addInPlace = (target: Float32Array, residual: Float32Array): Float32Array => {
+  for (let i = 0; i < target.length; i++) target[i] += residual[i];
+  return target;
+};
+
+const erf = (x: number): number => {
+  const sign = x < 0 ? -1 : 1;
+  const a = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * a);
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-a * a);
+  return sign * y;
+};
+
+const gelu = (x: number): number => 0.5 * x * (1 + erf(x / Math.SQRT2));
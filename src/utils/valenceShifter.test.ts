@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeValence } from './valenceShifter';
+
+const contribution = (text: string, word: string) =>
+  analyzeValence(text).contributions.find(c => c.word === word)?.score;
+
+describe('analyzeValence', () => {
+  it('flips a negated sentiment word', () => {
+    expect(contribution('This is not good', 'good')).toBeLessThan(0);
+    expect(analyzeValence('not bad at all').score).toBeGreaterThan(0);
+  });
+
+  it('keeps negating through intensifiers', () => {
+    const analysis = analyzeValence('not very good');
+    expect(analysis.score).toBeLessThan(0);
+    expect(analysis.shifts.map(s => s.type)).toEqual(expect.arrayContaining(['intensifier', 'negation']));
+  });
+
+  it('only negates the first sentiment word after the negator', () => {
+    const analysis = analyzeValence("It doesn't fit well and the screen is beautiful and the sound is great.");
+    expect(analysis.shifts.filter(s => s.type === 'negation').map(s => s.target)).toEqual(['fit']);
+    expect(analysis.score).toBeGreaterThan(0);
+  });
+
+  it('does not negate fixed phrases such as "without a doubt"', () => {
+    for (const text of ['w/o a doubt the best', 'without any doubt the best', 'no doubt the best']) {
+      const analysis = analyzeValence(text);
+      expect(analysis.shifts.some(s => s.type === 'negation')).toBe(false);
+      expect(analysis.score).toBeGreaterThan(0);
+    }
+  });
+
+  it('weights the clause after an adversative conjunction more', () => {
+    const analysis = analyzeValence('good but broke after a week');
+    expect(analysis.score).toBeLessThan(0);
+    expect(analysis.shifts.some(s => s.type === 'contrast' && s.trigger === 'but')).toBe(true);
+  });
+
+  it('negates with the resources of the requested language', () => {
+    expect(analyzeValence('Das ist nicht gut', 'de').score).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,247 @@
+import { getLanguageResources, DEFAULT_LANGUAGE, LanguageResources } from './languageResources';
+import { normalizeEmoji, EMOJI_CLASS } from './emojiNormalizer';
+import { normalizeNoisyText, Substitution } from './textNormalizer';
+
+export type ValenceShiftType = 'negation' | 'intensifier' | 'diminisher' | 'contrast' | 'elongation';
+
+export interface ValenceShift {
+  type: ValenceShiftType;
+  trigger: string;
+  target: string;
+  factor: number;
+  position: number;
+}
+
+export interface WordContribution {
+  word: string;
+  position: number;
+  baseScore: number;
+  score: number;
+}
+
+export interface ValenceAnalysis {
+  score: number;
+  comparative: number;
+  tokens: string[];
+  positive: string[];
+  negative: string[];
+  contributions: WordContribution[];
+  shifts: ValenceShift[];
+  substitutions: Substitution[];
+}
+
+// The preprocessing stage that applies to scoring; the other stages drop the punctuation and
+// negators that scoring relies on, so they only shape the pipeline output
+export interface ValenceOptions {
+  denoise?: boolean;
+}
+
+interface Clause {
+  sentence: number;
+  tokens: { word: string; position: number }[];
+  weight: number;
+  contrastTrigger?: string;
+  weightedBy?: string;
+}
+
+const NEGATION_FACTOR = -0.75;
+const ELONGATION_FACTOR = 1.25;
+
+const MODIFIER_WINDOW = 3;
+const TRAILING_NEGATION_WINDOW = 2;
+
+const CONTRAST_WEIGHT_BEFORE = 0.5;
+const CONTRAST_WEIGHT_AFTER = 1.5;
+
+const CLAUSE_PUNCTUATION = /^[,;:]+$/;
+const SENTENCE_PUNCTUATION = /^[.!?।]+$/;
+const WORD_TOKEN = new RegExp(`^(?:[\\p{L}\\p{M}\\p{N}_]+|${EMOJI_CLASS})$`, 'u');
+const VALENCE_TOKEN = new RegExp(`${EMOJI_CLASS}|[\\p{L}\\p{M}\\p{N}]+|[.,;:!?।]+`, 'gu');
+
+const tokenizeForValence = (text: string, resources: LanguageResources): string[] => {
+  const raw = normalizeEmoji(text)
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/[’']/g, resources.elision ? ' ' : '')
+    .match(VALENCE_TOKEN) || [];
+
+  const merged: string[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const bigram = `${raw[i]}_${raw[i + 1]}`;
+    if (resources.multiwords.has(bigram)) {
+      merged.push(bigram);
+      i++;
+    } else {
+      merged.push(raw[i]);
+    }
+  }
+
+  return merged;
+};
+
+const buildClauses = (tokens: string[], resources: LanguageResources): Clause[] => {
+  const clauses: Clause[] = [];
+  let sentence = 0;
+  let current: Clause = { sentence, tokens: [], weight: 1 };
+
+  const closeClause = () => {
+    if (current.tokens.length > 0 || current.contrastTrigger) {
+      clauses.push(current);
+    }
+    current = { sentence, tokens: [], weight: 1 };
+  };
+
+  tokens.forEach((token, position) => {
+    if (SENTENCE_PUNCTUATION.test(token)) {
+      closeClause();
+      sentence++;
+      current.sentence = sentence;
+    } else if (CLAUSE_PUNCTUATION.test(token)) {
+      closeClause();
+    } else if (resources.adversative.has(token) || resources.concessive.has(token)) {
+      closeClause();
+      current.contrastTrigger = token;
+    } else {
+      current.tokens.push({ word: token, position });
+    }
+  });
+  closeClause();
+
+  return clauses;
+};
+
+const weightClauses = (clauses: Clause[], resources: LanguageResources): void => {
+  clauses.forEach((clause, idx) => {
+    const trigger = clause.contrastTrigger;
+    if (!trigger) return;
+
+    const reweight = (target: Clause, factor: number) => {
+      target.weight *= factor;
+      target.weightedBy = trigger;
+    };
+
+    if (resources.adversative.has(trigger)) {
+      reweight(clause, CONTRAST_WEIGHT_AFTER);
+      const sameSentence = clauses.slice(0, idx).filter(c => c.sentence === clause.sentence);
+      const preceding = sameSentence.length > 0
+        ? sameSentence
+        : clauses.slice(0, idx).filter(c => c.sentence === clause.sentence - 1);
+      preceding.forEach(c => reweight(c, CONTRAST_WEIGHT_BEFORE));
+    } else {
+      reweight(clause, CONTRAST_WEIGHT_BEFORE);
+      clauses
+        .filter(c => c !== clause && c.sentence === clause.sentence && !c.contrastTrigger)
+        .forEach(c => reweight(c, CONTRAST_WEIGHT_AFTER));
+    }
+  });
+};
+
+export const analyzeValence = (
+  text: string,
+  language = DEFAULT_LANGUAGE,
+  options: ValenceOptions = {}
+): ValenceAnalysis => {
+  const resources = getLanguageResources(language);
+  const { lexicon, negators, negationExceptions, determiners, modifiers } = resources;
+  const normalized = options.denoise === false ? { text, substitutions: [] } : normalizeNoisyText(text, language);
+  const tokens = tokenizeForValence(normalized.text, resources);
+  const clauses = buildClauses(tokens, resources);
+  weightClauses(clauses, resources);
+
+  const contributions: WordContribution[] = [];
+  const shifts: ValenceShift[] = [];
+  const elongated = normalized.substitutions.filter(s => s.type === 'elongation');
+
+  for (const clause of clauses) {
+    let negator: { word: string; position: number } | null = null;
+    let modifier: { word: string; position: number; factor: number } | null = null;
+    const clauseContributions: WordContribution[] = [];
+
+    clause.tokens.forEach(({ word, position }, idx) => {
+      if (negators.has(word)) {
+        const next = clause.tokens[idx + 1]?.word;
+        const head = clause.tokens.slice(idx + 1).find(token => !determiners.has(token.word))?.word;
+        if (head && (negationExceptions[word] || []).includes(head)) return;
+
+        const previous = clauseContributions[clauseContributions.length - 1];
+        const negatesForward = next !== undefined && (next in lexicon || next in modifiers);
+        if (
+          resources.trailingNegation && !negatesForward && previous &&
+          position - previous.position <= TRAILING_NEGATION_WINDOW
+        ) {
+          previous.score *= NEGATION_FACTOR;
+          shifts.push({ type: 'negation', trigger: word, target: previous.word, factor: NEGATION_FACTOR, position: previous.position });
+        } else {
+          negator = { word, position };
+        }
+        return;
+      }
+
+      if (word in modifiers) {
+        modifier = { word, position, factor: modifiers[word] };
+        return;
+      }
+
+      const baseScore = lexicon[word];
+      if (baseScore === undefined) return;
+
+      let score = baseScore;
+
+      const elongation = elongated.findIndex(s => s.replacement === word);
+      if (elongation !== -1) {
+        const [{ original }] = elongated.splice(elongation, 1);
+        score *= ELONGATION_FACTOR;
+        shifts.push({ type: 'elongation', trigger: original, target: word, factor: ELONGATION_FACTOR, position });
+      }
+
+      if (modifier && position - modifier.position <= MODIFIER_WINDOW) {
+        score *= modifier.factor;
+        shifts.push({
+          type: modifier.factor > 1 ? 'intensifier' : 'diminisher',
+          trigger: modifier.word.replace('_', ' '),
+          target: word,
+          factor: modifier.factor,
+          position
+        });
+      }
+      modifier = null;
+
+      // A negator only reaches the first sentiment word after it: in "doesn't fit well and the
+      // screen is great" the praise of the screen is not negated
+      if (negator) {
+        score *= NEGATION_FACTOR;
+        shifts.push({ type: 'negation', trigger: negator.word, target: word, factor: NEGATION_FACTOR, position });
+        negator = null;
+      }
+
+      if (clause.weight !== 1) {
+        score *= clause.weight;
+        shifts.push({
+          type: 'contrast',
+          trigger: clause.weightedBy || '',
+          target: word,
+          factor: clause.weight,
+          position
+        });
+      }
+
+      const contribution = { word, position, baseScore, score };
+      contributions.push(contribution);
+      clauseContributions.push(contribution);
+    });
+  }
+
+  const wordTokens = tokens.filter(t => WORD_TOKEN.test(t));
+  const score = Math.round(contributions.reduce((sum, c) => sum + c.score, 0) * 100) / 100;
+
+  return {
+    score,
+    comparative: wordTokens.length > 0 ? score / wordTokens.length : 0,
+    tokens: wordTokens,
+    positive: contributions.filter(c => c.score > 0).map(c => c.word),
+    negative: contributions.filter(c => c.score < 0).map(c => c.word),
+    contributions,
+    shifts,
+    substitutions: normalized.substitutions
+  };
+};
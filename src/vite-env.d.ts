@@ -1 +1,20 @@
 /// <reference types="vite/client" />
+
+declare module 'sentiment/languages/en/index.js' {
+  const language: { labels: Record<string, number> };
+  export default language;
+}
+
+declare module 'natural/lib/natural/stemmers/porter_stemmer.js' {
+  const stemmer: { stem: (token: string) => string };
+  export default stemmer;
+}
+
+declare module 'natural/lib/natural/stemmers/lancaster_stemmer.js' {
+  const stemmer: { stem: (token: string) => string };
+  export default stemmer;
+}
+
+interface ImportMetaEnv {
+  readonly VITE_API_BASE_URL?: string;
+}
@@ -7,4 +7,10 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  server: {
+    proxy: {
+      // `npm run server` serves the API; the app falls back to in-browser analysis when it is down
+      '/api': process.env.API_PROXY_TARGET || 'http://localhost:3000',
+    },
+  },
 });